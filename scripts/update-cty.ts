@@ -0,0 +1,89 @@
+#!/usr/bin/env npx ts-node
+
+/**
+ * Update DXCC Country File
+ *
+ * Downloads the current cty.dat from country-files.com (AD1C), checks
+ * that it parses and replaces data/cty.dat. The running server picks up
+ * the new file on the next lookup.
+ *
+ * Usage: npm run update-cty
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import https from 'https';
+import { parseCtyDat } from '../src/tools/dxcc/cty.js';
+
+// Configuration
+const CTY_URL = 'https://www.country-files.com/cty/cty.dat';
+const DATA_DIR = path.join(process.cwd(), 'data');
+const OUTPUT_FILE = path.join(DATA_DIR, 'cty.dat');
+const BACKUP_FILE = path.join(DATA_DIR, 'cty_backup.dat');
+
+/**
+ * Download content from URL
+ */
+async function downloadUrl(url: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const request = https.get(url, (response) => {
+      // Handle redirects
+      if (response.statusCode === 301 || response.statusCode === 302) {
+        const redirectUrl = response.headers.location;
+        if (redirectUrl) {
+          downloadUrl(new URL(redirectUrl, url).toString()).then(resolve).catch(reject);
+          return;
+        }
+      }
+
+      if (response.statusCode !== 200) {
+        reject(new Error(`HTTP ${response.statusCode}: ${response.statusMessage}`));
+        return;
+      }
+
+      const chunks: Buffer[] = [];
+      response.on('data', (chunk) => chunks.push(chunk));
+      response.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+      response.on('error', reject);
+    });
+
+    request.on('error', reject);
+    request.setTimeout(60000, () => {
+      request.destroy();
+      reject(new Error('Request timeout'));
+    });
+  });
+}
+
+/**
+ * Main update function
+ */
+async function main() {
+  console.log('=== DXCC Country File Update ===\n');
+
+  try {
+    console.log(`[...] Downloading ${CTY_URL}...`);
+    const content = await downloadUrl(CTY_URL);
+    console.log(`[OK] Downloaded ${(content.length / 1024).toFixed(1)} KB`);
+
+    // Refuse files the server could not load
+    const database = parseCtyDat(content);
+    console.log(`[OK] Parsed ${database.entities.length} entities, version ${database.version ?? 'unknown'}`);
+
+    try {
+      await fs.copyFile(OUTPUT_FILE, BACKUP_FILE);
+      console.log('[OK] Backup created');
+    } catch {
+      console.log('[INFO] No existing cty.dat to backup');
+    }
+
+    await fs.writeFile(OUTPUT_FILE, content);
+    console.log(`\n[OK] Saved to ${OUTPUT_FILE}`);
+  } catch (error) {
+    console.error('\n[ERROR] Update failed:', error);
+    process.exit(1);
+  }
+}
+
+// Run
+main();
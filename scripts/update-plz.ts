@@ -0,0 +1,250 @@
+#!/usr/bin/env npx ts-node
+
+/**
+ * Update Postal Code Gazetteer
+ *
+ * Extends data/plz_at.json with the postal codes used in the callsign list.
+ * The town at the start of the QTH is looked up in the GeoNames place list
+ * (npm package cities.json, CC BY 4.0); entries already in the gazetteer
+ * are kept unchanged.
+ *
+ * Usage: npm run update-plz
+ */
+
+import { promises as fs } from 'fs';
+import { createRequire } from 'module';
+import path from 'path';
+
+// Configuration
+const DATA_DIR = path.join(process.cwd(), 'data');
+const OUTPUT_FILE = path.join(DATA_DIR, 'plz_at.json');
+const CALLSIGN_FILE = path.join(DATA_DIR, 'callsigns_oe.json');
+
+const SOURCE = 'Gemeindezentren nach Statistik Austria / Post AG, auf ca. 1 km gerundet, ergänzt um die Ortslagen aus GeoNames (geonames.org, CC BY 4.0) für die Postleitzahlen der Rufzeichenliste - nicht enthaltene Postleitzahlen werden nicht verortet';
+
+/**
+ * GeoNames admin1 code -> Bundesland
+ */
+const BUNDESLAENDER: Record<string, string> = {
+  '01': 'Burgenland',
+  '02': 'Kärnten',
+  '03': 'Niederösterreich',
+  '04': 'Oberösterreich',
+  '05': 'Salzburg',
+  '06': 'Steiermark',
+  '07': 'Tirol',
+  '08': 'Vorarlberg',
+  '09': 'Wien',
+};
+
+/**
+ * Bundesländer covered by each postal region (first digit of the PLZ)
+ */
+const POSTAL_REGIONS: Record<string, string[]> = {
+  '1': ['09'],
+  '2': ['03', '01'],
+  '3': ['03'],
+  '4': ['04', '03'],
+  '5': ['05', '04'],
+  '6': ['07', '08'],
+  '7': ['01'],
+  '8': ['06'],
+  '9': ['02', '07'],
+};
+
+interface City {
+  name: string;
+  lat: string;
+  lng: string;
+  country: string;
+  admin1: string;
+  admin2: string;
+}
+
+interface PlzEntry {
+  plz: string;
+  gemeinde: string;
+  bezirk: string;
+  bundesland: string;
+  lat: number;
+  lon: number;
+}
+
+/**
+ * Normalize a place name for matching ("St. Veit/Glan" -> "sankt veit glan")
+ */
+function normalizeName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/ß/g, 'ss')
+    .replace(/[-/,]/g, ' ')
+    .replace(/\bst\.?\s*(?=\w)/g, 'sankt ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Austrian spelling of GeoNames names ("Sankt Pölten" -> "St. Pölten")
+ */
+function displayName(name: string): string {
+  return name.replace(/\bSankt\b/g, 'St.');
+}
+
+/**
+ * Longest run of leading QTH words that is a known place name
+ */
+function matchPlace(qth: string, places: Map<string, City[]>): string | null {
+  const words = normalizeName(qth).split(' ');
+  for (let count = Math.min(words.length, 6); count > 0; count--) {
+    const candidate = words.slice(0, count).join(' ');
+    if (places.has(candidate)) return candidate;
+  }
+  return null;
+}
+
+/**
+ * Distance in degrees, scaled for the latitude of Austria; only used to
+ * compare candidates
+ */
+function roughDistance(a: { lat: number; lon: number }, b: { lat: number; lon: number }): number {
+  return Math.hypot(a.lat - b.lat, (a.lon - b.lon) * Math.cos(47.5 * Math.PI / 180));
+}
+
+/**
+ * Pick the candidate nearest to the known codes of the same postal zone
+ * (first two digits), if it is clearly nearer than all others
+ */
+function nearestToZone(plz: string, candidates: City[], entries: PlzEntry[]): City | null {
+  const zone = entries.filter(e => e.plz.startsWith(plz.slice(0, 2)));
+  if (zone.length === 0) return null;
+
+  const centre = {
+    lat: zone.reduce((sum, e) => sum + e.lat, 0) / zone.length,
+    lon: zone.reduce((sum, e) => sum + e.lon, 0) / zone.length,
+  };
+  const ranked = candidates
+    .map(c => ({ city: c, distance: roughDistance(centre, { lat: Number(c.lat), lon: Number(c.lng) }) }))
+    .sort((a, b) => a.distance - b.distance);
+  return ranked[0].distance * 2 < ranked[1].distance ? ranked[0].city : null;
+}
+
+/**
+ * Gazetteer entry for a GeoNames place
+ */
+function toEntry(plz: string, city: City, bezirke: Map<string, string>): PlzEntry {
+  return {
+    plz,
+    gemeinde: displayName(city.name),
+    bezirk: displayName(bezirke.get(`AT.${city.admin1}.${city.admin2}`) ?? ''),
+    bundesland: BUNDESLAENDER[city.admin1],
+    lat: Math.round(Number(city.lat) * 10000) / 10000,
+    lon: Math.round(Number(city.lng) * 10000) / 10000,
+  };
+}
+
+/**
+ * Main update function
+ */
+async function main() {
+  console.log('=== Austrian Postal Code Gazetteer Update ===\n');
+
+  const require = createRequire(import.meta.url);
+  const cities: City[] = require('cities.json');
+  const admin2: { code: string; name: string }[] = require('cities.json/admin2');
+
+  const bezirke = new Map(admin2
+    .filter(a => a.code.startsWith('AT.'))
+    .map(a => [a.code, a.name.replace(/^Politischer Bezirk /, '').replace(/ Stadt$/, '')]));
+
+  const places = new Map<string, City[]>();
+  for (const city of cities.filter(c => c.country === 'AT')) {
+    const key = normalizeName(city.name);
+    places.set(key, [...(places.get(key) ?? []), city]);
+  }
+  console.log(`[OK] ${places.size} Austrian place names from GeoNames`);
+
+  const gazetteer = JSON.parse(await fs.readFile(OUTPUT_FILE, 'utf-8'));
+  const entries: PlzEntry[] = gazetteer.entries;
+  const known = new Set(entries.map(e => e.plz));
+
+  // QTHs per postal code from the visible callsign entries
+  const callsigns = JSON.parse(await fs.readFile(CALLSIGN_FILE, 'utf-8'));
+  const qths = new Map<string, string[]>();
+  for (const entry of callsigns.entries) {
+    if (entry.isHidden || !entry.plz || !entry.qth) continue;
+    qths.set(entry.plz, [...(qths.get(entry.plz) ?? []), entry.qth]);
+  }
+
+  let added = 0;
+  const ambiguous: [string, City[]][] = [];
+  const unresolved: string[] = [];
+  for (const [plz, names] of [...qths].sort(([a], [b]) => a.localeCompare(b))) {
+    if (known.has(plz)) continue;
+
+    // Vienna codes carry the district number (1xy0); other codes of a
+    // district are located at its entry
+    if (plz.startsWith('1')) {
+      const district = entries.find(e => e.plz === plz.slice(0, 3) + '0');
+      if (district) {
+        entries.push({ ...district, plz });
+        added++;
+      } else {
+        unresolved.push(plz);
+      }
+      continue;
+    }
+
+    // Most frequent matching place within the Bundesländer of the postal region
+    const regions = POSTAL_REGIONS[plz[0]] ?? [];
+    const votes = new Map<string, number>();
+    for (const qth of names) {
+      const match = matchPlace(qth, places);
+      if (match && places.get(match)!.some(c => regions.includes(c.admin1))) {
+        votes.set(match, (votes.get(match) ?? 0) + 1);
+      }
+    }
+    const best = [...votes].sort((a, b) => b[1] - a[1])[0];
+    const candidates = best ? places.get(best[0])!.filter(c => regions.includes(c.admin1)) : [];
+
+    if (candidates.length === 0) {
+      unresolved.push(plz);
+    } else if (candidates.length > 1) {
+      ambiguous.push([plz, candidates]);
+    } else {
+      entries.push(toEntry(plz, candidates[0], bezirke));
+      added++;
+    }
+  }
+
+  // Place names that occur more than once in the region are resolved by
+  // the neighbouring codes, once all unique places are known
+  const neighbours = [...entries];
+  for (const [plz, candidates] of ambiguous) {
+    const city = nearestToZone(plz, candidates, neighbours);
+    if (city) {
+      entries.push(toEntry(plz, city, bezirke));
+      added++;
+    } else {
+      unresolved.push(plz);
+    }
+  }
+
+  entries.sort((a, b) => a.plz.localeCompare(b.plz));
+  const output = {
+    version: gazetteer.version,
+    source: SOURCE,
+    updatedAt: new Date().toISOString().split('T')[0],
+  };
+  const lines = entries.map(e => '    ' + JSON.stringify(e).replace(/":/g, '": ').replace(/,"/g, ', "'));
+  const json = JSON.stringify(output, null, 2).replace(/\n}$/, `,\n  "entries": [\n${lines.join(',\n')}\n  ]\n}\n`);
+  await fs.writeFile(OUTPUT_FILE, json);
+
+  console.log(`[OK] Added ${added} postal codes, ${entries.length} in total`);
+  console.log(`[INFO] ${unresolved.length} postal codes without a unique place: ${unresolved.sort().join(', ')}`);
+}
+
+// Run
+main().catch((error) => {
+  console.error('\n[ERROR] Update failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,128 @@
+/**
+ * Reference Data Store
+ *
+ * Loads the versioned reference data files (band plans, cable attenuation,
+ * antenna gains, repeaters, postal codes) from data/, validates them at
+ * startup and reloads them when a file changes on disk. A file that fails
+ * validation on reload is rejected and the previous version stays active.
+ */
+
+import { watch, readFileSync, FSWatcher } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+
+import { bandPlanFileSchema, cableFileSchema, antennaFileSchema, repeaterFileSchema, plzFileSchema } from './schemas.js';
+
+const DATA_DIR = path.join(process.cwd(), 'data');
+
+/**
+ * Delay before reloading a changed file, so editors that write in several
+ * steps are only picked up once
+ */
+const RELOAD_DEBOUNCE_MS = 250;
+
+const DATASETS = {
+  bandplans: { file: 'bandplans.json', schema: bandPlanFileSchema },
+  cables: { file: 'cables.json', schema: cableFileSchema },
+  antennas: { file: 'antennas.json', schema: antennaFileSchema },
+  repeaters: { file: 'repeaters_oe.json', schema: repeaterFileSchema },
+  plz: { file: 'plz_at.json', schema: plzFileSchema },
+};
+
+export type DatasetName = keyof typeof DATASETS;
+
+type Datasets = { [K in DatasetName]: z.infer<typeof DATASETS[K]['schema']> };
+
+/**
+ * Version and source reference of a dataset, included in tool responses
+ */
+export interface DataInfo {
+  dataset: DatasetName;
+  version: string;
+  source: string;
+  updatedAt: string;
+}
+
+const loaded: Partial<Datasets> = {};
+let watcher: FSWatcher | null = null;
+
+/**
+ * Read and validate one data file
+ */
+function readDataset<K extends DatasetName>(name: K): Datasets[K] {
+  const { file, schema } = DATASETS[name];
+  const filePath = path.join(DATA_DIR, file);
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Referenzdaten ${file} konnten nicht gelesen werden: ${(error as Error).message}`);
+  }
+
+  const result = schema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Referenzdaten ${file} sind ungültig: ${issues}`);
+  }
+  return result.data as Datasets[K];
+}
+
+/**
+ * Load and validate all reference data files. Throws on the first invalid
+ * file, so the server does not start with broken data.
+ */
+export function loadReferenceData(): void {
+  for (const name of Object.keys(DATASETS) as DatasetName[]) {
+    (loaded as Record<DatasetName, unknown>)[name] = readDataset(name);
+  }
+}
+
+/**
+ * Get a dataset, loading it on first access
+ */
+export function getDataset<K extends DatasetName>(name: K): Datasets[K] {
+  if (!loaded[name]) {
+    loaded[name] = readDataset(name);
+  }
+  return loaded[name]!;
+}
+
+/**
+ * Version and source reference of a dataset
+ */
+export function getDataInfo(name: DatasetName): DataInfo {
+  const { version, source, updatedAt } = getDataset(name);
+  return { dataset: name, version, source, updatedAt };
+}
+
+/**
+ * Watch the data directory and reload changed files
+ */
+export function watchReferenceData(): void {
+  if (watcher) return;
+
+  const pending = new Map<DatasetName, NodeJS.Timeout>();
+  const byFile = new Map(
+    (Object.keys(DATASETS) as DatasetName[]).map(name => [DATASETS[name].file, name])
+  );
+
+  watcher = watch(DATA_DIR, (_event, filename) => {
+    const name = filename ? byFile.get(filename.toString()) : undefined;
+    if (!name) return;
+
+    clearTimeout(pending.get(name));
+    pending.set(name, setTimeout(() => {
+      pending.delete(name);
+      try {
+        const previous = loaded[name]?.version;
+        (loaded as Record<DatasetName, unknown>)[name] = readDataset(name);
+        console.log(`[Data] ${DATASETS[name].file} neu geladen (Version ${previous} -> ${loaded[name]!.version})`);
+      } catch (error) {
+        console.error(`[Data] Neuladen abgelehnt, Version ${loaded[name]?.version} bleibt aktiv:`, (error as Error).message);
+      }
+    }, RELOAD_DEBOUNCE_MS));
+  });
+}
@@ -0,0 +1,145 @@
+/**
+ * Reference Data Schemas
+ *
+ * zod schemas for the versioned data files under data/. Every file carries
+ * a version and a source reference that are echoed in tool responses.
+ */
+
+import { z } from 'zod';
+
+/**
+ * Version header shared by all reference data files
+ */
+const datasetHeader = {
+  version: z.string().min(1),
+  source: z.string().min(1),
+  updatedAt: z.string().min(1),
+};
+
+const bandSegmentSchema = z.object({
+  start: z.number(),
+  end: z.number(),
+  maxBandwidthHz: z.number().nonnegative().nullable(),
+  modes: z.string(),
+  channelised: z.boolean().optional(),
+  notes: z.string().optional(),
+});
+
+const bandUsageSchema = z.object({
+  type: z.enum(['beacon', 'calling', 'activity', 'contest', 'dx', 'emergency', 'satellite', 'repeater']),
+  start: z.number(),
+  end: z.number(),
+  description: z.string(),
+});
+
+const bandChannelSchema = z.object({
+  name: z.string(),
+  centre: z.number(),
+  bandwidthHz: z.number().positive(),
+  dialUsb: z.number().optional(),
+  modes: z.string(),
+  maxPower: z.string().optional(),
+});
+
+const bandPlanSchema = z.object({
+  start: z.number().positive(),
+  end: z.number().positive(),
+  unit: z.enum(['kHz', 'MHz', 'GHz']),
+  status: z.enum(['primary', 'secondary']),
+  modes: z.string(),
+  maxPower: z.string(),
+  notes: z.string().optional(),
+  segments: z.array(bandSegmentSchema).min(1),
+  usage: z.array(bandUsageSchema),
+  channels: z.array(bandChannelSchema).optional(),
+}).superRefine((plan, ctx) => {
+  if (plan.start >= plan.end) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Bandbeginn muss unter dem Bandende liegen' });
+  }
+  plan.segments.forEach((segment, i) => {
+    if (segment.start < plan.start || segment.end > plan.end || segment.start >= segment.end) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['segments', i], message: 'Segment liegt außerhalb der Bandgrenzen' });
+    }
+  });
+});
+
+export const bandPlanFileSchema = z.object({
+  ...datasetHeader,
+  bands: z.record(bandPlanSchema),
+});
+
+/**
+ * Datasheet values over frequency (MHz -> value)
+ */
+const frequencyTableSchema = z.record(z.number().positive()).refine(
+  points => Object.keys(points).every(f => Number(f) > 0),
+  'Frequenzen müssen in MHz angegeben sein'
+);
+
+export const cableFileSchema = z.object({
+  ...datasetHeader,
+  unit: z.literal('dB/100m'),
+  cables: z.record(z.object({
+    description: z.string(),
+    kind: z.enum(['coax', 'balanced']),
+    impedance_ohm: z.number().positive(),
+    velocity_factor: z.number().min(0.5).max(1),
+    /** Outer diameter, for balanced lines the width */
+    outer_diameter_mm: z.number().positive(),
+    min_bend_radius_mm: z.number().positive(),
+    weight_g_per_m: z.number().positive(),
+    /** Maximum continuous power in W */
+    max_power_w: frequencyTableSchema.refine(
+      points => Object.keys(points).length >= 1,
+      'Mindestens ein Wert für die Belastbarkeit erforderlich'
+    ),
+    attenuation: frequencyTableSchema.refine(
+      points => Object.keys(points).length >= 2,
+      'Mindestens zwei Messpunkte mit Frequenz in MHz erforderlich'
+    ),
+  })),
+});
+
+export const antennaFileSchema = z.object({
+  ...datasetHeader,
+  unit: z.literal('dBi'),
+  antennas: z.record(z.object({
+    gain_dbi: z.number(),
+    description: z.string(),
+  })),
+});
+
+export const repeaterFileSchema = z.object({
+  ...datasetHeader,
+  unit: z.literal('MHz'),
+  repeaters: z.array(z.object({
+    callsign: z.string().regex(/^OE[0-9][A-Z0-9]+$/),
+    qth: z.string(),
+    district: z.number().int().min(1).max(9),
+    locator: z.string().regex(/^[A-R]{2}[0-9]{2}[A-X]{2}$/),
+    mode: z.enum(['FM', 'DMR', 'D-STAR', 'C4FM', 'M17']),
+    output: z.number().positive(),
+    input: z.number().positive(),
+    shift: z.number(),
+    ctcss: z.number().positive().nullable(),
+    dcs: z.string().regex(/^[0-7]{3}$/).nullable(),
+    colorCode: z.number().int().min(0).max(15).optional(),
+    status: z.enum(['active', 'inactive', 'planned']),
+    notes: z.string().optional(),
+  }).refine(
+    r => Math.abs(r.output + r.shift - r.input) < 0.0001,
+    'Eingabefrequenz muss Ausgabefrequenz plus Ablage entsprechen'
+  )),
+});
+
+export const plzFileSchema = z.object({
+  ...datasetHeader,
+  entries: z.array(z.object({
+    plz: z.string().regex(/^[1-9][0-9]{3}$/),
+    gemeinde: z.string(),
+    bezirk: z.string(),
+    bundesland: z.string(),
+    lat: z.number().min(46).max(49.1),
+    lon: z.number().min(9.4).max(17.2),
+  })).min(1),
+});
@@ -0,0 +1,143 @@
+/**
+ * Digital Elevation Model
+ *
+ * Reads SRTM elevation tiles in the HGT format from a local directory
+ * (DEM_DIR, default data/dem), so terrain profiles work offline. A tile
+ * covers 1° × 1° and is named after its south-west corner (N47E015.hgt);
+ * it holds big-endian 16-bit heights in metres, row by row from north to
+ * south, with 3601 (SRTM1) or 1201 (SRTM3) samples per row.
+ */
+
+import { existsSync, readFileSync, statSync } from 'fs';
+import path from 'path';
+
+import { LatLon } from './types.js';
+
+export const DEM_DIR = process.env.DEM_DIR || path.join(process.cwd(), 'data', 'dem');
+
+/**
+ * Marker for missing samples (voids) in SRTM tiles
+ */
+const VOID_VALUE = -32768;
+
+/**
+ * Number of tiles kept in memory; an SRTM1 tile needs about 26 MB
+ */
+const TILE_CACHE_SIZE = 6;
+
+interface DemTile {
+  size: number;
+  data: Buffer;
+}
+
+const tileCache = new Map<string, DemTile>();
+
+/**
+ * Tiles not found in DEM_DIR, valid while the modification time of the
+ * directory is unchanged
+ */
+let missingTiles = { dirMtimeMs: 0, names: new Set<string>() };
+
+function demDirMtimeMs(): number {
+  try {
+    return statSync(DEM_DIR).mtimeMs;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * File name of the tile containing a position ("N47E015.hgt")
+ */
+export function tileName(position: LatLon): string {
+  const lat = Math.floor(position.lat);
+  const lon = Math.floor(position.lon);
+  const ns = lat >= 0 ? 'N' : 'S';
+  const ew = lon >= 0 ? 'E' : 'W';
+  return `${ns}${String(Math.abs(lat)).padStart(2, '0')}${ew}${String(Math.abs(lon)).padStart(3, '0')}.hgt`;
+}
+
+/**
+ * Load a tile from DEM_DIR, or null if it is not available. Missing tiles
+ * are remembered until a file is added to or removed from DEM_DIR, so
+ * tiles added later are found without a restart.
+ */
+function loadTile(name: string): DemTile | null {
+  const cached = tileCache.get(name);
+  if (cached) {
+    // Move to the end so the least recently used tile is evicted first
+    tileCache.delete(name);
+    tileCache.set(name, cached);
+    return cached;
+  }
+
+  const dirMtimeMs = demDirMtimeMs();
+  if (dirMtimeMs !== missingTiles.dirMtimeMs) {
+    missingTiles = { dirMtimeMs, names: new Set() };
+  }
+  if (missingTiles.names.has(name)) return null;
+
+  const filePath = [name, name.toLowerCase()]
+    .map(file => path.join(DEM_DIR, file))
+    .find(file => existsSync(file));
+
+  if (!filePath) {
+    missingTiles.names.add(name);
+    return null;
+  }
+
+  const data = readFileSync(filePath);
+  const size = Math.round(Math.sqrt(data.length / 2));
+  if (size * size * 2 !== data.length || size < 2) {
+    throw new Error(`Höhendatei ${name} hat kein gültiges HGT-Format (${data.length} Bytes)`);
+  }
+  const tile = { size, data };
+
+  tileCache.set(name, tile);
+  if (tileCache.size > TILE_CACHE_SIZE) {
+    tileCache.delete(tileCache.keys().next().value!);
+  }
+  return tile;
+}
+
+/**
+ * Whether the tile with the given name is available in DEM_DIR
+ */
+export function hasTile(name: string): boolean {
+  return loadTile(name) !== null;
+}
+
+function sample(tile: DemTile, row: number, col: number): number | null {
+  const value = tile.data.readInt16BE((row * tile.size + col) * 2);
+  return value === VOID_VALUE ? null : value;
+}
+
+/**
+ * Elevation in metres above sea level, bilinearly interpolated between the
+ * four surrounding samples. Returns null if the tile is missing or all
+ * surrounding samples are voids.
+ */
+export function elevationAt(position: LatLon): number | null {
+  const tile = loadTile(tileName(position));
+  if (!tile) return null;
+
+  const steps = tile.size - 1;
+  const y = (Math.floor(position.lat) + 1 - position.lat) * steps;
+  const x = (position.lon - Math.floor(position.lon)) * steps;
+  const row = Math.min(Math.floor(y), steps - 1);
+  const col = Math.min(Math.floor(x), steps - 1);
+  const fy = y - row;
+  const fx = x - col;
+
+  const corners = [
+    { value: sample(tile, row, col), weight: (1 - fx) * (1 - fy) },
+    { value: sample(tile, row, col + 1), weight: fx * (1 - fy) },
+    { value: sample(tile, row + 1, col), weight: (1 - fx) * fy },
+    { value: sample(tile, row + 1, col + 1), weight: fx * fy },
+  ].filter((c): c is { value: number; weight: number } => c.value !== null);
+
+  if (corners.length === 0) return null;
+  const totalWeight = corners.reduce((sum, c) => sum + c.weight, 0);
+  if (totalWeight === 0) return corners.reduce((sum, c) => sum + c.value, 0) / corners.length;
+  return corners.reduce((sum, c) => sum + c.value * c.weight, 0) / totalWeight;
+}
@@ -0,0 +1,68 @@
+/**
+ * Great-Circle Distance
+ *
+ * Distances, bearings and midpoints on a spherical earth model, sufficient
+ * for radio range estimates and beam headings
+ */
+
+import { LatLon } from './types.js';
+
+/**
+ * Mean earth radius in km
+ */
+export const EARTH_RADIUS_KM = 6371;
+
+const toRad = (deg: number): number => deg * Math.PI / 180;
+const toDeg = (rad: number): number => rad * 180 / Math.PI;
+
+/**
+ * Great-circle distance between two points in km (haversine formula)
+ */
+export function distanceKm(a: LatLon, b: LatLon): number {
+  const dLat = toRad(b.lat - a.lat);
+  const dLon = toRad(b.lon - a.lon);
+  const h = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Initial great-circle bearing from a to b in degrees (0-360, 0 = north)
+ */
+export function bearingDeg(a: LatLon, b: LatLon): number {
+  const dLon = toRad(b.lon - a.lon);
+  const y = Math.sin(dLon) * Math.cos(toRad(b.lat));
+  const x = Math.cos(toRad(a.lat)) * Math.sin(toRad(b.lat))
+    - Math.sin(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.cos(dLon);
+  return (toDeg(Math.atan2(y, x)) + 360) % 360;
+}
+
+/**
+ * Midpoint of the great-circle path between a and b
+ */
+export function midpoint(a: LatLon, b: LatLon): LatLon {
+  const dLon = toRad(b.lon - a.lon);
+  const bx = Math.cos(toRad(b.lat)) * Math.cos(dLon);
+  const by = Math.cos(toRad(b.lat)) * Math.sin(dLon);
+  const lat = Math.atan2(
+    Math.sin(toRad(a.lat)) + Math.sin(toRad(b.lat)),
+    Math.sqrt((Math.cos(toRad(a.lat)) + bx) ** 2 + by ** 2)
+  );
+  const lon = toRad(a.lon) + Math.atan2(by, Math.cos(toRad(a.lat)) + bx);
+  return { lat: toDeg(lat), lon: ((toDeg(lon) + 540) % 360) - 180 };
+}
+
+/**
+ * Point at a fraction (0-1) of the great-circle path from a to b
+ */
+export function intermediatePoint(a: LatLon, b: LatLon, fraction: number): LatLon {
+  const delta = distanceKm(a, b) / EARTH_RADIUS_KM;
+  if (delta === 0) return { ...a };
+
+  const wa = Math.sin((1 - fraction) * delta) / Math.sin(delta);
+  const wb = Math.sin(fraction * delta) / Math.sin(delta);
+  const x = wa * Math.cos(toRad(a.lat)) * Math.cos(toRad(a.lon)) + wb * Math.cos(toRad(b.lat)) * Math.cos(toRad(b.lon));
+  const y = wa * Math.cos(toRad(a.lat)) * Math.sin(toRad(a.lon)) + wb * Math.cos(toRad(b.lat)) * Math.sin(toRad(b.lon));
+  const z = wa * Math.sin(toRad(a.lat)) + wb * Math.sin(toRad(b.lat));
+  return { lat: toDeg(Math.atan2(z, Math.hypot(x, y))), lon: toDeg(Math.atan2(y, x)) };
+}
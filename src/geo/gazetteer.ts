@@ -0,0 +1,40 @@
+/**
+ * Austrian Postal Code Gazetteer
+ *
+ * Offline geocoding of Austrian postal codes (PLZ) from data/plz_at.json.
+ * Postal codes that are not in the gazetteer are not located - a
+ * neighbouring code can be a different valley.
+ */
+
+import { getDataset } from '../data/index.js';
+import { LatLon } from './types.js';
+
+/**
+ * Gazetteer entry for one postal code
+ */
+export interface PlzEntry extends LatLon {
+  plz: string;
+  gemeinde: string;
+  bezirk: string;
+  bundesland: string;
+}
+
+const PLZ_PATTERN = /^[1-9][0-9]{3}$/;
+
+/**
+ * Get all gazetteer entries
+ */
+export function getPlzEntries(): PlzEntry[] {
+  return getDataset('plz').entries;
+}
+
+/**
+ * Geocode a postal code. Returns null for malformed codes and codes that
+ * are not in the gazetteer.
+ */
+export function geocodePlz(plz: string): PlzEntry | null {
+  const code = plz.trim();
+  if (!PLZ_PATTERN.test(code)) return null;
+
+  return getPlzEntries().find(e => e.plz === code) ?? null;
+}
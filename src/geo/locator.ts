@@ -0,0 +1,142 @@
+/**
+ * Maidenhead Locator
+ *
+ * Conversion between Maidenhead locators (QTH locators) and coordinates.
+ * Supports 4, 6, 8 and 10 characters: field (A-R), square (0-9),
+ * subsquare (A-X), extended square (0-9) and extended subsquare (A-X).
+ */
+
+import { LatLon, LatLonBounds } from './types.js';
+
+/**
+ * Supported locator lengths
+ */
+export const LOCATOR_PRECISIONS = [4, 6, 8, 10] as const;
+
+export type LocatorPrecision = typeof LOCATOR_PRECISIONS[number];
+
+/**
+ * One character pair of a locator: allowed characters and the size of a
+ * cell in degrees of longitude and latitude
+ */
+interface LocatorPair {
+  name: string;
+  chars: string;
+  lonSize: number;
+  latSize: number;
+}
+
+const LETTERS = 'ABCDEFGHIJKLMNOPQRSTUVWX';
+const DIGITS = '0123456789';
+
+const LOCATOR_PAIRS: LocatorPair[] = [
+  { name: 'Feld', chars: LETTERS.slice(0, 18), lonSize: 20, latSize: 10 },
+  { name: 'Quadrat', chars: DIGITS, lonSize: 2, latSize: 1 },
+  { name: 'Unterquadrat', chars: LETTERS, lonSize: 2 / 24, latSize: 1 / 24 },
+  { name: 'erweitertes Quadrat', chars: DIGITS, lonSize: 2 / 240, latSize: 1 / 240 },
+  { name: 'erweitertes Unterquadrat', chars: LETTERS, lonSize: 2 / 5760, latSize: 1 / 5760 },
+];
+
+/**
+ * Tolerance against floating point noise when a coordinate lies exactly on
+ * a cell edge
+ */
+const EDGE_EPSILON = 1e-9;
+
+/**
+ * Normalize a locator ("jn76to" -> "JN76TO")
+ */
+export function normalizeLocator(locator: string): string {
+  return locator.trim().toUpperCase();
+}
+
+/**
+ * Validate a locator. Returns a German error message describing the first
+ * problem, or null if the locator is valid.
+ */
+export function validateLocator(locator: string): string | null {
+  const loc = normalizeLocator(locator);
+
+  if (!(LOCATOR_PRECISIONS as readonly number[]).includes(loc.length)) {
+    return `Locator "${locator}" hat ${loc.length} Zeichen - erlaubt sind 4, 6, 8 oder 10 Zeichen (z.B. JN76, JN76TO, JN76TO42)`;
+  }
+
+  for (let i = 0; i < loc.length; i++) {
+    const pair = LOCATOR_PAIRS[Math.floor(i / 2)];
+    if (!pair.chars.includes(loc[i])) {
+      const allowed = pair.chars === DIGITS ? '0-9' : `A-${pair.chars[pair.chars.length - 1]}`;
+      return `Locator "${locator}": Zeichen ${i + 1} ("${locator.trim()[i]}") ist ungültig - erlaubt sind ${allowed} (${pair.name})`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Check whether a string is a valid locator
+ */
+export function isValidLocator(locator: string): boolean {
+  return validateLocator(locator) === null;
+}
+
+/**
+ * Convert a locator to the bounding box of its cell
+ */
+export function locatorToBounds(locator: string): LatLonBounds {
+  const error = validateLocator(locator);
+  if (error) {
+    throw new Error(error);
+  }
+
+  const loc = normalizeLocator(locator);
+  let west = -180;
+  let south = -90;
+  let pair = LOCATOR_PAIRS[0];
+
+  for (let i = 0; i < loc.length; i += 2) {
+    pair = LOCATOR_PAIRS[i / 2];
+    west += pair.chars.indexOf(loc[i]) * pair.lonSize;
+    south += pair.chars.indexOf(loc[i + 1]) * pair.latSize;
+  }
+
+  return {
+    south,
+    west,
+    north: south + pair.latSize,
+    east: west + pair.lonSize,
+  };
+}
+
+/**
+ * Convert a locator to the coordinates of its centre
+ */
+export function locatorToLatLon(locator: string): LatLon {
+  const bounds = locatorToBounds(locator);
+  return {
+    lat: (bounds.south + bounds.north) / 2,
+    lon: (bounds.west + bounds.east) / 2,
+  };
+}
+
+/**
+ * Convert coordinates to a locator of the given length
+ */
+export function latLonToLocator(position: LatLon, precision: LocatorPrecision = 6): string {
+  if (position.lat < -90 || position.lat > 90 || position.lon < -180 || position.lon > 180) {
+    throw new Error(`Koordinaten außerhalb des gültigen Bereichs: ${position.lat}, ${position.lon}`);
+  }
+
+  let lon = position.lon + 180;
+  let lat = position.lat + 90;
+  let locator = '';
+
+  for (const pair of LOCATOR_PAIRS.slice(0, precision / 2)) {
+    const max = pair.chars.length - 1;
+    const lonIndex = Math.min(max, Math.floor(lon / pair.lonSize + EDGE_EPSILON));
+    const latIndex = Math.min(max, Math.floor(lat / pair.latSize + EDGE_EPSILON));
+    locator += pair.chars[lonIndex] + pair.chars[latIndex];
+    lon = Math.max(0, lon - lonIndex * pair.lonSize);
+    lat = Math.max(0, lat - latIndex * pair.latSize);
+  }
+
+  return locator;
+}
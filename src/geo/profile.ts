@@ -0,0 +1,154 @@
+/**
+ * Terrain Profile
+ *
+ * Elevation profile along the great circle between two antennas, with the
+ * earth bulge for an effective earth radius k·R (k = 4/3 for standard
+ * atmospheric refraction) and the clearance of the line of sight and the
+ * first Fresnel zone.
+ */
+
+import { EARTH_RADIUS_KM, distanceKm, intermediatePoint } from './distance.js';
+import { DEM_DIR, elevationAt, hasTile, tileName } from './dem.js';
+import { fresnelRadiusM } from '../rf/propagation.js';
+import { LatLon } from './types.js';
+
+/**
+ * Share of the first Fresnel zone that should be free of obstacles
+ */
+export const FRESNEL_CLEARANCE_PERCENT = 60;
+
+export interface ProfileOptions {
+  /** Antenna heights above ground in metres */
+  heightAM: number;
+  heightBM: number;
+  frequencyMhz: number;
+  kFactor: number;
+  samples: number;
+}
+
+/**
+ * One sample of the profile. Terrain heights include the earth bulge, so
+ * the line of sight between the antennas is straight.
+ */
+export interface ProfilePoint {
+  distanceKm: number;
+  position: LatLon;
+  /** Ground elevation above sea level, null for voids in the tile */
+  elevationM: number | null;
+  earthBulgeM: number;
+  lineOfSightM: number;
+  fresnelRadiusM: number;
+  /** Line of sight minus terrain (negative: terrain blocks the view) */
+  clearanceM: number | null;
+  /** Clearance relative to the first Fresnel zone radius */
+  clearancePercent: number | null;
+}
+
+/**
+ * Continuous stretch of the path below a clearance threshold
+ */
+export interface ProfileSegment {
+  startKm: number;
+  endKm: number;
+  /** Sample with the least clearance */
+  worst: ProfilePoint;
+}
+
+export interface TerrainProfile {
+  distanceKm: number;
+  groundAM: number;
+  groundBM: number;
+  points: ProfilePoint[];
+  /** Stretches where the terrain blocks the line of sight */
+  obstructions: ProfileSegment[];
+  /** Stretches with less than 60 % of the first Fresnel zone free */
+  fresnelIntrusions: ProfileSegment[];
+  /** Sample with the least Fresnel zone clearance */
+  worst: ProfilePoint | null;
+  voidSamples: number;
+}
+
+/**
+ * Stretches of consecutive samples matching a condition
+ */
+function findSegments(points: ProfilePoint[], blocked: (p: ProfilePoint) => boolean): ProfileSegment[] {
+  const segments: ProfileSegment[] = [];
+  let current: ProfileSegment | null = null;
+  for (const point of points) {
+    if (point.clearancePercent !== null && blocked(point)) {
+      if (!current) {
+        current = { startKm: point.distanceKm, endKm: point.distanceKm, worst: point };
+        segments.push(current);
+      }
+      current.endKm = point.distanceKm;
+      if (point.clearancePercent < current.worst.clearancePercent!) current.worst = point;
+    } else {
+      current = null;
+    }
+  }
+  return segments;
+}
+
+/**
+ * Calculate the terrain profile between two positions
+ *
+ * @throws Error with a German message if elevation tiles are missing
+ */
+export function terrainProfile(a: LatLon, b: LatLon, options: ProfileOptions): TerrainProfile {
+  const totalKm = distanceKm(a, b);
+  const positions = Array.from({ length: options.samples + 1 }, (_, i) => intermediatePoint(a, b, i / options.samples));
+
+  const missing = [...new Set(positions.map(tileName))].filter(name => !hasTile(name));
+  if (missing.length > 0) {
+    throw new Error(`Höhendaten fehlen: ${missing.join(', ')} - SRTM-Kacheln (HGT) in das Verzeichnis ${DEM_DIR} legen`);
+  }
+
+  const elevations = positions.map(p => elevationAt(p));
+  const groundA = elevations[0];
+  const groundB = elevations[elevations.length - 1];
+  if (groundA === null || groundB === null) {
+    throw new Error('Keine Höhendaten am Standort (Datenlücke in der SRTM-Kachel)');
+  }
+
+  const effectiveRadiusM = options.kFactor * EARTH_RADIUS_KM * 1000;
+  const heightA = groundA + options.heightAM;
+  const heightB = groundB + options.heightBM;
+
+  const points = positions.map((position, i): ProfilePoint => {
+    const d1 = totalKm * i / options.samples;
+    const d2 = totalKm - d1;
+    const earthBulgeM = (d1 * 1000) * (d2 * 1000) / (2 * effectiveRadiusM);
+    const lineOfSightM = heightA + (heightB - heightA) * (d1 / totalKm);
+    const radius = d1 > 0 && d2 > 0 ? fresnelRadiusM(d1, d2, options.frequencyMhz) : 0;
+    const elevation = elevations[i];
+    const clearance = elevation === null ? null : lineOfSightM - (elevation + earthBulgeM);
+    return {
+      distanceKm: d1,
+      position,
+      elevationM: elevation,
+      earthBulgeM,
+      lineOfSightM,
+      fresnelRadiusM: radius,
+      clearanceM: clearance,
+      // The endpoints carry the antennas and are not evaluated
+      clearancePercent: clearance === null || radius === 0 ? null : (clearance / radius) * 100,
+    };
+  });
+
+  const evaluated = points.filter(p => p.clearancePercent !== null);
+  const worst = evaluated.reduce<ProfilePoint | null>(
+    (min, p) => (min === null || p.clearancePercent! < min.clearancePercent! ? p : min),
+    null
+  );
+
+  return {
+    distanceKm: totalKm,
+    groundAM: groundA,
+    groundBM: groundB,
+    points,
+    obstructions: findSegments(points, p => p.clearanceM! < 0),
+    fresnelIntrusions: findSegments(points, p => p.clearancePercent! < FRESNEL_CLEARANCE_PERCENT),
+    worst,
+    voidSamples: elevations.filter(e => e === null).length,
+  };
+}
@@ -0,0 +1,171 @@
+/**
+ * Solar Times
+ *
+ * Sunrise, sunset, twilight and solar noon from the NOAA solar position
+ * formulas (Meeus, Astronomical Algorithms). Accuracy is about one minute
+ * between the polar circles, which is plenty for grey-line planning.
+ */
+
+import { LatLon } from './types.js';
+
+/**
+ * Sun altitudes in degrees that define the solar events
+ */
+export const SOLAR_ALTITUDES = {
+  /** Upper limb on the horizon, corrected for refraction */
+  sunrise: -0.833,
+  civil: -6,
+  nautical: -12,
+} as const;
+
+export type SolarEventName =
+  | 'nauticalDawn'
+  | 'civilDawn'
+  | 'sunrise'
+  | 'solarNoon'
+  | 'sunset'
+  | 'civilDusk'
+  | 'nauticalDusk';
+
+/**
+ * Solar event times of one day; null if the sun does not reach the
+ * altitude (polar day or polar night)
+ */
+export type SolarTimes = Record<SolarEventName, Date | null>;
+
+/**
+ * Time window in which a location lies in the grey line
+ */
+export interface GreylineWindow {
+  type: 'morning' | 'evening';
+  start: Date;
+  end: Date;
+}
+
+const MS_PER_MINUTE = 60_000;
+const MS_PER_DAY = 86_400_000;
+
+/**
+ * Iterations of the event time; each one recomputes the sun position at
+ * the previous estimate
+ */
+const ITERATIONS = 3;
+
+const rad = (deg: number): number => deg * Math.PI / 180;
+const deg = (r: number): number => r * 180 / Math.PI;
+
+/**
+ * Solar declination (degrees) and equation of time (minutes) at an instant
+ */
+function solarPosition(time: Date): { declination: number; equationOfTime: number } {
+  const julianDay = time.getTime() / MS_PER_DAY + 2440587.5;
+  const t = (julianDay - 2451545) / 36525;
+
+  const meanLongitude = (280.46646 + t * (36000.76983 + t * 0.0003032)) % 360;
+  const meanAnomaly = 357.52911 + t * (35999.05029 - 0.0001537 * t);
+  const eccentricity = 0.016708634 - t * (0.000042037 + 0.0000001267 * t);
+
+  const centre = Math.sin(rad(meanAnomaly)) * (1.914602 - t * (0.004817 + 0.000014 * t))
+    + Math.sin(rad(2 * meanAnomaly)) * (0.019993 - 0.000101 * t)
+    + Math.sin(rad(3 * meanAnomaly)) * 0.000289;
+
+  const omega = 125.04 - 1934.136 * t;
+  const apparentLongitude = meanLongitude + centre - 0.00569 - 0.00478 * Math.sin(rad(omega));
+
+  const meanObliquity = 23 + (26 + (21.448 - t * (46.815 + t * (0.00059 - t * 0.001813))) / 60) / 60;
+  const obliquity = meanObliquity + 0.00256 * Math.cos(rad(omega));
+
+  const declination = deg(Math.asin(Math.sin(rad(obliquity)) * Math.sin(rad(apparentLongitude))));
+
+  const y = Math.tan(rad(obliquity / 2)) ** 2;
+  const l0 = rad(meanLongitude);
+  const m = rad(meanAnomaly);
+  const equationOfTime = 4 * deg(
+    y * Math.sin(2 * l0)
+    - 2 * eccentricity * Math.sin(m)
+    + 4 * eccentricity * y * Math.sin(m) * Math.cos(2 * l0)
+    - 0.5 * y * y * Math.sin(4 * l0)
+    - 1.25 * eccentricity * eccentricity * Math.sin(2 * m)
+  );
+
+  return { declination, equationOfTime };
+}
+
+/**
+ * Hour angle (degrees) at which the sun reaches an altitude, or null if it
+ * never does on that day
+ */
+function hourAngle(latitude: number, declination: number, altitude: number): number | null {
+  const cos = (Math.sin(rad(altitude)) - Math.sin(rad(latitude)) * Math.sin(rad(declination)))
+    / (Math.cos(rad(latitude)) * Math.cos(rad(declination)));
+
+  if (cos < -1 || cos > 1) return null;
+  return deg(Math.acos(cos));
+}
+
+/**
+ * Time of a solar event on the given UTC day. direction -1 is the morning
+ * event, +1 the evening event and 0 solar noon.
+ */
+function eventTime(day: Date, position: LatLon, altitude: number, direction: -1 | 0 | 1): Date | null {
+  let time = new Date(day.getTime() + (720 - 4 * position.lon) * MS_PER_MINUTE);
+
+  for (let i = 0; i < ITERATIONS; i++) {
+    const { declination, equationOfTime } = solarPosition(time);
+    const angle = direction === 0 ? 0 : hourAngle(position.lat, declination, altitude);
+    if (angle === null) return null;
+
+    const minutes = 720 - 4 * position.lon - equationOfTime + direction * 4 * angle;
+    time = new Date(day.getTime() + minutes * MS_PER_MINUTE);
+  }
+  return time;
+}
+
+/**
+ * Start of the UTC day of a date
+ */
+export function utcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+/**
+ * Solar event times for a position on a UTC day. Events belong to the
+ * solar day around local noon, so far east or west they may fall on the
+ * previous or next UTC date.
+ */
+export function solarTimes(date: Date, position: LatLon): SolarTimes {
+  const day = utcDay(date);
+  return {
+    nauticalDawn: eventTime(day, position, SOLAR_ALTITUDES.nautical, -1),
+    civilDawn: eventTime(day, position, SOLAR_ALTITUDES.civil, -1),
+    sunrise: eventTime(day, position, SOLAR_ALTITUDES.sunrise, -1),
+    solarNoon: eventTime(day, position, 0, 0),
+    sunset: eventTime(day, position, SOLAR_ALTITUDES.sunrise, 1),
+    civilDusk: eventTime(day, position, SOLAR_ALTITUDES.civil, 1),
+    nauticalDusk: eventTime(day, position, SOLAR_ALTITUDES.nautical, 1),
+  };
+}
+
+/**
+ * Grey-line windows of a solar day: civil dawn to sunrise and sunset to
+ * civil dusk. Days without sunrise or civil twilight have no window.
+ */
+export function greylineWindows(times: SolarTimes): GreylineWindow[] {
+  const windows: GreylineWindow[] = [];
+  if (times.civilDawn && times.sunrise) {
+    windows.push({ type: 'morning', start: times.civilDawn, end: times.sunrise });
+  }
+  if (times.sunset && times.civilDusk) {
+    windows.push({ type: 'evening', start: times.sunset, end: times.civilDusk });
+  }
+  return windows;
+}
+
+/**
+ * Overlap of two time windows, or null if they do not overlap
+ */
+export function overlapWindow(a: { start: Date; end: Date }, b: { start: Date; end: Date }): { start: Date; end: Date } | null {
+  const start = Math.max(a.start.getTime(), b.start.getTime());
+  const end = Math.min(a.end.getTime(), b.end.getTime());
+  return start < end ? { start: new Date(start), end: new Date(end) } : null;
+}
@@ -0,0 +1,23 @@
+/**
+ * Geo Types
+ *
+ * Shared types for coordinates and Maidenhead locators
+ */
+
+/**
+ * WGS84 coordinates in decimal degrees
+ */
+export interface LatLon {
+  lat: number;
+  lon: number;
+}
+
+/**
+ * Bounding box in decimal degrees
+ */
+export interface LatLonBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
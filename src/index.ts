@@ -12,96 +12,23 @@ import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
 import { z } from "zod";
 import { registerCallsignTools } from "./tools/callsign/index.js";
+import { registerBandplanTools } from "./tools/bandplan/index.js";
+import { registerRepeaterTools } from "./tools/repeater/index.js";
+import { registerGeoTools } from "./tools/geo/index.js";
+import { registerDxccTools } from "./tools/dxcc/index.js";
+import { registerExposureTools } from "./tools/exposure/index.js";
+import { registerStationTools } from "./tools/station/index.js";
+import { registerLinkTools } from "./tools/link/index.js";
+import { registerAntennaTools } from "./tools/antenna/index.js";
+import { CABLE_MAX_SPEC_MHZ, cableLossDb, estimateCableLoss, fitCableModel, getCables, maxPowerWatts } from "./tools/cable/loss.js";
+import { mismatchedLineLoss, reflectionCoefficient } from "./tools/cable/swr.js";
+import { CABLE_KIND_NAMES } from "./tools/cable/types.js";
+import { wattsToDbm, wattsToDbw, dbmToWatts, dbwToWatts } from "./rf/power.js";
+import { loadReferenceData, watchReferenceData, getDataset, getDataInfo } from "./data/index.js";
 
 const app = express();
 const PORT = process.env.PORT || 3000;
 
-// ============================================================================
-// DATEN: IARU Region 1 Bandpläne (Kurzwelle + VHF/UHF)
-// ============================================================================
-
-const BAND_PLANS: Record<string, {
-  start: number;
-  end: number;
-  unit: "kHz" | "MHz";
-  modes: string;
-  maxPower: string;
-  notes?: string;
-}> = {
-  "2200m": { start: 135.7, end: 137.8, unit: "kHz", modes: "CW, QRSS, Digi (schmalbandig)", maxPower: "1W EIRP", notes: "Sekundärstatus" },
-  "630m": { start: 472, end: 479, unit: "kHz", modes: "CW, QRSS, Digi (schmalbandig)", maxPower: "1W EIRP", notes: "Sekundärstatus" },
-  "160m": { start: 1810, end: 2000, unit: "kHz", modes: "CW, SSB, Digi", maxPower: "1000W" },
-  "80m": { start: 3500, end: 3800, unit: "kHz", modes: "CW, SSB, Digi, AM", maxPower: "1000W" },
-  "60m": { start: 5351.5, end: 5366.5, unit: "kHz", modes: "CW, SSB, Digi", maxPower: "15W EIRP", notes: "Sekundärstatus, kanalbasiert" },
-  "40m": { start: 7000, end: 7200, unit: "kHz", modes: "CW, SSB, Digi", maxPower: "1000W" },
-  "30m": { start: 10100, end: 10150, unit: "kHz", modes: "CW, Digi (schmalbandig)", maxPower: "1000W", notes: "Kein SSB erlaubt" },
-  "20m": { start: 14000, end: 14350, unit: "kHz", modes: "CW, SSB, Digi", maxPower: "1000W" },
-  "17m": { start: 18068, end: 18168, unit: "kHz", modes: "CW, SSB, Digi", maxPower: "1000W" },
-  "15m": { start: 21000, end: 21450, unit: "kHz", modes: "CW, SSB, Digi", maxPower: "1000W" },
-  "12m": { start: 24890, end: 24990, unit: "kHz", modes: "CW, SSB, Digi", maxPower: "1000W" },
-  "10m": { start: 28000, end: 29700, unit: "kHz", modes: "CW, SSB, FM, Digi, Sat", maxPower: "1000W" },
-  "6m": { start: 50, end: 52, unit: "MHz", modes: "CW, SSB, FM, Digi", maxPower: "1000W", notes: "Sekundärstatus in manchen Ländern" },
-  "2m": { start: 144, end: 146, unit: "MHz", modes: "CW, SSB, FM, Digi, ATV, Sat", maxPower: "1000W" },
-  "70cm": { start: 430, end: 440, unit: "MHz", modes: "CW, SSB, FM, Digi, ATV, Sat", maxPower: "1000W" },
-  "23cm": { start: 1240, end: 1300, unit: "MHz", modes: "Alle Modes", maxPower: "1000W" },
-  "13cm": { start: 2320, end: 2450, unit: "MHz", modes: "Alle Modes", maxPower: "1000W" }
-};
-
-// ============================================================================
-// DATEN: Kabeltypen mit Dämpfung (dB/100m bei verschiedenen Frequenzen in MHz)
-// ============================================================================
-
-const CABLE_DATA: Record<string, Record<string, number>> = {
-  "RG58": { "3.5": 5.2, "7": 7.5, "14": 10.8, "21": 13.5, "28": 15.5, "50": 21, "144": 36, "432": 66 },
-  "RG213": { "3.5": 2.6, "7": 3.8, "14": 5.3, "21": 6.5, "28": 7.6, "50": 10, "144": 17.5, "432": 32 },
-  "H2000Flex": { "3.5": 2.2, "7": 3.2, "14": 4.5, "21": 5.5, "28": 6.4, "50": 8.5, "144": 15, "432": 27 },
-  "Aircell7": { "3.5": 1.9, "7": 2.8, "14": 3.9, "21": 4.8, "28": 5.6, "50": 7.5, "144": 13, "432": 23 },
-  "Ecoflex10": { "3.5": 1.2, "7": 1.8, "14": 2.5, "21": 3.1, "28": 3.6, "50": 4.8, "144": 8.5, "432": 15 },
-  "Ecoflex15": { "3.5": 0.8, "7": 1.2, "14": 1.7, "21": 2.1, "28": 2.5, "50": 3.3, "144": 5.8, "432": 10.5 },
-  "LMR400": { "3.5": 1.1, "7": 1.6, "14": 2.3, "21": 2.8, "28": 3.2, "50": 4.3, "144": 7.5, "432": 13.5 },
-  "LMR600": { "3.5": 0.7, "7": 1.0, "14": 1.4, "21": 1.8, "28": 2.1, "50": 2.8, "144": 4.9, "432": 8.8 }
-};
-
-// ============================================================================
-// DATEN: Typische Antennengewinne
-// ============================================================================
-
-const ANTENNA_GAINS: Record<string, { gain_dbi: number; description: string }> = {
-  "dipol": { gain_dbi: 2.15, description: "Halbwellendipol" },
-  "groundplane": { gain_dbi: 2.0, description: "1/4λ Groundplane" },
-  "yagi-3el": { gain_dbi: 7.0, description: "3-Element Yagi" },
-  "yagi-5el": { gain_dbi: 10.0, description: "5-Element Yagi" },
-  "yagi-7el": { gain_dbi: 12.0, description: "7-Element Yagi" },
-  "quad-2el": { gain_dbi: 8.0, description: "2-Element Quad" },
-  "vertical": { gain_dbi: 0, description: "Vertikalantenne (λ/4)" },
-  "j-pole": { gain_dbi: 2.0, description: "J-Pole Antenne" },
-  "slim-jim": { gain_dbi: 3.0, description: "Slim Jim" },
-  "collinear-x50": { gain_dbi: 4.5, description: "X50 Typ Collinear" },
-  "collinear-x200": { gain_dbi: 6.0, description: "X200 Typ Collinear" },
-  "collinear-x510": { gain_dbi: 8.3, description: "X510 Typ Collinear" }
-};
-
-// ============================================================================
-// HILFSFUNKTIONEN
-// ============================================================================
-
-function interpolateCableLoss(cableData: Record<string, number>, frequencyMhz: number): number {
-  const freqs = Object.keys(cableData).map(Number).sort((a, b) => a - b);
-  
-  if (frequencyMhz <= freqs[0]) {
-    return cableData[freqs[0].toString()];
-  }
-  if (frequencyMhz >= freqs[freqs.length - 1]) {
-    return cableData[freqs[freqs.length - 1].toString()];
-  }
-  
-  const lower = freqs.filter(f => f <= frequencyMhz).pop()!;
-  const upper = freqs.find(f => f > frequencyMhz)!;
-  const ratio = (frequencyMhz - lower) / (upper - lower);
-  
-  return cableData[lower.toString()] + ratio * (cableData[upper.toString()] - cableData[lower.toString()]);
-}
-
 // ============================================================================
 // MCP SERVER ERSTELLEN
 // ============================================================================
@@ -113,151 +40,28 @@ function createOeradioMcpServer(): McpServer {
   });
 
   // --------------------------------------------------------------------------
-  // TOOL: Bandplan abfragen
-  // --------------------------------------------------------------------------
-  server.tool(
-    "get_band_plan",
-    "Gibt Frequenzgrenzen, erlaubte Modes und maximale Sendeleistung für ein Amateurfunkband zurück (IARU Region 1 / Österreich)",
-    {
-      band: z.string().describe("Bandbezeichnung wie '20m', '2m', '70cm', '160m'")
-    },
-    async ({ band }) => {
-      const normalizedBand = band.toLowerCase().replace(/\s/g, "");
-      const info = BAND_PLANS[normalizedBand];
-      
-      if (!info) {
-        return {
-          content: [{
-            type: "text",
-            text: JSON.stringify({
-              error: `Band "${band}" nicht gefunden`,
-              availableBands: Object.keys(BAND_PLANS)
-            }, null, 2)
-          }]
-        };
-      }
-      
-      return {
-        content: [{
-          type: "text",
-          text: JSON.stringify({
-            band: normalizedBand,
-            frequencyRange: `${info.start} - ${info.end} ${info.unit}`,
-            start: info.start,
-            end: info.end,
-            unit: info.unit,
-            modes: info.modes,
-            maxPower: info.maxPower,
-            notes: info.notes || null
-          }, null, 2)
-        }]
-      };
-    }
-  );
-
-  // --------------------------------------------------------------------------
-  // TOOL: Alle Bandpläne auflisten
-  // --------------------------------------------------------------------------
-  server.tool(
-    "list_all_bands",
-    "Listet alle verfügbaren Amateurfunkbänder mit Grundinformationen auf",
-    {},
-    async () => {
-      const bands = Object.entries(BAND_PLANS).map(([band, info]) => ({
-        band,
-        range: `${info.start}-${info.end} ${info.unit}`,
-        modes: info.modes
-      }));
-      
-      return {
-        content: [{
-          type: "text",
-          text: JSON.stringify({ bands, total: bands.length }, null, 2)
-        }]
-      };
-    }
-  );
-
+  // BANDPLAN TOOLS (from separate module)
   // --------------------------------------------------------------------------
-  // TOOL: Frequenz prüfen
-  // --------------------------------------------------------------------------
-  server.tool(
-    "check_frequency",
-    "Prüft ob eine Frequenz im Amateurfunk erlaubt ist und gibt das zugehörige Band zurück",
-    {
-      frequency: z.number().positive().describe("Frequenz als Zahl"),
-      unit: z.enum(["Hz", "kHz", "MHz"]).default("kHz").describe("Einheit der Frequenz")
-    },
-    async ({ frequency, unit }) => {
-      let freqKhz: number;
-      let freqMhz: number;
-      
-      switch (unit) {
-        case "Hz":
-          freqKhz = frequency / 1000;
-          freqMhz = frequency / 1000000;
-          break;
-        case "kHz":
-          freqKhz = frequency;
-          freqMhz = frequency / 1000;
-          break;
-        case "MHz":
-          freqKhz = frequency * 1000;
-          freqMhz = frequency;
-          break;
-      }
-      
-      for (const [band, info] of Object.entries(BAND_PLANS)) {
-        const checkFreq = info.unit === "kHz" ? freqKhz : freqMhz;
-        if (checkFreq >= info.start && checkFreq <= info.end) {
-          return {
-            content: [{
-              type: "text",
-              text: JSON.stringify({
-                frequency: `${frequency} ${unit}`,
-                allowed: true,
-                band,
-                modes: info.modes,
-                maxPower: info.maxPower,
-                bandLimits: `${info.start} - ${info.end} ${info.unit}`,
-                notes: info.notes || null
-              }, null, 2)
-            }]
-          };
-        }
-      }
-      
-      return {
-        content: [{
-          type: "text",
-          text: JSON.stringify({
-            frequency: `${frequency} ${unit}`,
-            allowed: false,
-            message: "Frequenz liegt außerhalb der Amateurfunkbänder (IARU Region 1)"
-          }, null, 2)
-        }]
-      };
-    }
-  );
+  registerBandplanTools(server);
 
   // --------------------------------------------------------------------------
   // TOOL: EIRP berechnen (StrahlBlick)
   // --------------------------------------------------------------------------
   server.tool(
     "calculate_eirp",
-    "Berechnet EIRP (Equivalent Isotropically Radiated Power) aus Sendeleistung, Kabelverlust und Antennengewinn. Nützlich für Sicherheitsabstands-Berechnungen nach ÖNORM.",
+    "Berechnet EIRP (Equivalent Isotropically Radiated Power) aus Sendeleistung, Kabelverlust und Antennengewinn. Den Sicherheitsabstand nach ÖNORM E 8850 berechnet calculate_safety_distance.",
     {
       power_watts: z.number().min(0.001).max(2000).describe("Sendeleistung in Watt"),
       cable_loss_db: z.number().min(0).max(50).describe("Kabelverlust in dB"),
       antenna_gain_dbi: z.number().min(-10).max(50).describe("Antennengewinn in dBi")
     },
     async ({ power_watts, cable_loss_db, antenna_gain_dbi }) => {
-      const power_dbw = 10 * Math.log10(power_watts);
+      const power_dbw = wattsToDbw(power_watts);
       const eirp_dbw = power_dbw - cable_loss_db + antenna_gain_dbi;
-      const eirp_watts = Math.pow(10, eirp_dbw / 10);
+      const eirp_watts = dbwToWatts(eirp_dbw);
       
       const erp_dbw = eirp_dbw - 2.15;
-      const erp_watts = Math.pow(10, erp_dbw / 10);
+      const erp_watts = dbwToWatts(erp_dbw);
       
       return {
         content: [{
@@ -291,34 +95,103 @@ function createOeradioMcpServer(): McpServer {
   // --------------------------------------------------------------------------
   server.tool(
     "calculate_cable_loss",
-    "Berechnet die Kabeldämpfung für verschiedene Koaxialkabeltypen bei einer bestimmten Frequenz und Länge",
+    "Berechnet die Kabeldämpfung für verschiedene Koaxialkabel und Zweidrahtleitungen bei einer bestimmten Frequenz und Länge. Verwendet ein an die Datenblattwerte angepasstes Modell aus Leiter- und Dielektrikumsverlusten (k1·√f + k2·f) und gibt den Vertrauensbereich an; außerhalb der Datenblattwerte wird die Extrapolation gekennzeichnet. Liefert Wellenwiderstand, Verkürzungsfaktor, Belastbarkeit, Durchmesser, Biegeradius und Gewicht und warnt, wenn die Sendeleistung die Belastbarkeit übersteigt. Mit SWR-Angabe auch den Gesamtverlust inklusive Mehrverlust durch Fehlanpassung und die im Kabel umgesetzte Leistung.",
     {
-      cable_type: z.enum(["RG58", "RG213", "H2000Flex", "Aircell7", "Ecoflex10", "Ecoflex15", "LMR400", "LMR600"])
-        .describe("Kabeltyp"),
+      cable_type: z.string().describe("Kabeltyp aus der Kabeldatenbank (z.B. \"Ecoflex10\")"),
       length_meters: z.number().min(0.1).max(1000).describe("Kabellänge in Metern"),
-      frequency_mhz: z.number().min(0.1).max(3000).describe("Frequenz in MHz")
+      frequency_mhz: z.number().min(0.1).max(24250).describe("Frequenz in MHz (bis 24 GHz)"),
+      power_watts: z.number().min(0.001).max(20000).optional().describe("Sendeleistung in Watt, für die Prüfung der Belastbarkeit"),
+      swr: z.number().min(1.0).max(100).optional().describe("SWR, für den Mehrverlust durch Fehlanpassung"),
+      swr_location: z.enum(["antenna", "transmitter"]).default("antenna").describe("Wo das SWR gemessen wurde: antenna oder transmitter")
     },
-    async ({ cable_type, length_meters, frequency_mhz }) => {
-      const cableData = CABLE_DATA[cable_type];
-      const loss_per_100m = interpolateCableLoss(cableData, frequency_mhz);
+    async ({ cable_type, length_meters, frequency_mhz, power_watts, swr, swr_location }) => {
+      const cable = getDataset("cables").cables[cable_type];
+      if (!cable) {
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              error: `Kabeltyp "${cable_type}" nicht gefunden`,
+              availableTypes: Object.keys(getDataset("cables").cables),
+              dataSource: getDataInfo("cables")
+            }, null, 2)
+          }]
+        };
+      }
+
+      const estimate = estimateCableLoss(cable.attenuation, frequency_mhz);
+      const model = fitCableModel(cable.attenuation);
+      const loss_per_100m = estimate.dbPer100m;
       const total_loss = (loss_per_100m * length_meters) / 100;
+      const max_power = maxPowerWatts(cable, frequency_mhz);
+      const line = swr !== undefined ? mismatchedLineLoss(total_loss, swr, swr_location) : undefined;
+      const effective_loss = line ? line.totalLossDb : total_loss;
       
-      const power_loss_percent = (1 - Math.pow(10, -total_loss / 10)) * 100;
+      const power_loss_percent = (1 - Math.pow(10, -effective_loss / 10)) * 100;
       
       return {
         content: [{
           type: "text",
           text: JSON.stringify({
-            input: { cable_type, length_meters, frequency_mhz },
+            input: { cable_type, length_meters, frequency_mhz, power_watts, swr, swr_location: swr !== undefined ? swr_location : undefined },
+            cable: {
+              description: cable.description,
+              kind: CABLE_KIND_NAMES[cable.kind],
+              impedance_ohm: cable.impedance_ohm,
+              velocity_factor: cable.velocity_factor,
+              outer_diameter_mm: cable.outer_diameter_mm,
+              min_bend_radius_mm: cable.min_bend_radius_mm,
+              weight_kg: Math.round(cable.weight_g_per_m * length_meters) / 1000,
+              electrical_length_m: Math.round((length_meters / cable.velocity_factor) * 100) / 100
+            },
             result: {
               total_loss_db: Math.round(total_loss * 100) / 100,
               loss_per_100m_db: Math.round(loss_per_100m * 100) / 100,
               power_loss_percent: Math.round(power_loss_percent * 10) / 10,
-              power_remaining_percent: Math.round((100 - power_loss_percent) * 10) / 10
+              power_remaining_percent: Math.round((100 - power_loss_percent) * 10) / 10,
+              extrapolated: estimate.extrapolated
+            },
+            mismatch: line ? {
+              swr_at_antenna: Math.round(line.swrAtAntenna * 100) / 100,
+              swr_at_transmitter: Math.round(line.swrAtTransmitter * 100) / 100,
+              additional_loss_db: Math.round(line.additionalLossDb * 100) / 100,
+              total_loss_db: Math.round(line.totalLossDb * 100) / 100
+            } : line === null
+              ? { error: `SWR ${swr} am Sender ist bei ${Math.round(total_loss * 100) / 100} dB Kabelverlust nicht möglich` }
+              : undefined,
+            power: power_watts !== undefined ? {
+              into_cable_watts: power_watts,
+              at_end_watts: Math.round(power_watts * Math.pow(10, -effective_loss / 10) * 100) / 100,
+              dissipated_in_cable_watts: Math.round(power_watts * (1 - Math.pow(10, -effective_loss / 10)) * 100) / 100
+            } : undefined,
+            confidence: {
+              min_loss_db: Math.round((estimate.minDbPer100m * length_meters) / 100 * 100) / 100,
+              max_loss_db: Math.round((estimate.maxDbPer100m * length_meters) / 100 * 100) / 100,
+              uncertainty_percent: Math.round(estimate.uncertainty * 100),
+              datasheet_range_mhz: [model.minFrequencyMhz, model.maxFrequencyMhz],
+              explanation: estimate.extrapolated
+                ? "Außerhalb der Datenblattwerte extrapoliert - die Unsicherheit wächst pro Oktave"
+                : "Innerhalb der Datenblattwerte, Abweichung des Modells plus Datenblatt-Toleranz"
+            },
+            model: {
+              formula: "α(f) = k1·√f + k2·f [dB/100m, f in MHz] (Leiter- plus Dielektrikumsverluste)",
+              k1: Math.round(model.k1 * 10000) / 10000,
+              k2: Math.round(model.k2 * 100000) / 100000
             },
-            tip: total_loss > 3 
-              ? "Hoher Verlust! Erwäge kürzeres oder besseres Kabel." 
-              : "Akzeptabler Verlust."
+            powerRating: {
+              max_power_watts: Math.round(max_power),
+              within_rating: power_watts !== undefined ? power_watts <= max_power : undefined,
+              explanation: "Dauerleistung bei SWR 1 und 40 °C Umgebungstemperatur; bei höherem SWR oder in der Sonne entsprechend weniger"
+            },
+            warning: power_watts !== undefined && power_watts > max_power
+              ? `Sendeleistung ${power_watts} W übersteigt die Belastbarkeit von ${cable_type} bei ${frequency_mhz} MHz (ca. ${Math.round(max_power)} W)`
+              : undefined,
+            tip: frequency_mhz > CABLE_MAX_SPEC_MHZ
+              ? "Oberhalb von 6 GHz sind diese Kabel außerhalb ihrer Spezifikation - Semi-Rigid oder Hohlleiter verwenden."
+              : effective_loss > 3 
+                ? "Hoher Verlust! Erwäge kürzeres oder besseres Kabel." 
+                : "Akzeptabler Verlust.",
+            dataSource: getDataInfo("cables")
           }, null, 2)
         }]
       };
@@ -330,29 +203,55 @@ function createOeradioMcpServer(): McpServer {
   // --------------------------------------------------------------------------
   server.tool(
     "compare_cables",
-    "Vergleicht alle verfügbaren Kabeltypen bei einer bestimmten Frequenz und Länge",
+    "Vergleicht alle verfügbaren Kabeltypen bei einer bestimmten Frequenz und Länge, sortiert nach Dämpfung oder nach Gewicht (z.B. für SOTA-Rucksäcke)",
     {
       length_meters: z.number().min(0.1).max(1000).describe("Kabellänge in Metern"),
-      frequency_mhz: z.number().min(0.1).max(3000).describe("Frequenz in MHz")
+      frequency_mhz: z.number().min(0.1).max(24250).describe("Frequenz in MHz (bis 24 GHz)"),
+      sort_by: z.enum(["loss", "weight"]).default("loss").describe("Sortierung: loss (geringste Dämpfung) oder weight (geringstes Gewicht)"),
+      impedance_ohm: z.number().positive().optional().describe("Nur Kabel mit diesem Wellenwiderstand (z.B. 50)"),
+      max_loss_db: z.number().positive().optional().describe("Nur Kabel mit höchstens diesem Verlust in dB"),
+      power_watts: z.number().min(0.001).max(20000).optional().describe("Nur Kabel, die diese Leistung vertragen")
     },
-    async ({ length_meters, frequency_mhz }) => {
-      const comparison = Object.entries(CABLE_DATA).map(([type, data]) => {
-        const loss_per_100m = interpolateCableLoss(data, frequency_mhz);
-        const total_loss = (loss_per_100m * length_meters) / 100;
-        return {
-          cable: type,
-          loss_db: Math.round(total_loss * 100) / 100,
-          loss_per_100m: Math.round(loss_per_100m * 100) / 100
-        };
-      }).sort((a, b) => a.loss_db - b.loss_db);
+    async ({ length_meters, frequency_mhz, sort_by, impedance_ohm, max_loss_db, power_watts }) => {
+      const comparison = Object.entries(getDataset("cables").cables)
+        .filter(([, cable]) => impedance_ohm === undefined || cable.impedance_ohm === impedance_ohm)
+        .map(([type, cable]) => {
+          const estimate = estimateCableLoss(cable.attenuation, frequency_mhz);
+          const total_loss = (estimate.dbPer100m * length_meters) / 100;
+          return {
+            cable: type,
+            impedance_ohm: cable.impedance_ohm,
+            loss_db: Math.round(total_loss * 100) / 100,
+            loss_per_100m: Math.round(estimate.dbPer100m * 100) / 100,
+            loss_range_db: [
+              Math.round((estimate.minDbPer100m * length_meters) / 100 * 100) / 100,
+              Math.round((estimate.maxDbPer100m * length_meters) / 100 * 100) / 100
+            ],
+            extrapolated: estimate.extrapolated,
+            weight_kg: Math.round(cable.weight_g_per_m * length_meters) / 1000,
+            outer_diameter_mm: cable.outer_diameter_mm,
+            max_power_watts: Math.round(maxPowerWatts(cable, frequency_mhz))
+          };
+        })
+        .filter(c => max_loss_db === undefined || c.loss_db <= max_loss_db)
+        .filter(c => power_watts === undefined || c.max_power_watts >= power_watts)
+        .sort((a, b) => sort_by === "weight" ? a.weight_kg - b.weight_kg || a.loss_db - b.loss_db : a.loss_db - b.loss_db);
       
       return {
         content: [{
           type: "text",
           text: JSON.stringify({
-            parameters: { length_meters, frequency_mhz },
+            parameters: { length_meters, frequency_mhz, sort_by, impedance_ohm, max_loss_db, power_watts },
             comparison,
-            recommendation: comparison[0].cable
+            recommendation: comparison[0]?.cable ?? null,
+            warning: comparison.length === 0
+              ? "Kein Kabel erfüllt die Filterbedingungen"
+              : frequency_mhz > CABLE_MAX_SPEC_MHZ
+                ? "Oberhalb von 6 GHz sind diese Kabel außerhalb ihrer Spezifikation - Semi-Rigid oder Hohlleiter verwenden."
+                : impedance_ohm === undefined
+                  ? "Liste enthält Kabel mit unterschiedlichem Wellenwiderstand - mit impedance_ohm filtern"
+                  : undefined,
+            dataSource: getDataInfo("cables")
           }, null, 2)
         }]
       };
@@ -423,7 +322,7 @@ function createOeradioMcpServer(): McpServer {
     async ({ antenna_type }) => {
       if (antenna_type) {
         const normalized = antenna_type.toLowerCase().replace(/\s/g, "-");
-        const antenna = ANTENNA_GAINS[normalized];
+        const antenna = getDataset("antennas").antennas[normalized];
         
         if (!antenna) {
           return {
@@ -431,7 +330,8 @@ function createOeradioMcpServer(): McpServer {
               type: "text",
               text: JSON.stringify({
                 error: `Antenne "${antenna_type}" nicht gefunden`,
-                availableTypes: Object.keys(ANTENNA_GAINS)
+                availableTypes: Object.keys(getDataset("antennas").antennas),
+                dataSource: getDataInfo("antennas")
               }, null, 2)
             }]
           };
@@ -444,13 +344,14 @@ function createOeradioMcpServer(): McpServer {
               type: normalized,
               gain_dbi: antenna.gain_dbi,
               gain_dbd: Math.round((antenna.gain_dbi - 2.15) * 100) / 100,
-              description: antenna.description
+              description: antenna.description,
+              dataSource: getDataInfo("antennas")
             }, null, 2)
           }]
         };
       }
       
-      const antennas = Object.entries(ANTENNA_GAINS).map(([type, data]) => ({
+      const antennas = Object.entries(getDataset("antennas").antennas).map(([type, data]) => ({
         type,
         gain_dbi: data.gain_dbi,
         gain_dbd: Math.round((data.gain_dbi - 2.15) * 100) / 100,
@@ -460,7 +361,7 @@ function createOeradioMcpServer(): McpServer {
       return {
         content: [{
           type: "text",
-          text: JSON.stringify({ antennas }, null, 2)
+          text: JSON.stringify({ antennas, dataSource: getDataInfo("antennas") }, null, 2)
         }]
       };
     }
@@ -519,12 +420,57 @@ function createOeradioMcpServer(): McpServer {
   // --------------------------------------------------------------------------
   server.tool(
     "calculate_swr_loss",
-    "Berechnet den Leistungsverlust durch Fehlanpassung (SWR/VSWR)",
+    "Berechnet den Leistungsverlust durch Fehlanpassung (SWR/VSWR). Mit Angabe der Leitung (Kabeltyp, Länge und Frequenz oder Kabelverlust) zusätzlich den Mehrverlust der Leitung durch stehende Wellen, das SWR am anderen Leitungsende und die im Kabel umgesetzte Leistung.",
     {
-      swr: z.number().min(1.0).max(100).describe("SWR-Wert (z.B. 1.5, 2.0, 3.0)")
+      swr: z.number().min(1.0).max(100).describe("SWR-Wert (z.B. 1.5, 2.0, 3.0)"),
+      swr_location: z.enum(["antenna", "transmitter"]).default("antenna").describe("Wo das SWR gemessen wurde: antenna (am Speisepunkt) oder transmitter (im Shack)"),
+      cable_type: z.string().optional().describe("Kabeltyp aus der Kabeldatenbank, zusammen mit length_meters und frequency_mhz"),
+      length_meters: z.number().min(0.1).max(1000).optional().describe("Kabellänge in Metern"),
+      frequency_mhz: z.number().min(0.1).max(24250).optional().describe("Frequenz in MHz"),
+      line_loss_db: z.number().min(0).max(50).optional().describe("Verlust der angepassten Leitung in dB, alternativ zu cable_type"),
+      power_watts: z.number().min(0.001).max(20000).optional().describe("Sendeleistung in Watt, für die Leistungsbilanz der Leitung")
     },
-    async ({ swr }) => {
-      const gamma = (swr - 1) / (swr + 1);
+    async ({ swr, swr_location, cable_type, length_meters, frequency_mhz, line_loss_db, power_watts }) => {
+      let matchedLossDb = line_loss_db;
+      if (cable_type !== undefined) {
+        if (length_meters === undefined || frequency_mhz === undefined) {
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({ error: "Für cable_type sind length_meters und frequency_mhz erforderlich" }, null, 2)
+            }]
+          };
+        }
+        const loss = cableLossDb(cable_type, length_meters, frequency_mhz);
+        if (loss === null) {
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                error: `Kabeltyp "${cable_type}" nicht gefunden`,
+                availableTypes: Object.keys(getCables()),
+                dataSource: getDataInfo("cables")
+              }, null, 2)
+            }]
+          };
+        }
+        matchedLossDb = loss;
+      }
+
+      const line = matchedLossDb !== undefined ? mismatchedLineLoss(matchedLossDb, swr, swr_location) : undefined;
+      if (line === null) {
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              error: `SWR ${swr} am Sender ist bei ${Math.round(matchedLossDb! * 100) / 100} dB Leitungsverlust nicht möglich - selbst Totalreflexion an der Antenne ergäbe ein niedrigeres SWR`
+            }, null, 2)
+          }]
+        };
+      }
+
+      const swrAntenna = line ? line.swrAtAntenna : swr;
+      const gamma = reflectionCoefficient(swrAntenna);
       const reflected_power_percent = gamma * gamma * 100;
       const transmitted_power_percent = 100 - reflected_power_percent;
       const mismatch_loss_db = -10 * Math.log10(1 - gamma * gamma);
@@ -534,7 +480,7 @@ function createOeradioMcpServer(): McpServer {
         content: [{
           type: "text",
           text: JSON.stringify({
-            input: { swr },
+            input: { swr, swr_location, cable_type, length_meters, frequency_mhz, line_loss_db, power_watts },
             result: {
               reflection_coefficient: Math.round(gamma * 1000) / 1000,
               reflected_power_percent: Math.round(reflected_power_percent * 10) / 10,
@@ -542,10 +488,27 @@ function createOeradioMcpServer(): McpServer {
               mismatch_loss_db: Math.round(mismatch_loss_db * 100) / 100,
               return_loss_db: Math.round(return_loss_db * 10) / 10
             },
-            assessment: swr <= 1.5 ? "Sehr gut" 
-              : swr <= 2.0 ? "Gut" 
-              : swr <= 3.0 ? "Akzeptabel"
-              : "Zu hoch - Tuner empfohlen"
+            line: line ? {
+              swr_at_antenna: Math.round(line.swrAtAntenna * 100) / 100,
+              swr_at_transmitter: Math.round(line.swrAtTransmitter * 100) / 100,
+              matched_loss_db: Math.round(line.matchedLossDb * 100) / 100,
+              additional_loss_db: Math.round(line.additionalLossDb * 100) / 100,
+              total_loss_db: Math.round(line.totalLossDb * 100) / 100,
+              power: power_watts !== undefined ? {
+                into_line_watts: power_watts,
+                at_antenna_watts: Math.round(power_watts * Math.pow(10, -line.totalLossDb / 10) * 100) / 100,
+                dissipated_in_cable_watts: Math.round(power_watts * (1 - Math.pow(10, -line.totalLossDb / 10)) * 100) / 100
+              } : undefined,
+              explanation: "Mehrverlust durch stehende Wellen auf der Leitung (ARRL Antenna Book). Die reflektierte Leistung wird am Sender durch den Tuner wieder zur Antenne geschickt; verloren geht nur, was im Kabel in Wärme umgesetzt wird."
+            } : undefined,
+            assessment: swrAntenna <= 1.5 ? "Sehr gut" 
+              : swrAntenna <= 2.0 ? "Gut" 
+              : swrAntenna <= 3.0 ? "Akzeptabel"
+              : "Zu hoch - Tuner empfohlen",
+            hint: line && swr_location === "transmitter"
+              ? "Das SWR im Shack wirkt durch die Kabeldämpfung besser, als es an der Antenne ist."
+              : undefined,
+            dataSource: cable_type !== undefined ? getDataInfo("cables") : undefined
           }, null, 2)
         }]
       };
@@ -568,12 +531,12 @@ function createOeradioMcpServer(): McpServer {
       switch (from_unit) {
         case "W": watts = value; break;
         case "mW": watts = value / 1000; break;
-        case "dBm": watts = Math.pow(10, (value - 30) / 10); break;
-        case "dBW": watts = Math.pow(10, value / 10); break;
+        case "dBm": watts = dbmToWatts(value); break;
+        case "dBW": watts = dbwToWatts(value); break;
       }
       
-      const dbm = 10 * Math.log10(watts * 1000);
-      const dbw = 10 * Math.log10(watts);
+      const dbm = wattsToDbm(watts);
+      const dbw = wattsToDbw(watts);
       
       return {
         content: [{
@@ -656,38 +619,54 @@ function createOeradioMcpServer(): McpServer {
   registerCallsignTools(server);
 
   // --------------------------------------------------------------------------
-  // RESOURCE: Kompletter Bandplan
+  // REPEATER TOOLS (from separate module)
   // --------------------------------------------------------------------------
-  server.resource(
-    "bandplan://iaru-region1/complete",
-    "Vollständiger IARU Region 1 Bandplan als JSON",
-    async () => ({
-      contents: [{
-        uri: "bandplan://iaru-region1/complete",
-        mimeType: "application/json",
-        text: JSON.stringify({
-          region: "IARU Region 1",
-          country: "Österreich (OE)",
-          source: "oeradio.at",
-          bands: BAND_PLANS
-        }, null, 2)
-      }]
-    })
-  );
+  registerRepeaterTools(server);
+
+  // --------------------------------------------------------------------------
+  // GEO TOOLS (from separate module)
+  // --------------------------------------------------------------------------
+  registerGeoTools(server);
+
+  // --------------------------------------------------------------------------
+  // DXCC TOOLS (from separate module)
+  // --------------------------------------------------------------------------
+  registerDxccTools(server);
+
+  // --------------------------------------------------------------------------
+  // EXPOSURE TOOLS (from separate module)
+  // --------------------------------------------------------------------------
+  registerExposureTools(server);
+
+  // --------------------------------------------------------------------------
+  // STATION TOOLS (from separate module)
+  // --------------------------------------------------------------------------
+  registerStationTools(server);
+
+  // --------------------------------------------------------------------------
+  // LINK TOOLS (from separate module)
+  // --------------------------------------------------------------------------
+  registerLinkTools(server);
+
+  // --------------------------------------------------------------------------
+  // ANTENNA TOOLS (from separate module)
+  // --------------------------------------------------------------------------
+  registerAntennaTools(server);
 
   // --------------------------------------------------------------------------
   // RESOURCE: Kabel-Datenbank
   // --------------------------------------------------------------------------
   server.resource(
     "cables://coaxial/all",
-    "Dämpfungsdaten aller Koaxialkabel",
+    "Datenblattwerte aller Koaxialkabel und Zweidrahtleitungen",
     async () => ({
       contents: [{
         uri: "cables://coaxial/all",
         mimeType: "application/json",
         text: JSON.stringify({
-          description: "Dämpfung in dB/100m bei verschiedenen Frequenzen (MHz)",
-          cables: CABLE_DATA
+          description: "Dämpfung (attenuation, dB/100m) und Belastbarkeit (max_power_w, W) über der Frequenz (MHz), dazu Wellenwiderstand, Verkürzungsfaktor, Abmessungen und Gewicht",
+          cables: getDataset("cables").cables,
+          dataSource: getDataInfo("cables")
         }, null, 2)
       }]
     })
@@ -705,7 +684,8 @@ function createOeradioMcpServer(): McpServer {
         mimeType: "application/json",
         text: JSON.stringify({
           description: "Typische Antennengewinne in dBi",
-          antennas: ANTENNA_GAINS
+          antennas: getDataset("antennas").antennas,
+          dataSource: getDataInfo("antennas")
         }, null, 2)
       }]
     })
@@ -895,28 +875,50 @@ app.get("/", (req: Request, res: Response) => {
       "get_band_plan",
       "list_all_bands",
       "check_frequency",
+      "compare_band_plans",
+      "check_emission",
+      "can_operate",
       "calculate_eirp",
+      "calculate_safety_distance",
+      "site_exposure_assessment",
       "calculate_cable_loss",
       "compare_cables",
       "calculate_battery_runtime",
       "get_antenna_gain",
       "calculate_wavelength",
+      "antenna_design",
+      "yagi_design",
+      "yagi_stacking",
+      "wire_resonance",
       "calculate_swr_loss",
+      "calculate_station_chain",
+      "link_budget",
       "convert_power",
       "list_oeradio_tools",
       "callsign_lookup",
       "callsign_available",
       "callsign_suggest",
       "callsign_validate",
-      "callsign_database_info"
+      "callsign_nearby",
+      "callsign_database_info",
+      "repeater_search",
+      "repeater_nearby",
+      "locator_convert",
+      "path_calculate",
+      "solar_times",
+      "path_profile",
+      "dxcc_lookup"
     ],
     resources: [
       "bandplan://iaru-region1/complete",
+      "bandplan://cept/{country}/complete",
+      "bandplan://iaru-region1/{band}/segments",
       "cables://coaxial/all",
       "antennas://gains/all",
       "oeradio://tools/all",
       "callsigns://districts",
-      "callsigns://license-classes"
+      "callsigns://license-classes",
+      "repeaters://oe/all"
     ]
   });
 });
@@ -995,6 +997,11 @@ app.delete("/mcp", async (req: Request, res: Response) => {
 // SERVER STARTEN
 // ============================================================================
 
+// Referenzdaten (Bandpläne, Kabeldämpfung, Antennengewinne) aus data/ laden und
+// validieren - bei ungültigen Daten startet der Server nicht
+loadReferenceData();
+watchReferenceData();
+
 app.listen(PORT, () => {
   console.log(`
 ╔════════════════════════════════════════════════════════════╗
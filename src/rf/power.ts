@@ -0,0 +1,33 @@
+/**
+ * Power Levels
+ *
+ * Conversion between watts and logarithmic power levels
+ */
+
+/**
+ * Power in watts to dBm
+ */
+export function wattsToDbm(watts: number): number {
+  return 10 * Math.log10(watts * 1000);
+}
+
+/**
+ * Power in watts to dBW
+ */
+export function wattsToDbw(watts: number): number {
+  return 10 * Math.log10(watts);
+}
+
+/**
+ * Power level in dBm to watts
+ */
+export function dbmToWatts(dbm: number): number {
+  return Math.pow(10, (dbm - 30) / 10);
+}
+
+/**
+ * Power level in dBW to watts
+ */
+export function dbwToWatts(dbw: number): number {
+  return Math.pow(10, dbw / 10);
+}
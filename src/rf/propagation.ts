@@ -0,0 +1,34 @@
+/**
+ * Free-Space Propagation
+ *
+ * Path loss and Fresnel zones for line-of-sight links
+ */
+
+const SPEED_OF_LIGHT = 299792458;
+
+/**
+ * Free-space wavelength in metres
+ */
+export function wavelengthM(frequencyMhz: number): number {
+  return SPEED_OF_LIGHT / (frequencyMhz * 1e6);
+}
+
+/**
+ * Free-space path loss in dB between isotropic antennas:
+ * 20·log10(4π·d/λ), i.e. 32.45 + 20·log10(f/MHz) + 20·log10(d/km)
+ */
+export function freeSpacePathLossDb(distanceKm: number, frequencyMhz: number): number {
+  const wavelength = wavelengthM(frequencyMhz);
+  return 20 * Math.log10((4 * Math.PI * distanceKm * 1000) / wavelength);
+}
+
+/**
+ * Radius in metres of the n-th Fresnel zone at a point d1 km from one end
+ * and d2 km from the other
+ */
+export function fresnelRadiusM(d1Km: number, d2Km: number, frequencyMhz: number, zone = 1): number {
+  const wavelength = wavelengthM(frequencyMhz);
+  const d1 = d1Km * 1000;
+  const d2 = d2Km * 1000;
+  return Math.sqrt((zone * wavelength * d1 * d2) / (d1 + d2));
+}
@@ -0,0 +1,379 @@
+/**
+ * Antenna Design
+ *
+ * Cut lengths, feedpoint impedance and free-space gain of common amateur
+ * antennas. Resonant lengths include the end effect of the conductor
+ * diameter; all results are starting values that are trimmed to resonance
+ * at the final location.
+ */
+
+import { wavelengthM } from '../../rf/propagation.js';
+import { findBand, toKhz } from '../bandplan/lookup.js';
+import { AntennaDesign, AntennaDesignInput, AntennaDesignType, DesignPart, HarmonicResonance } from './types.js';
+
+/**
+ * Velocity factor of PVC-insulated wire compared to bare wire
+ */
+const INSULATION_FACTOR = 0.97;
+
+/**
+ * Gain of the half-wave dipole in free space
+ */
+const DIPOLE_GAIN_DBI = 2.15;
+
+/**
+ * Typical loss of a broadband EFHW transformer
+ */
+const EFHW_TRANSFORMER_LOSS_DB = 0.5;
+
+/**
+ * Highest harmonic of an EFHW considered for multiband use
+ */
+const EFHW_MAX_HARMONIC = 8;
+
+/**
+ * Thickest conductor, in wavelengths, for which the end-effect formula is
+ * used. Beyond that Z0 collapses and the factor becomes meaningless.
+ */
+const MAX_CONDUCTOR_DIAMETER = 0.05;
+
+/**
+ * Shortening factor of a half-wave dipole due to the conductor diameter.
+ *
+ * The input reactance near resonance is X ≈ 42.5 − Z0·cot(kh) with the
+ * average characteristic impedance Z0 = 120·(ln(2h/a) − 1) (Schelkunoff),
+ * so the reactance vanishes at kh = π/2 − atan(42.5/Z0). Only valid up to
+ * MAX_CONDUCTOR_DIAMETER, see validateConductorDiameter.
+ */
+export function shorteningFactor(diameterM: number, wavelength: number): number {
+  const z0 = 120 * (Math.log(wavelength / diameterM) - 1);
+  return 1 - Math.atan(42.5 / z0) / (Math.PI / 2);
+}
+
+/**
+ * Check that a conductor is thin enough for shorteningFactor. Returns an
+ * error message, or null if the diameter is valid.
+ */
+export function validateConductorDiameter(diameterMm: number, frequencyMhz: number): string | null {
+  const maxMm = MAX_CONDUCTOR_DIAMETER * wavelengthM(frequencyMhz) * 1000;
+  if (diameterMm <= maxMm) return null;
+  return `Leiterdurchmesser ${diameterMm} mm ist bei ${frequencyMhz} MHz zu dick: die Verkürzung durch den Durchmesser ist nur bis λ/20 (${maxMm.toFixed(1)} mm) berechenbar`;
+}
+
+/**
+ * Free-space design context shared by all designs
+ */
+interface DesignContext {
+  input: AntennaDesignInput;
+  wavelength: number;
+  /** Shortening factor for the conductor diameter */
+  k: number;
+  /** Velocity factor of the wire insulation (1 for bare conductors) */
+  insulation: number;
+}
+
+type DesignResult = Omit<AntennaDesign, 'design' | 'frequencyMhz' | 'wavelengthM'>;
+
+function halfWaveM(ctx: DesignContext): number {
+  return (ctx.wavelength / 2) * ctx.k * ctx.insulation;
+}
+
+function dipole(ctx: DesignContext): DesignResult {
+  const length = halfWaveM(ctx);
+  return {
+    description: 'Halbwellendipol, Mitteneinspeisung',
+    parts: [
+      { part: 'Gesamtlänge', lengthM: length },
+      { part: 'Länge je Schenkel', lengthM: length / 2, note: 'vom Mittelisolator bis zum Drahtende' },
+    ],
+    feedpoint: {
+      typicalOhm: 73,
+      minOhm: 50,
+      maxOhm: 90,
+      description: '73 Ω im Freiraum; in λ/4 bis λ/2 Höhe über Grund ca. 50-90 Ω. 1:1-Strombalun verwenden.',
+    },
+    gainDbi: DIPOLE_GAIN_DBI,
+    frontToBackDb: null,
+    notes: [],
+  };
+}
+
+function invertedV(ctx: DesignContext): DesignResult {
+  const apex = ctx.input.apexAngleDeg;
+  const halfAngle = (apex / 2) * Math.PI / 180;
+  // Drooping legs couple to each other and to ground and resonate lower
+  const droop = 1 - Math.sin(halfAngle);
+  const length = halfWaveM(ctx) * (1 - 0.1 * droop);
+  const leg = length / 2;
+  const resistance = 50 + 23 * (apex - 90) / 90;
+
+  return {
+    description: `Inverted-V, Öffnungswinkel ${apex}°`,
+    parts: [
+      { part: 'Gesamtlänge', lengthM: length },
+      { part: 'Länge je Schenkel', lengthM: leg },
+      { part: 'Spannweite (Ende zu Ende)', lengthM: 2 * leg * Math.sin(halfAngle) },
+      { part: 'Höhenunterschied Speisepunkt - Drahtenden', lengthM: leg * Math.cos(halfAngle), note: 'Enden mindestens 2-3 m über Grund' },
+    ],
+    feedpoint: {
+      typicalOhm: Math.round(resistance),
+      minOhm: Math.round(resistance - 10),
+      maxOhm: Math.round(resistance + 10),
+      description: 'Fußpunktwiderstand sinkt mit kleinerem Öffnungswinkel (90°: ca. 50 Ω, 120°: ca. 58 Ω) - direkt mit 50 Ω über 1:1-Strombalun speisbar',
+    },
+    gainDbi: DIPOLE_GAIN_DBI - (180 - apex) / 90,
+    frontToBackDb: null,
+    notes: apex < 90 ? ['Öffnungswinkel unter 90°: Gewinn und Wirkungsgrad nehmen deutlich ab'] : [],
+  };
+}
+
+/**
+ * Amateur bands in which harmonics of a half-wave wire resonate
+ */
+function efhwHarmonics(frequencyMhz: number): HarmonicResonance[] {
+  const harmonics: HarmonicResonance[] = [];
+  for (let multiple = 1; multiple <= EFHW_MAX_HARMONIC; multiple++) {
+    const match = findBand(toKhz(frequencyMhz * multiple, 'MHz'));
+    if (match) {
+      harmonics.push({ multiple, frequencyMhz: frequencyMhz * multiple, band: match.band });
+    }
+  }
+  return harmonics;
+}
+
+function efhw(ctx: DesignContext): DesignResult {
+  const ratio = ctx.input.transformerRatio;
+  const secondaryOhm = 50 * ratio;
+  const typicalOhm = 2500;
+  const swr = Math.max(typicalOhm / secondaryOhm, secondaryOhm / typicalOhm);
+
+  return {
+    description: `Endgespeister Halbwellenstrahler (EFHW) mit ${ratio}:1-Transformator`,
+    parts: [
+      { part: 'Strahler', lengthM: halfWaveM(ctx), note: '1-2 % länger zuschneiden, Transformator und Gegengewicht verschieben die Resonanz nach unten' },
+      { part: 'Gegengewicht', lengthM: 0.05 * ctx.wavelength, note: 'am Masseanschluss des Transformators; alternativ dient der Koax-Mantel als Gegengewicht' },
+    ],
+    feedpoint: {
+      typicalOhm,
+      minOhm: 1800,
+      maxOhm: 5000,
+      description: `Hochohmig am Drahtende; der ${ratio}:1-Transformator transformiert 50 Ω auf ${secondaryOhm} Ω (SWR ca. ${swr.toFixed(1)} bei typischen ${typicalOhm} Ω)`,
+    },
+    gainDbi: DIPOLE_GAIN_DBI - EFHW_TRANSFORMER_LOSS_DB,
+    frontToBackDb: null,
+    harmonics: efhwHarmonics(ctx.input.frequencyMhz),
+    notes: [
+      `Gewinn enthält ca. ${EFHW_TRANSFORMER_LOSS_DB} dB Transformatorverlust (Ferritkern, Leistungsgrenze des Kerns beachten)`,
+      'Mantelwellensperre ca. 0,05 λ vom Transformator entfernt in das Koaxkabel einfügen, wenn das Kabel nicht als Gegengewicht dienen soll',
+    ],
+  };
+}
+
+function jPole(ctx: DesignContext): DesignResult {
+  const vf = ctx.input.matchingVelocityFactor;
+  const radiator = halfWaveM(ctx);
+  const stub = (ctx.wavelength / 4) * vf;
+
+  return {
+    description: 'J-Pole (λ/2-Strahler mit λ/4-Anpassleitung)',
+    parts: [
+      { part: 'Gesamtlänge (langer Schenkel)', lengthM: radiator + stub },
+      { part: 'Strahler (oberhalb der Anpassleitung)', lengthM: radiator },
+      { part: 'Anpassleitung (kurzer Schenkel)', lengthM: stub, note: `Verkürzungsfaktor ${vf}` },
+      { part: 'Abstand der Leiter', lengthM: 0.015 * ctx.wavelength },
+      { part: 'Einspeisung über dem Kurzschluss', lengthM: 0.02 * ctx.wavelength, note: 'Ausgangswert, auf minimales SWR verschieben' },
+    ],
+    feedpoint: {
+      typicalOhm: 50,
+      minOhm: 40,
+      maxOhm: 70,
+      description: 'Über die Position des Anzapfpunkts an der Anpassleitung auf 50 Ω einstellbar',
+    },
+    gainDbi: DIPOLE_GAIN_DBI,
+    frontToBackDb: null,
+    notes: ['Mantelwellensperre direkt am Speisepunkt vorsehen, sonst strahlt das Koaxkabel mit und der Abstrahlwinkel steigt'],
+  };
+}
+
+function slimJim(ctx: DesignContext): DesignResult {
+  const vf = ctx.input.matchingVelocityFactor;
+  const radiator = halfWaveM(ctx);
+  const stub = (ctx.wavelength / 4) * vf;
+  const gap = 0.012 * ctx.wavelength;
+
+  return {
+    description: 'Slim Jim (gefalteter λ/2-Strahler mit λ/4-Anpassleitung)',
+    parts: [
+      { part: 'Gesamthöhe', lengthM: radiator + stub },
+      { part: 'Gefalteter Strahler', lengthM: radiator },
+      { part: 'Anpassleitung', lengthM: stub, note: `Verkürzungsfaktor ${vf}` },
+      { part: 'Lücke am oberen Ende der Anpassleitung', lengthM: gap },
+      { part: 'Abstand der Leiter', lengthM: 0.015 * ctx.wavelength },
+      { part: 'Einspeisung über dem Kurzschluss', lengthM: 0.035 * ctx.wavelength, note: 'Ausgangswert, auf minimales SWR verschieben' },
+    ],
+    feedpoint: {
+      typicalOhm: 50,
+      minOhm: 40,
+      maxOhm: 70,
+      description: 'Über die Position des Anzapfpunkts an der Anpassleitung auf 50 Ω einstellbar',
+    },
+    gainDbi: DIPOLE_GAIN_DBI,
+    frontToBackDb: null,
+    notes: [
+      'Im Freiraum wie ein Dipol; höhere Gewinnangaben gelten nur für den flacheren Abstrahlwinkel über Grund',
+      'Mantelwellensperre direkt am Speisepunkt vorsehen',
+    ],
+  };
+}
+
+/**
+ * Moxon rectangle after the regression equations of L. B. Cebik (W4RNL),
+ * valid for conductor diameters of 1e-5 λ to 1e-2 λ
+ */
+function moxon(ctx: DesignContext): DesignResult {
+  const diameter = ctx.input.conductorDiameterMm / 1000;
+  const d = Math.log10(diameter / ctx.wavelength);
+  const scale = ctx.wavelength * ctx.insulation;
+
+  const a = (-0.0008571428571 * d * d - 0.009571428571 * d + 0.3398571429) * scale;
+  const b = (-0.002142857143 * d * d - 0.02035714286 * d + 0.008285714286) * scale;
+  const c = (0.001809523381 * d * d + 0.01780952381 * d + 0.05164285714) * scale;
+  const dd = (0.001 * d + 0.07178571429) * scale;
+
+  const notes: string[] = [];
+  if (d < -5 || d > -2) {
+    notes.push('Leiterdurchmesser außerhalb des Gültigkeitsbereichs der Näherungsformeln (1e-5 λ bis 1e-2 λ) - Maße mit einer Simulation prüfen');
+  }
+
+  return {
+    description: 'Moxon-Rechteck (2 Elemente, Strahler und Reflektor mit abgewinkelten Enden)',
+    parts: [
+      { part: 'A: Breite (Strahler und Reflektor)', lengthM: a },
+      { part: 'B: Strahlerende (abgewinkelt)', lengthM: b },
+      { part: 'C: Lücke zwischen den Enden', lengthM: c },
+      { part: 'D: Reflektorende (abgewinkelt)', lengthM: dd },
+      { part: 'E: Tiefe (B + C + D)', lengthM: b + c + dd },
+      { part: 'Strahler gestreckt (A + 2B)', lengthM: a + 2 * b },
+      { part: 'Reflektor gestreckt (A + 2D)', lengthM: a + 2 * dd },
+    ],
+    feedpoint: {
+      typicalOhm: 50,
+      minOhm: 45,
+      maxOhm: 55,
+      description: 'Direkt 50 Ω, Speisung über 1:1-Strombalun in der Mitte des Strahlers',
+    },
+    gainDbi: 5.9,
+    frontToBackDb: 25,
+    notes,
+  };
+}
+
+/**
+ * Cubical quad with the classic loop perimeters 1005/f ft (driven element),
+ * 1030/f ft (reflector) and 975/f ft (director)
+ */
+function quad(ctx: DesignContext): DesignResult {
+  const elements = ctx.input.quadElements;
+  const loops: { name: string; perimeter: number }[] = [
+    { name: 'Strahler', perimeter: 1.0218 * ctx.wavelength * ctx.insulation },
+  ];
+  if (elements >= 2) loops.unshift({ name: 'Reflektor', perimeter: 1.0472 * ctx.wavelength * ctx.insulation });
+  if (elements >= 3) loops.push({ name: 'Direktor', perimeter: 0.9913 * ctx.wavelength * ctx.insulation });
+  const spacing = 0.15 * ctx.wavelength;
+
+  const parts: DesignPart[] = loops.flatMap(loop => [
+    { part: `${loop.name}: Umfang`, lengthM: loop.perimeter },
+    { part: `${loop.name}: Seitenlänge`, lengthM: loop.perimeter / 4 },
+    { part: `${loop.name}: Spreizerlänge (Mitte bis Ecke)`, lengthM: loop.perimeter / 4 / Math.SQRT2 },
+  ]);
+  if (elements >= 2) {
+    parts.push({ part: 'Elementabstand', lengthM: spacing });
+    parts.push({ part: 'Boomlänge', lengthM: spacing * (elements - 1) });
+  }
+
+  const feedpoints: Record<number, [number, number, number]> = {
+    1: [120, 100, 135],
+    2: [60, 45, 75],
+    3: [50, 40, 65],
+  };
+  const [typicalOhm, minOhm, maxOhm] = feedpoints[elements];
+  const gains: Record<number, number> = { 1: 3.3, 2: 7.5, 3: 9.3 };
+
+  return {
+    description: elements === 1 ? 'Ganzwellen-Quadschleife' : `Cubical Quad mit ${elements} Elementen`,
+    parts,
+    feedpoint: {
+      typicalOhm,
+      minOhm,
+      maxOhm,
+      description: elements === 1
+        ? 'Ca. 120 Ω - über λ/4-Transformator aus 75-Ω-Koax auf 50 Ω anpassen'
+        : 'Speisung in der Mitte der unteren Seite (horizontale Polarisation) über 1:1-Strombalun',
+    },
+    gainDbi: gains[elements],
+    frontToBackDb: elements === 1 ? null : elements === 2 ? 15 : 20,
+    notes: [],
+  };
+}
+
+/**
+ * HB9CV: two phased elements with λ/8 spacing. The element factors apply to
+ * tubes of about 0.004 λ and are corrected for other diameters.
+ */
+function hb9cv(ctx: DesignContext): DesignResult {
+  const correction = ctx.k / shorteningFactor(0.004 * ctx.wavelength, ctx.wavelength);
+  const rear = 0.48 * ctx.wavelength * correction * ctx.insulation;
+  const front = 0.45 * ctx.wavelength * correction * ctx.insulation;
+  const spacing = ctx.wavelength / 8;
+
+  return {
+    description: 'HB9CV (2 gespeiste Elemente mit gekreuzter Phasenleitung)',
+    parts: [
+      { part: 'Hinteres Element', lengthM: rear },
+      { part: 'Vorderes Element', lengthM: front },
+      { part: 'Elementabstand (λ/8)', lengthM: spacing },
+      { part: 'Phasenleitung', lengthM: spacing, note: 'gekreuzt zwischen den Elementhälften, Abstand zum Element ca. 0,01 λ' },
+    ],
+    feedpoint: {
+      typicalOhm: 50,
+      minOhm: 40,
+      maxOhm: 60,
+      description: 'Gamma-Anpassung am vorderen Element, mit dem Trimmkondensator auf 50 Ω abgleichen',
+    },
+    gainDbi: 6.2,
+    frontToBackDb: 15,
+    notes: ['Strahlt in Richtung des kürzeren (vorderen) Elements'],
+  };
+}
+
+const DESIGNS: Record<AntennaDesignType, (ctx: DesignContext) => DesignResult> = {
+  'dipole': dipole,
+  'inverted-v': invertedV,
+  'efhw': efhw,
+  'j-pole': jPole,
+  'slim-jim': slimJim,
+  'moxon': moxon,
+  'quad': quad,
+  'hb9cv': hb9cv,
+};
+
+/**
+ * Calculate an antenna design
+ */
+export function designAntenna(input: AntennaDesignInput): AntennaDesign {
+  const wavelength = wavelengthM(input.frequencyMhz);
+  const ctx: DesignContext = {
+    input,
+    wavelength,
+    k: shorteningFactor(input.conductorDiameterMm / 1000, wavelength),
+    insulation: input.insulated ? INSULATION_FACTOR : 1,
+  };
+
+  const result = DESIGNS[input.design](ctx);
+  return {
+    design: input.design,
+    frequencyMhz: input.frequencyMhz,
+    wavelengthM: wavelength,
+    ...result,
+  };
+}
@@ -0,0 +1,39 @@
+/**
+ * Antenna Gains
+ *
+ * Typical gains of common antenna types from data/antennas.json
+ */
+
+import { getDataset } from '../../data/index.js';
+
+/**
+ * Antenna type with its typical gain
+ */
+export interface AntennaGain {
+  type: string;
+  gain_dbi: number;
+  description: string;
+}
+
+/**
+ * Normalize an antenna type ("Yagi 5el" -> "yagi-5el")
+ */
+export function normalizeAntennaType(antennaType: string): string {
+  return antennaType.toLowerCase().replace(/\s/g, '-');
+}
+
+/**
+ * Get the typical gains of all antenna types
+ */
+export function getAntennas(): Record<string, { gain_dbi: number; description: string }> {
+  return getDataset('antennas').antennas;
+}
+
+/**
+ * Find an antenna type, or null if it is unknown
+ */
+export function findAntenna(antennaType: string): AntennaGain | null {
+  const type = normalizeAntennaType(antennaType);
+  const antenna = getAntennas()[type];
+  return antenna ? { type, ...antenna } : null;
+}
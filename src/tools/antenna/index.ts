@@ -0,0 +1,482 @@
+/**
+ * Antenna MCP Tools
+ *
+ * Tool definitions for antenna design, Yagis, stacking and wire resonances
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+
+import { getDataInfo } from '../../data/index.js';
+import { wavelengthM } from '../../rf/propagation.js';
+import { designAntenna, validateConductorDiameter } from './design.js';
+import { analyzeWire, findWireLengths, wireBands } from './wire.js';
+import { boomLengthForElements, designYagi, elementsForBoom, stackYagis, yagiBeamwidths, yagiGainDbi } from './yagi.js';
+import { AntennaDesign, AntennaDesignType, BandWireAnalysis, BoomMounting, StackInput, WireLengthWindow, YagiStack } from './types.js';
+
+const designTypes: [AntennaDesignType, ...AntennaDesignType[]] = ['dipole', 'inverted-v', 'efhw', 'j-pole', 'slim-jim', 'moxon', 'quad', 'hb9cv'];
+
+const boomMountings: [BoomMounting, ...BoomMounting[]] = ['isolated', 'on_boom', 'through_boom'];
+
+/**
+ * Longest Yagi the design tool calculates
+ */
+const MAX_YAGI_ELEMENTS = 40;
+
+function round(value: number, decimals = 3): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Format a design for tool responses
+ */
+function formatDesign(design: AntennaDesign): Record<string, unknown> {
+  return {
+    design: design.design,
+    description: design.description,
+    frequency_mhz: design.frequencyMhz,
+    wavelength_m: round(design.wavelengthM),
+    dimensions: design.parts.map(p => ({
+      part: p.part,
+      length_m: round(p.lengthM),
+      length_cm: round(p.lengthM * 100, 1),
+      note: p.note,
+    })),
+    feedpoint: {
+      impedance_ohm: design.feedpoint.typicalOhm,
+      range_ohm: [design.feedpoint.minOhm, design.feedpoint.maxOhm],
+      description: design.feedpoint.description,
+    },
+    gain: {
+      dbi: round(design.gainDbi, 2),
+      dbd: round(design.gainDbi - 2.15, 2),
+      front_to_back_db: design.frontToBackDb,
+    },
+    harmonics: design.harmonics?.map(h => ({
+      multiple: h.multiple,
+      frequency_mhz: round(h.frequencyMhz),
+      band: h.band,
+    })),
+  };
+}
+
+/**
+ * Format a stacking result for tool responses
+ */
+function formatStack(stack: YagiStack): Record<string, unknown> {
+  return {
+    count: stack.count,
+    spacings: stack.spacings.map(s => ({
+      direction: s.direction === 'vertical' ? 'übereinander' : 'nebeneinander',
+      beamwidth_deg: round(s.beamwidthDeg, 1),
+      spacing_m: round(s.spacingM),
+      spacing_wavelengths: round(s.spacingWavelengths, 2),
+    })),
+    stacking_gain_db: round(stack.stackingGainDb, 2),
+    gain_dbi: round(stack.gainDbi, 2),
+  };
+}
+
+/**
+ * Bands for the random-wire length search if none are given
+ */
+const DEFAULT_WIRE_BANDS = ['80m', '60m', '40m', '30m', '20m', '17m', '15m', '12m', '10m'];
+
+/**
+ * Wires shorter than λ/8 have a high reactance and cause tuner losses
+ */
+const SHORT_WIRE_WAVELENGTHS = 0.125;
+
+/**
+ * Format the behaviour of a wire in one band
+ */
+function formatBandAnalysis(analysis: BandWireAnalysis): Record<string, unknown> {
+  const high = analysis.resonances.filter(r => r.impedance === 'high');
+  const low = analysis.resonances.filter(r => r.impedance === 'low');
+  const status = high.some(r => r.inBand) ? 'hochohmig - λ/2-Resonanz im Band'
+    : high.length > 0 ? 'hochohmig - λ/2-Resonanz knapp außerhalb'
+      : low.length > 0 ? 'niederohmig - ungerades Vielfaches von λ/4'
+        : analysis.wavelengths < SHORT_WIRE_WAVELENGTHS ? 'elektrisch kurz'
+          : 'unkritisch';
+
+  return {
+    band: analysis.band.band,
+    range_mhz: [analysis.band.startMhz, analysis.band.endMhz],
+    electrical_length_wavelengths: round(analysis.wavelengths, 2),
+    status,
+    resonances: analysis.resonances.map(r => ({
+      impedance: r.impedance === 'high' ? 'hochohmig' : 'niederohmig',
+      multiple: r.quarterWaves % 2 === 0 ? `${r.quarterWaves / 2} × λ/2` : `${r.quarterWaves} × λ/4`,
+      frequency_mhz: round(r.frequencyMhz),
+      in_band: r.inBand,
+      offset_percent: round(r.offset * 100, 1),
+    })),
+  };
+}
+
+function formatWindow(window: WireLengthWindow): Record<string, unknown> {
+  return {
+    from_m: round(window.fromM, 2),
+    to_m: round(window.toM, 2),
+    recommended_m: round(window.bestM, 2),
+    margin_percent: round(window.bestMargin * 100, 1),
+  };
+}
+
+/**
+ * Register all antenna tools with the MCP server
+ */
+export function registerAntennaTools(server: McpServer): void {
+  // --------------------------------------------------------------------------
+  // TOOL: Antennenbau-Rechner
+  // --------------------------------------------------------------------------
+  server.tool(
+    'antenna_design',
+    'Berechnet Zuschnittmaße, Fußpunktimpedanz und Gewinn für gängige Selbstbauantennen: Dipol mit Verkürzung durch den Leiterdurchmesser, Inverted-V mit Öffnungswinkel, EFHW mit Transformator und Gegengewicht, J-Pole und Slim Jim mit Anpassleitung, Moxon-Rechteck, Cubical Quad und HB9CV. Der Gewinn kann direkt als antenna_gain_dbi in calculate_eirp verwendet werden.',
+    {
+      design: z.enum(designTypes).describe('Antennenbauform: dipole, inverted-v, efhw, j-pole, slim-jim, moxon, quad, hb9cv'),
+      frequency_mhz: z.number().min(0.1).max(3000).describe('Resonanzfrequenz in MHz'),
+      conductor_diameter_mm: z.number().min(0.1).max(100).default(2).describe('Durchmesser von Draht oder Rohr in mm'),
+      insulated: z.boolean().default(false).describe('Isolierter Draht (ca. 3 % kürzer)'),
+      apex_angle_deg: z.number().min(60).max(180).default(120).describe('Inverted-V: Öffnungswinkel zwischen den Schenkeln in Grad'),
+      transformer_ratio: z.number().min(4).max(100).default(49).describe('EFHW: Impedanzverhältnis des Transformators (49 für 49:1, 64 für 64:1)'),
+      matching_velocity_factor: z.number().min(0.5).max(1).default(0.97).describe('J-Pole/Slim Jim: Verkürzungsfaktor der Anpassleitung (Luft 0.97, Hühnerleiter 0.9, TV-Bandleitung 0.82)'),
+      quad_elements: z.number().int().min(1).max(3).default(2).describe('Quad: Anzahl der Elemente (1 = einzelne Schleife)'),
+    },
+    async ({ design, frequency_mhz, conductor_diameter_mm, insulated, apex_angle_deg, transformer_ratio, matching_velocity_factor, quad_elements }) => {
+      const diameterError = validateConductorDiameter(conductor_diameter_mm, frequency_mhz);
+      if (diameterError) {
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({ error: diameterError }, null, 2),
+          }],
+        };
+      }
+
+      const result = designAntenna({
+        design,
+        frequencyMhz: frequency_mhz,
+        conductorDiameterMm: conductor_diameter_mm,
+        insulated,
+        apexAngleDeg: apex_angle_deg,
+        transformerRatio: transformer_ratio,
+        matchingVelocityFactor: matching_velocity_factor,
+        quadElements: quad_elements,
+      });
+
+      const notes = [
+        ...result.notes,
+        'Maße sind Ausgangswerte für den Freiraum - etwas länger zuschneiden und am endgültigen Standort auf Resonanz trimmen',
+      ];
+      if (insulated) {
+        notes.push('Isolierter Draht: Längen um ca. 3 % verkürzt (PVC-Isolierung, je nach Material 2-5 %)');
+      }
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            input: {
+              design,
+              frequency_mhz,
+              conductor_diameter_mm,
+              insulated,
+            },
+            ...formatDesign(result),
+            notes,
+            hint: `Für die EIRP calculate_eirp mit antenna_gain_dbi ${round(result.gainDbi, 2)} aufrufen.`,
+            dataSource: result.harmonics ? getDataInfo('bandplans') : undefined,
+          }, null, 2),
+        }],
+      };
+    }
+  );
+
+  // --------------------------------------------------------------------------
+  // TOOL: Yagi-Rechner (DL6WU)
+  // --------------------------------------------------------------------------
+  server.tool(
+    'yagi_design',
+    'Berechnet eine Langyagi für VHF/UHF nach DL6WU aus Frequenz und Elementzahl oder Boomlänge: Elementlängen und -abstände mit Korrektur für Elementdurchmesser und Boommontage, erwarteter Gewinn in dBi/dBd, Vor-Rück-Verhältnis und Öffnungswinkel. Für das Stockungsmaß mehrerer Yagis yagi_stacking verwenden.',
+    {
+      frequency_mhz: z.number().min(28).max(3000).describe('Mittenfrequenz in MHz'),
+      elements: z.number().int().min(3).max(MAX_YAGI_ELEMENTS).optional().describe('Anzahl der Elemente inkl. Reflektor und Strahler'),
+      boom_length_m: z.number().positive().max(30).optional().describe('Verfügbare Boomlänge in Metern, alternativ zu elements'),
+      element_diameter_mm: z.number().min(1).max(30).default(4).describe('Durchmesser der Elemente in mm'),
+      boom_diameter_mm: z.number().min(0).max(100).default(20).describe('Durchmesser des Booms in mm'),
+      mounting: z.enum(boomMountings).default('isolated').describe('Elementmontage: isolated (isoliert/Kunststoffboom, keine Korrektur), on_boom (leitend auf dem Boom), through_boom (leitend durch den Boom)'),
+      boom_correction_mm: z.number().min(0).max(100).optional().describe('Eigene Boomkorrektur pro Element in mm (überschreibt mounting)'),
+    },
+    async ({ frequency_mhz, elements, boom_length_m, element_diameter_mm, boom_diameter_mm, mounting, boom_correction_mm }) => {
+      if (elements === undefined && boom_length_m === undefined) {
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({ error: 'elements oder boom_length_m angeben' }, null, 2),
+          }],
+        };
+      }
+      if (elements === undefined && boom_length_m! < boomLengthForElements(frequency_mhz, 3)) {
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              error: `Boom zu kurz: eine 3-Element-Yagi braucht bei ${frequency_mhz} MHz mindestens ${round(boomLengthForElements(frequency_mhz, 3), 2)} m`,
+            }, null, 2),
+          }],
+        };
+      }
+
+      const diameterError = validateConductorDiameter(element_diameter_mm, frequency_mhz);
+      if (diameterError) {
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({ error: diameterError }, null, 2),
+          }],
+        };
+      }
+
+      const count = elements ?? elementsForBoom(frequency_mhz, boom_length_m!, MAX_YAGI_ELEMENTS);
+      const yagi = designYagi({
+        frequencyMhz: frequency_mhz,
+        elements: count,
+        elementDiameterMm: element_diameter_mm,
+        boomDiameterMm: boom_diameter_mm,
+        mounting,
+        boomCorrectionMm: boom_correction_mm,
+      });
+
+      const stackBase = {
+        frequencyMhz: frequency_mhz,
+        gainDbi: yagi.gainDbi,
+        beamwidthEDeg: yagi.beamwidthEDeg,
+        beamwidthHDeg: yagi.beamwidthHDeg,
+        polarization: 'horizontal' as const,
+        harnessLossDb: 0,
+      };
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            input: {
+              frequency_mhz,
+              elements: count,
+              boom_length_m,
+              element_diameter_mm,
+              boom_diameter_mm,
+              mounting,
+            },
+            wavelength_m: round(yagi.wavelengthM),
+            elements: yagi.elements.map(e => ({
+              element: e.name,
+              position_mm: Math.round(e.positionM * 1000),
+              spacing_mm: Math.round(e.spacingM * 1000),
+              length_mm: Math.round(e.lengthM * 1000),
+              cut_length_mm: Math.round(e.cutLengthM * 1000),
+            })),
+            boom: {
+              length_m: round(yagi.boomLengthM),
+              length_wavelengths: round(yagi.boomLengthM / yagi.wavelengthM, 2),
+              correction_mm: round(yagi.boomCorrectionM * 1000, 1),
+            },
+            performance: {
+              gain_dbi: round(yagi.gainDbi, 1),
+              gain_dbd: round(yagi.gainDbi - 2.15, 1),
+              front_to_back_db: yagi.frontToBackDb,
+              beamwidth_e_plane_deg: round(yagi.beamwidthEDeg, 1),
+              beamwidth_h_plane_deg: round(yagi.beamwidthHDeg, 1),
+            },
+            feedpoint: 'Gestreckter Strahler ca. 20-30 Ω (Gamma- oder T-Anpassung); Faltdipol ca. 200 Ω mit λ/2-Umwegleitung auf 50 Ω. Strahlerlänge auf minimales SWR abgleichen.',
+            stacking: {
+              two_vertical: formatStack(stackYagis({ ...stackBase, count: 2, arrangement: 'vertical' })),
+              four: formatStack(stackYagis({ ...stackBase, count: 4, arrangement: 'vertical' })),
+            },
+            notes: [
+              ...yagi.notes,
+              'Positionen ab Reflektor; cut_length_mm enthält die Boomkorrektur (nicht beim isoliert montierten Strahler)',
+              'Stockungsabstände für horizontale Polarisation ohne Verteilerverlust - Details mit yagi_stacking',
+            ],
+            hint: `Für die EIRP calculate_eirp mit antenna_gain_dbi ${round(yagi.gainDbi, 1)} aufrufen.`,
+          }, null, 2),
+        }],
+      };
+    }
+  );
+
+  // --------------------------------------------------------------------------
+  // TOOL: Yagis stocken
+  // --------------------------------------------------------------------------
+  server.tool(
+    'yagi_stacking',
+    'Berechnet den optimalen Stockungsabstand (DL6WU: D = λ / (2·sin(θ/2))) und den Gesamtgewinn für zwei oder vier gestockte Yagis. Öffnungswinkel werden angegeben oder aus Gewinn bzw. Elementzahl (DL6WU-Yagi) geschätzt.',
+    {
+      frequency_mhz: z.number().min(28).max(3000).describe('Frequenz in MHz'),
+      count: z.union([z.literal(2), z.literal(4)]).describe('Anzahl der Antennen (2 oder 4 im Quadrat)'),
+      gain_dbi: z.number().min(3).max(30).optional().describe('Gewinn einer einzelnen Antenne in dBi'),
+      elements: z.number().int().min(3).max(MAX_YAGI_ELEMENTS).optional().describe('Elementzahl einer DL6WU-Yagi, alternativ zu gain_dbi'),
+      beamwidth_e_deg: z.number().min(5).max(120).optional().describe('Öffnungswinkel in der E-Ebene (Ebene der Elemente) in Grad'),
+      beamwidth_h_deg: z.number().min(5).max(180).optional().describe('Öffnungswinkel in der H-Ebene in Grad'),
+      polarization: z.enum(['horizontal', 'vertical']).default('horizontal').describe('Polarisation der Antennen'),
+      arrangement: z.enum(['vertical', 'horizontal']).default('vertical').describe('Bei 2 Antennen: vertical (übereinander) oder horizontal (nebeneinander)'),
+      harness_loss_db: z.number().min(0).max(3).default(0.3).describe('Verlust von Leistungsteiler und Phasenleitungen in dB'),
+    },
+    async ({ frequency_mhz, count, gain_dbi, elements, beamwidth_e_deg, beamwidth_h_deg, polarization, arrangement, harness_loss_db }) => {
+      const gain = gain_dbi ?? (elements !== undefined
+        ? yagiGainDbi(boomLengthForElements(frequency_mhz, elements) / wavelengthM(frequency_mhz))
+        : undefined);
+      if (gain === undefined) {
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({ error: 'gain_dbi oder elements angeben' }, null, 2),
+          }],
+        };
+      }
+
+      const estimated = yagiBeamwidths(gain);
+      const input: StackInput = {
+        frequencyMhz: frequency_mhz,
+        count,
+        gainDbi: gain,
+        beamwidthEDeg: beamwidth_e_deg ?? estimated.beamwidthEDeg,
+        beamwidthHDeg: beamwidth_h_deg ?? estimated.beamwidthHDeg,
+        polarization,
+        arrangement,
+        harnessLossDb: harness_loss_db,
+      };
+      const stack = stackYagis(input);
+
+      const notes = [
+        'Abstand von Boommitte zu Boommitte; bei kleinerem Abstand sinkt der Gewinn leicht, bei größerem steigen die Nebenkeulen',
+        count === 2
+          ? 'Speisung: zwei gleich lange Kabel auf einen Leistungsteiler (2 × 50 Ω parallel = 25 Ω, λ/4-Transformator aus 35-Ω-Leitung)'
+          : 'Speisung: 4-fach-Leistungsteiler mit gleich langen Kabeln zu allen Antennen',
+      ];
+      if (beamwidth_e_deg === undefined || beamwidth_h_deg === undefined) {
+        notes.push('Öffnungswinkel aus dem Gewinn geschätzt - mit Datenblatt- oder Simulationswerten wird der Abstand genauer');
+      }
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            input: {
+              frequency_mhz,
+              count,
+              gain_dbi: round(gain, 1),
+              beamwidth_e_deg: round(input.beamwidthEDeg, 1),
+              beamwidth_h_deg: round(input.beamwidthHDeg, 1),
+              polarization,
+              arrangement: count === 2 ? arrangement : undefined,
+              harness_loss_db,
+            },
+            ...formatStack(stack),
+            notes,
+            hint: `Für die EIRP calculate_eirp mit antenna_gain_dbi ${round(stack.gainDbi, 1)} aufrufen.`,
+          }, null, 2),
+        }],
+      };
+    }
+  );
+
+  // --------------------------------------------------------------------------
+  // TOOL: Drahtlänge und Resonanzen
+  // --------------------------------------------------------------------------
+  server.tool(
+    'wire_resonance',
+    'Analysiert die Resonanzen eines Drahts auf den Amateurfunkbändern 160m bis 6m: in welchen Bändern der Draht nahe einem Vielfachen von λ/2 (hochohmig, schlecht für Langdraht mit Unun/Tuner) oder einem ungeraden Vielfachen von λ/4 (niederohmig) liegt. Ohne length_m werden umgekehrt Drahtlängen gesucht, die auf den gewählten Bändern alle hochohmigen Punkte meiden.',
+    {
+      length_m: z.number().min(1).max(200).optional().describe('Drahtlänge in Metern; ohne Angabe werden geeignete Längen gesucht'),
+      velocity_factor: z.number().min(0.5).max(1).default(0.95).describe('Verkürzungsfaktor des Drahts (blank ca. 0.95-0.97, isoliert ca. 0.92-0.95)'),
+      bands: z.array(z.string()).min(1).optional().describe('Bänder (z.B. ["80m", "40m", "20m"]); Standard: alle Bänder 160m-6m bzw. 80m-10m für die Längensuche'),
+      margin_percent: z.number().min(0).max(20).default(3).describe('Mindestabstand einer λ/2-Resonanz zur Bandgrenze in Prozent'),
+      min_length_m: z.number().min(1).max(200).default(8).describe('Längensuche: kürzeste Drahtlänge in Metern'),
+      max_length_m: z.number().min(1).max(200).default(45).describe('Längensuche: längste Drahtlänge in Metern'),
+    },
+    async ({ length_m, velocity_factor, bands, margin_percent, min_length_m, max_length_m }) => {
+      const selection = wireBands(bands ?? (length_m === undefined ? DEFAULT_WIRE_BANDS : undefined));
+      if (selection.unknown.length > 0) {
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              error: `Unbekannte Bänder: ${selection.unknown.join(', ')}`,
+              availableBands: wireBands().bands.map(b => b.band),
+            }, null, 2),
+          }],
+        };
+      }
+      const margin = margin_percent / 100;
+
+      if (length_m === undefined) {
+        if (min_length_m >= max_length_m) {
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify({ error: 'min_length_m muss kleiner als max_length_m sein' }, null, 2),
+            }],
+          };
+        }
+        const windows = findWireLengths(min_length_m, max_length_m, velocity_factor, selection.bands, margin);
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              input: { velocity_factor, bands: selection.bands.map(b => b.band), margin_percent, min_length_m, max_length_m },
+              count: windows.length,
+              lengths: windows.map(formatWindow),
+              notes: [
+                windows.length === 0
+                  ? 'Keine Länge im Suchbereich hält den Mindestabstand auf allen Bändern ein - weniger Bänder wählen, margin_percent verringern oder den Suchbereich erweitern'
+                  : 'recommended_m hat den größten Abstand zu allen λ/2-Resonanzen; innerhalb des Bereichs from_m-to_m ist jede Länge geeignet',
+                'Länge vom Unun bis zum Drahtende; Gegengewicht bzw. Koax-Mantel separat (z.B. 0,05 λ auf dem tiefsten Band)',
+              ],
+              dataSource: getDataInfo('bandplans'),
+            }, null, 2),
+          }],
+        };
+      }
+
+      const analysis = analyzeWire(length_m, velocity_factor, selection.bands, margin);
+      const highBands = analysis.filter(a => a.resonances.some(r => r.impedance === 'high')).map(a => a.band.band);
+      const lowBands = analysis.filter(a => a.resonances.some(r => r.impedance === 'low')).map(a => a.band.band);
+
+      // Nearest lengths that avoid the half-wave resonances on the analysed bands
+      let alternatives: Record<string, unknown>[] | undefined;
+      if (highBands.length > 0) {
+        alternatives = findWireLengths(Math.max(1, length_m * 0.7), length_m * 1.3, velocity_factor, selection.bands, margin)
+          .sort((a, b) => Math.abs(a.bestM - length_m) - Math.abs(b.bestM - length_m))
+          .slice(0, 3)
+          .map(formatWindow);
+      }
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            input: { length_m, velocity_factor, margin_percent },
+            electrical_length_m: round(length_m / velocity_factor, 2),
+            bands: analysis.map(formatBandAnalysis),
+            summary: {
+              high_impedance_bands: highBands,
+              low_impedance_bands: lowBands,
+              suitable_as_random_wire: highBands.length === 0,
+            },
+            alternatives,
+            notes: [
+              highBands.length > 0
+                ? `Auf ${highBands.join(', ')} ist das Drahtende hochohmig - mit 9:1-Unun und Tuner oft nicht anpassbar, Draht kürzen oder verlängern`
+                : 'Keine λ/2-Resonanz in den gewählten Bändern - als Langdraht mit 9:1-Unun und Tuner geeignet',
+              'Hochohmige Resonanzen sind für einen EFHW mit 49:1- oder 64:1-Transformator erwünscht',
+            ],
+            dataSource: getDataInfo('bandplans'),
+          }, null, 2),
+        }],
+      };
+    }
+  );
+}
@@ -0,0 +1,210 @@
+/**
+ * Antenna Design Types
+ */
+
+/**
+ * Antenna designs supported by the design calculator
+ */
+export type AntennaDesignType = 'dipole' | 'inverted-v' | 'efhw' | 'j-pole' | 'slim-jim' | 'moxon' | 'quad' | 'hb9cv';
+
+/**
+ * Input of a design calculation
+ */
+export interface AntennaDesignInput {
+  design: AntennaDesignType;
+  frequencyMhz: number;
+  /** Wire or tube diameter in millimetres */
+  conductorDiameterMm: number;
+  /** PVC-insulated wire (velocity factor of the insulation) */
+  insulated: boolean;
+  /** Angle between the legs of an inverted-V in degrees */
+  apexAngleDeg: number;
+  /** Impedance ratio of the EFHW transformer (49 for 49:1) */
+  transformerRatio: number;
+  /** Velocity factor of the matching section of J-pole and Slim Jim */
+  matchingVelocityFactor: number;
+  /** Number of quad elements */
+  quadElements: number;
+}
+
+/**
+ * One part of the antenna with its cut length or dimension
+ */
+export interface DesignPart {
+  part: string;
+  lengthM: number;
+  note?: string;
+}
+
+/**
+ * Estimated feedpoint impedance in ohms
+ */
+export interface FeedpointEstimate {
+  typicalOhm: number;
+  minOhm: number;
+  maxOhm: number;
+  description: string;
+}
+
+/**
+ * Harmonic resonance of a wire inside an amateur band
+ */
+export interface HarmonicResonance {
+  multiple: number;
+  frequencyMhz: number;
+  band: string;
+}
+
+/**
+ * Result of a design calculation
+ */
+export interface AntennaDesign {
+  design: AntennaDesignType;
+  description: string;
+  frequencyMhz: number;
+  wavelengthM: number;
+  parts: DesignPart[];
+  feedpoint: FeedpointEstimate;
+  /** Free-space gain, for calculate_eirp */
+  gainDbi: number;
+  frontToBackDb: number | null;
+  /** Amateur bands with a harmonic resonance (multiband wires) */
+  harmonics?: HarmonicResonance[];
+  notes: string[];
+}
+
+/**
+ * How the elements are mounted on a metal boom
+ */
+export type BoomMounting = 'isolated' | 'on_boom' | 'through_boom';
+
+/**
+ * Input of the Yagi design
+ */
+export interface YagiInput {
+  frequencyMhz: number;
+  /** Number of elements including reflector and driven element */
+  elements: number;
+  elementDiameterMm: number;
+  boomDiameterMm: number;
+  mounting: BoomMounting;
+  /** Own boom correction per element in millimetres */
+  boomCorrectionMm?: number;
+}
+
+/**
+ * One Yagi element with its position on the boom
+ */
+export interface YagiElement {
+  name: string;
+  /** Distance from the reflector in metres */
+  positionM: number;
+  /** Distance to the previous element in metres */
+  spacingM: number;
+  /** Length without boom correction */
+  lengthM: number;
+  /** Cut length including boom correction */
+  cutLengthM: number;
+}
+
+/**
+ * Result of the Yagi design
+ */
+export interface YagiDesign {
+  frequencyMhz: number;
+  wavelengthM: number;
+  elements: YagiElement[];
+  boomLengthM: number;
+  boomCorrectionM: number;
+  gainDbi: number;
+  frontToBackDb: number;
+  /** Half-power beamwidths in the E-plane (plane of the elements) and H-plane */
+  beamwidthEDeg: number;
+  beamwidthHDeg: number;
+  notes: string[];
+}
+
+/**
+ * Input of the stacking calculation
+ */
+export interface StackInput {
+  frequencyMhz: number;
+  count: 2 | 4;
+  /** Gain of a single antenna */
+  gainDbi: number;
+  beamwidthEDeg: number;
+  beamwidthHDeg: number;
+  polarization: 'horizontal' | 'vertical';
+  /** Direction in which two antennas are stacked */
+  arrangement: 'vertical' | 'horizontal';
+  harnessLossDb: number;
+}
+
+/**
+ * Spacing in one stacking direction
+ */
+export interface StackSpacing {
+  direction: 'vertical' | 'horizontal';
+  /** Beamwidth of a single antenna in the stacking plane */
+  beamwidthDeg: number;
+  spacingM: number;
+  spacingWavelengths: number;
+}
+
+/**
+ * Result of the stacking calculation
+ */
+export interface YagiStack {
+  count: 2 | 4;
+  spacings: StackSpacing[];
+  stackingGainDb: number;
+  gainDbi: number;
+}
+
+/**
+ * Amateur band as frequency range in MHz
+ */
+export interface BandRange {
+  band: string;
+  startMhz: number;
+  endMhz: number;
+}
+
+/**
+ * Resonance of a wire near or inside a band. Even multiples of λ/4
+ * (half-wave multiples) are high-impedance at the wire end, odd multiples
+ * are low-impedance.
+ */
+export interface WireResonance {
+  impedance: 'high' | 'low';
+  /** Electrical length in quarter wavelengths */
+  quarterWaves: number;
+  frequencyMhz: number;
+  inBand: boolean;
+  /** Distance to the nearest band edge relative to that edge, 0 inside the band */
+  offset: number;
+}
+
+/**
+ * Behaviour of a wire in one band
+ */
+export interface BandWireAnalysis {
+  band: BandRange;
+  /** Electrical length at the band centre in wavelengths */
+  wavelengths: number;
+  resonances: WireResonance[];
+  /** Distance of the nearest half-wave resonance to the band */
+  highImpedanceMargin: number;
+}
+
+/**
+ * Length range of a wire that keeps all half-wave resonances away from the
+ * chosen bands
+ */
+export interface WireLengthWindow {
+  fromM: number;
+  toM: number;
+  /** Length with the largest margin inside the window */
+  bestM: number;
+  bestMargin: number;
+}
@@ -0,0 +1,153 @@
+/**
+ * Wire Resonance
+ *
+ * Resonances of a wire of given length on the amateur bands. A wire end
+ * is high-impedance where the wire is a multiple of λ/2 long - a random
+ * wire fed through an unun and tuner should avoid these points on all bands
+ * it is used on. Odd multiples of λ/4 are low-impedance.
+ */
+
+import { wavelengthM } from '../../rf/propagation.js';
+import { getBandPlans } from '../bandplan/plans.js';
+import { fromKhz, normalizeBandName, toKhz } from '../bandplan/lookup.js';
+import { BandRange, BandWireAnalysis, WireLengthWindow, WireResonance } from './types.js';
+
+/**
+ * Frequency range of the bands on which wire antennas are used
+ */
+const WIRE_BANDS_MIN_MHZ = 1.8;
+const WIRE_BANDS_MAX_MHZ = 54;
+
+/**
+ * Step of the length search in metres
+ */
+const LENGTH_STEP_M = 0.05;
+
+/**
+ * Amateur bands between 160m and 6m, optionally restricted to the given
+ * names. Returns the unknown names separately.
+ */
+export function wireBands(names?: string[]): { bands: BandRange[]; unknown: string[] } {
+  const all: BandRange[] = Object.entries(getBandPlans())
+    .map(([band, plan]) => ({
+      band,
+      startMhz: fromKhz(toKhz(plan.start, plan.unit), 'MHz'),
+      endMhz: fromKhz(toKhz(plan.end, plan.unit), 'MHz'),
+    }))
+    .filter(b => b.startMhz >= WIRE_BANDS_MIN_MHZ && b.endMhz <= WIRE_BANDS_MAX_MHZ);
+
+  if (!names) return { bands: all, unknown: [] };
+  const wanted = names.map(normalizeBandName);
+  return {
+    bands: all.filter(b => wanted.includes(b.band)),
+    unknown: wanted.filter(name => !all.some(b => b.band === name)),
+  };
+}
+
+/**
+ * Frequency in MHz at which the wire is the given number of quarter
+ * wavelengths long
+ */
+function resonanceMhz(lengthM: number, velocityFactor: number, quarterWaves: number): number {
+  // λ/4 · quarterWaves = length / velocityFactor at f = quarterWaves · c·vf / (4·length)
+  return quarterWaves * wavelengthM(1) * velocityFactor / (4 * lengthM);
+}
+
+/**
+ * Relative distance of a frequency to a band, 0 inside the band
+ */
+function bandOffset(frequencyMhz: number, band: BandRange): number {
+  if (frequencyMhz < band.startMhz) return (band.startMhz - frequencyMhz) / band.startMhz;
+  if (frequencyMhz > band.endMhz) return (frequencyMhz - band.endMhz) / band.endMhz;
+  return 0;
+}
+
+/**
+ * Distance of the nearest half-wave resonance to a band, 0 if one lies
+ * inside the band
+ */
+function highImpedanceMargin(lengthM: number, velocityFactor: number, band: BandRange): number {
+  const halfWave = resonanceMhz(lengthM, velocityFactor, 2);
+  // First half-wave multiple at or above the lower band edge
+  const above = Math.ceil(band.startMhz / halfWave);
+  if (above * halfWave <= band.endMhz) return 0;
+  const offsets = [bandOffset(above * halfWave, band)];
+  if (above > 1) offsets.push(bandOffset((above - 1) * halfWave, band));
+  return Math.min(...offsets);
+}
+
+/**
+ * Resonances of a wire inside or within a tolerance of each band
+ */
+export function analyzeWire(lengthM: number, velocityFactor: number, bands: BandRange[], tolerance: number): BandWireAnalysis[] {
+  const quarterWave = resonanceMhz(lengthM, velocityFactor, 1);
+
+  return bands.map(band => {
+    const first = Math.max(1, Math.floor(band.startMhz * (1 - tolerance) / quarterWave));
+    const last = Math.ceil(band.endMhz * (1 + tolerance) / quarterWave);
+    const resonances: WireResonance[] = [];
+    for (let quarterWaves = first; quarterWaves <= last; quarterWaves++) {
+      const frequencyMhz = quarterWaves * quarterWave;
+      const offset = bandOffset(frequencyMhz, band);
+      if (offset <= tolerance) {
+        resonances.push({
+          impedance: quarterWaves % 2 === 0 ? 'high' : 'low',
+          quarterWaves,
+          frequencyMhz,
+          inBand: offset === 0,
+          offset,
+        });
+      }
+    }
+
+    const centre = (band.startMhz + band.endMhz) / 2;
+    return {
+      band,
+      wavelengths: centre / (quarterWave * 4),
+      resonances,
+      highImpedanceMargin: highImpedanceMargin(lengthM, velocityFactor, band),
+    };
+  });
+}
+
+/**
+ * Smallest distance of a half-wave resonance to any of the bands
+ */
+function wireMargin(lengthM: number, velocityFactor: number, bands: BandRange[]): number {
+  return Math.min(...bands.map(band => highImpedanceMargin(lengthM, velocityFactor, band)));
+}
+
+/**
+ * Length ranges in which no half-wave resonance comes closer to any band
+ * than the given margin
+ */
+export function findWireLengths(
+  minLengthM: number,
+  maxLengthM: number,
+  velocityFactor: number,
+  bands: BandRange[],
+  minMargin: number
+): WireLengthWindow[] {
+  const windows: WireLengthWindow[] = [];
+  let current: WireLengthWindow | null = null;
+
+  const steps = Math.floor((maxLengthM - minLengthM) / LENGTH_STEP_M);
+  for (let i = 0; i <= steps; i++) {
+    const length = minLengthM + i * LENGTH_STEP_M;
+    const margin = wireMargin(length, velocityFactor, bands);
+    if (margin >= minMargin) {
+      if (!current) {
+        current = { fromM: length, toM: length, bestM: length, bestMargin: margin };
+        windows.push(current);
+      }
+      current.toM = length;
+      if (margin > current.bestMargin) {
+        current.bestM = length;
+        current.bestMargin = margin;
+      }
+    } else {
+      current = null;
+    }
+  }
+  return windows;
+}
@@ -0,0 +1,197 @@
+/**
+ * Yagi Design
+ *
+ * Long Yagis for VHF/UHF after the DL6WU design: fixed spacing progression
+ * measured from the reflector and a logarithmic director taper. Element
+ * lengths are corrected for the element diameter and for mounting on a
+ * metal boom. Gain follows the boom length (about 2.7 dB per doubling).
+ */
+
+import { wavelengthM } from '../../rf/propagation.js';
+import { shorteningFactor } from './design.js';
+import { BoomMounting, StackInput, StackSpacing, YagiDesign, YagiElement, YagiInput, YagiStack } from './types.js';
+
+/**
+ * Spacing to the previous element in wavelengths: driven element, then
+ * directors D1 to D12; all further directors use the last value
+ */
+const DL6WU_SPACINGS = [0.2, 0.075, 0.18, 0.215, 0.25, 0.28, 0.3, 0.315, 0.33, 0.345, 0.36, 0.375, 0.39, 0.4];
+
+/**
+ * Element diameter (in wavelengths) the length factors refer to
+ */
+const REFERENCE_DIAMETER = 0.005;
+
+const REFLECTOR_FACTOR = 0.482;
+
+/**
+ * Director length in wavelengths: DIRECTOR_FACTOR − DIRECTOR_TAPER·log10(n)
+ */
+const DIRECTOR_FACTOR = 0.45;
+const DIRECTOR_TAPER = 0.028;
+
+/**
+ * Boom correction per element as share of the boom diameter
+ */
+const BOOM_CORRECTION: Record<BoomMounting, number> = {
+  isolated: 0,
+  on_boom: 0.35,
+  through_boom: 0.7,
+};
+
+/**
+ * Directivity constant for the beamwidth estimate G ≈ 32400 / (θE·θH)
+ */
+const BEAMWIDTH_CONSTANT = 32400;
+
+/**
+ * Ratio of E-plane to H-plane beamwidth of a long Yagi
+ */
+const E_TO_H_RATIO = 0.88;
+
+/**
+ * Distance of the n-th element (0 = reflector) from the reflector in
+ * wavelengths
+ */
+function positionWavelengths(index: number): number {
+  let position = 0;
+  for (let i = 0; i < index; i++) {
+    position += DL6WU_SPACINGS[Math.min(i, DL6WU_SPACINGS.length - 1)];
+  }
+  return position;
+}
+
+/**
+ * Boom length in metres of a Yagi with the given number of elements
+ */
+export function boomLengthForElements(frequencyMhz: number, elements: number): number {
+  return positionWavelengths(elements - 1) * wavelengthM(frequencyMhz);
+}
+
+/**
+ * Largest number of elements that fits on a boom, at least 3
+ */
+export function elementsForBoom(frequencyMhz: number, boomLengthM: number, maxElements: number): number {
+  let elements = 3;
+  while (elements < maxElements && boomLengthForElements(frequencyMhz, elements + 1) <= boomLengthM) {
+    elements++;
+  }
+  return elements;
+}
+
+/**
+ * Estimated free-space gain of a DL6WU Yagi from its boom length
+ */
+export function yagiGainDbi(boomWavelengths: number): number {
+  return 10.9 + 9 * Math.log10(boomWavelengths);
+}
+
+/**
+ * Estimate E- and H-plane beamwidth of a Yagi from its gain
+ */
+export function yagiBeamwidths(gainDbi: number): { beamwidthEDeg: number; beamwidthHDeg: number } {
+  const beamwidthH = Math.sqrt(BEAMWIDTH_CONSTANT / (E_TO_H_RATIO * Math.pow(10, gainDbi / 10)));
+  return { beamwidthEDeg: beamwidthH * E_TO_H_RATIO, beamwidthHDeg: beamwidthH };
+}
+
+/**
+ * Calculate element lengths and spacings of a DL6WU Yagi
+ */
+export function designYagi(input: YagiInput): YagiDesign {
+  const wavelength = wavelengthM(input.frequencyMhz);
+  const diameter = input.elementDiameterMm / 1000;
+  const diameterCorrection = shorteningFactor(diameter, wavelength) / shorteningFactor(REFERENCE_DIAMETER * wavelength, wavelength);
+  const boomCorrection = input.boomCorrectionMm !== undefined
+    ? input.boomCorrectionMm / 1000
+    : BOOM_CORRECTION[input.mounting] * input.boomDiameterMm / 1000;
+
+  const elements: YagiElement[] = [];
+  for (let index = 0; index < input.elements; index++) {
+    let name: string;
+    let length: number;
+    if (index === 0) {
+      name = 'Reflektor';
+      length = REFLECTOR_FACTOR * wavelength * diameterCorrection;
+    } else if (index === 1) {
+      name = 'Strahler';
+      length = (wavelength / 2) * shorteningFactor(diameter, wavelength);
+    } else {
+      name = `D${index - 1}`;
+      length = (DIRECTOR_FACTOR - DIRECTOR_TAPER * Math.log10(index - 1)) * wavelength * diameterCorrection;
+    }
+    const position = positionWavelengths(index) * wavelength;
+    elements.push({
+      name,
+      positionM: position,
+      spacingM: index === 0 ? 0 : position - elements[index - 1].positionM,
+      lengthM: length,
+      // The driven element is insulated from the boom
+      cutLengthM: index === 1 ? length : length + boomCorrection,
+    });
+  }
+
+  const boomWavelengths = positionWavelengths(input.elements - 1);
+  const gainDbi = yagiGainDbi(boomWavelengths);
+
+  const notes: string[] = [];
+  const relativeDiameter = diameter / wavelength;
+  if (relativeDiameter < 0.002 || relativeDiameter > 0.01) {
+    notes.push(`Elementdurchmesser ${(relativeDiameter * 1000).toFixed(1)}‰ λ außerhalb des Bereichs der DL6WU-Kurven (2-10 ‰ λ) - Längen mit einer Simulation prüfen`);
+  }
+  if (input.boomDiameterMm / 1000 > 0.05 * wavelength && input.mounting !== 'isolated') {
+    notes.push('Boomdurchmesser über 0,05 λ - die Boomkorrektur ist nur eine grobe Näherung');
+  }
+  if (input.elements < 6) {
+    notes.push('Das DL6WU-Verfahren ist für lange Yagis ausgelegt; kurze Yagis erreichen mit optimierten Designs etwas mehr Gewinn und Vor-Rück-Verhältnis');
+  }
+
+  return {
+    frequencyMhz: input.frequencyMhz,
+    wavelengthM: wavelength,
+    elements,
+    boomLengthM: boomWavelengths * wavelength,
+    boomCorrectionM: boomCorrection,
+    gainDbi,
+    frontToBackDb: input.elements < 6 ? 16 : input.elements < 10 ? 20 : 23,
+    ...yagiBeamwidths(gainDbi),
+    notes,
+  };
+}
+
+/**
+ * Optimum stacking distance after DL6WU: D = λ / (2·sin(θ/2)), with θ the
+ * half-power beamwidth in the stacking plane
+ */
+function stackSpacing(direction: 'vertical' | 'horizontal', input: StackInput): StackSpacing {
+  const wavelength = wavelengthM(input.frequencyMhz);
+  // Horizontally polarized antennas have the E-plane horizontal
+  const inEPlane = (direction === 'horizontal') === (input.polarization === 'horizontal');
+  const beamwidth = inEPlane ? input.beamwidthEDeg : input.beamwidthHDeg;
+  const spacingWavelengths = 1 / (2 * Math.sin((beamwidth / 2) * Math.PI / 180));
+  return {
+    direction,
+    beamwidthDeg: beamwidth,
+    spacingM: spacingWavelengths * wavelength,
+    spacingWavelengths,
+  };
+}
+
+/**
+ * Calculate spacing and gain of two or four stacked antennas. At optimum
+ * spacing the stack gains about 0.2 dB less than the ideal 3 dB per
+ * doubling.
+ */
+export function stackYagis(input: StackInput): YagiStack {
+  const spacings = input.count === 4
+    ? [stackSpacing('vertical', input), stackSpacing('horizontal', input)]
+    : [stackSpacing(input.arrangement, input)];
+  const doublings = Math.log2(input.count);
+  const stackingGainDb = doublings * (3.01 - 0.2) - input.harnessLossDb;
+
+  return {
+    count: input.count,
+    spacings,
+    stackingGainDb,
+    gainDbi: input.gainDbi + stackingGainDb,
+  };
+}
@@ -0,0 +1,212 @@
+/**
+ * CEPT Country Band Plans
+ *
+ * National band plans of the neighbouring countries in which Austrian
+ * licensees operate under CEPT T/R 61-01. Each country is stored as a set
+ * of deviations from the Austrian band plan: different band edges, power
+ * limits, bands that are not allocated and 60m without channel raster.
+ * Values as of 2026, without guarantee - the host country's regulations
+ * are authoritative.
+ */
+
+import { getBandPlans } from './plans.js';
+import { BandOverride, BandPlan, CountryBandPlan, CountryCode } from './types.js';
+import { PrivilegeCheck, checkPrivilege } from './privileges.js';
+
+/**
+ * Country whose band plan is stored in full in data/bandplans.json
+ */
+export const HOME_COUNTRY: CountryCode = 'OE';
+
+/**
+ * General power limit of the Austrian band plan. Bands with this limit
+ * take the general limit of the host country instead.
+ */
+const HOME_MAX_POWER = '1000W';
+
+export const COUNTRY_BAND_PLANS: Record<CountryCode, CountryBandPlan> = {
+  OE: {
+    code: 'OE',
+    name: 'Österreich',
+    maxPower: '1000W',
+    ceptNovice: true,
+    bands: {},
+    notes: [],
+  },
+  DL: {
+    code: 'DL',
+    name: 'Deutschland',
+    maxPower: '750W',
+    ceptNovice: true,
+    bands: {
+      '2200m': { maxPower: '1W ERP' },
+      '60m': { channelised: false, notes: 'Frei nutzbar ohne Kanalraster' },
+      '6m': { maxPower: '750W', notes: '50,0-50,5 MHz 750W, darüber 25W ERP' },
+      '4m': { start: 70.15, end: 70.2, maxPower: '25W ERP' },
+    },
+    notes: ['Klasse N (Einsteiger) hat keine CEPT-Entsprechung'],
+  },
+  HB9: {
+    code: 'HB9',
+    name: 'Schweiz',
+    maxPower: '1000W',
+    ceptNovice: true,
+    bands: {
+      '60m': { channelised: false, notes: 'Frei nutzbar ohne Kanalraster' },
+      '4m': null,
+    },
+    notes: ['Rufzeichen mit Präfix HB9/ bzw. HB0/ in Liechtenstein'],
+  },
+  I: {
+    code: 'I',
+    name: 'Italien',
+    maxPower: '500W',
+    ceptNovice: false,
+    bands: {
+      '2200m': { maxPower: '1W ERP' },
+      '60m': { channelised: false, notes: 'Frei nutzbar ohne Kanalraster' },
+      '4m': { start: 70.1, end: 70.2, maxPower: '10W ERP' },
+    },
+    notes: ['CEPT-Novice-Lizenzen (ECC/REC (05)06) werden nicht anerkannt'],
+  },
+  OK: {
+    code: 'OK',
+    name: 'Tschechien',
+    maxPower: '750W',
+    ceptNovice: true,
+    bands: {
+      '60m': { channelised: false, notes: 'Frei nutzbar ohne Kanalraster' },
+      '4m': { start: 70.1, end: 70.3, maxPower: '20W ERP' },
+    },
+    notes: [],
+  },
+  OM: {
+    code: 'OM',
+    name: 'Slowakei',
+    maxPower: '750W',
+    ceptNovice: true,
+    bands: {
+      '2200m': null,
+      '60m': { channelised: false, notes: 'Frei nutzbar ohne Kanalraster' },
+      '4m': { start: 70.0, end: 70.45, maxPower: '25W ERP' },
+    },
+    notes: [],
+  },
+  S5: {
+    code: 'S5',
+    name: 'Slowenien',
+    maxPower: '1500W',
+    ceptNovice: true,
+    bands: {
+      '60m': { channelised: false, notes: 'Frei nutzbar ohne Kanalraster' },
+      '4m': { start: 70.0, end: 70.45, maxPower: '25W ERP' },
+    },
+    notes: [],
+  },
+  HA: {
+    code: 'HA',
+    name: 'Ungarn',
+    maxPower: '1500W',
+    ceptNovice: true,
+    bands: {
+      '2200m': null,
+      '60m': { channelised: false, notes: 'Frei nutzbar ohne Kanalraster' },
+      '4m': { start: 70.0, end: 70.5, maxPower: '25W ERP' },
+    },
+    notes: [],
+  },
+};
+
+/**
+ * Apply a national deviation to an Austrian band.
+ *
+ * Segments are clipped to the new band edges and the outermost segments
+ * are stretched to reach them; usage markers and channels outside the new
+ * edges are dropped.
+ */
+function applyOverride(plan: BandPlan, override: BandOverride, countryMaxPower: string): BandPlan {
+  const start = override.start ?? plan.start;
+  const end = override.end ?? plan.end;
+  const unchannelised = override.channelised === false;
+
+  const segments = plan.segments
+    .filter(s => s.end > start && s.start < end)
+    .map(s => ({
+      ...s,
+      start: Math.max(s.start, start),
+      end: Math.min(s.end, end),
+      channelised: unchannelised ? undefined : s.channelised,
+      notes: unchannelised && s.channelised ? undefined : s.notes,
+    }));
+  if (segments.length > 0) {
+    segments[0].start = start;
+    segments[segments.length - 1].end = end;
+  }
+
+  const channels = unchannelised
+    ? undefined
+    : plan.channels?.filter(c => c.centre >= start && c.centre <= end);
+
+  return {
+    ...plan,
+    start,
+    end,
+    status: override.status ?? plan.status,
+    maxPower: override.maxPower ?? (plan.maxPower === HOME_MAX_POWER ? countryMaxPower : plan.maxPower),
+    notes: override.notes ?? plan.notes,
+    segments,
+    usage: plan.usage.filter(u => u.end >= start && u.start <= end),
+    channels: channels && channels.length > 0 ? channels : undefined,
+  };
+}
+
+/**
+ * Build the complete band plan of a country from the Austrian band plan
+ */
+export function getCountryBandPlans(country: CountryCode): Record<string, BandPlan> {
+  if (country === HOME_COUNTRY) return getBandPlans();
+
+  const definition = COUNTRY_BAND_PLANS[country];
+  const plans: Record<string, BandPlan> = {};
+
+  for (const [band, plan] of Object.entries(getBandPlans())) {
+    const override = definition.bands[band];
+    if (override === null) continue;
+    plans[band] = applyOverride(plan, override ?? {}, definition.maxPower);
+  }
+  return plans;
+}
+
+/**
+ * Check the privileges of an Austrian license class in a country.
+ *
+ * Abroad, class 1 operates under CEPT T/R 61-01 with the host country's
+ * full privileges. Class 3 corresponds to the CEPT novice licence
+ * (ECC/REC (05)06) and keeps its Austrian band subset where the host
+ * country recognises it. Class 4 is a national licence only.
+ */
+export function checkCountryPrivilege(
+  licenseClass: number,
+  band: string,
+  plan: BandPlan,
+  country: CountryCode
+): PrivilegeCheck {
+  const privilege = checkPrivilege(licenseClass, band, plan);
+  if (country === HOME_COUNTRY || !privilege.allowed || licenseClass === 1) {
+    return privilege;
+  }
+
+  const definition = COUNTRY_BAND_PLANS[country];
+  if (licenseClass === 3 && definition.ceptNovice) {
+    return privilege;
+  }
+
+  return {
+    ...privilege,
+    allowed: false,
+    maxPower: null,
+    reason: licenseClass === 3
+      ? `${definition.name} erkennt die CEPT-Novice-Lizenz (ECC/REC (05)06) nicht an`
+      : `Lizenzklasse ${licenseClass} ist eine nationale Lizenz ohne CEPT-Gastbetrieb`,
+  };
+}
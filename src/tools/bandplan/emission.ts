@@ -0,0 +1,217 @@
+/**
+ * Emission Bandwidth Check
+ *
+ * Computes the occupied spectrum of a transmission from dial frequency,
+ * mode and offset, and checks both edges against band and segment limits.
+ * All calculations are done in integer Hz to avoid rounding noise at the
+ * band edges.
+ */
+
+import { getBandPlans } from './plans.js';
+import { BandPlan, BandSegment, BandUnit } from './types.js';
+import { HZ_PER_UNIT, MODE_BANDWIDTH_HZ, findSegment, fromKhz } from './lookup.js';
+
+/**
+ * Emission modes as set on the transceiver
+ */
+export type EmissionMode = 'USB' | 'LSB' | 'CW' | 'AM' | 'FM' | 'DIGITAL';
+
+/**
+ * Audio passband of an SSB transmitter, relative to the suppressed carrier
+ */
+const SSB_AUDIO_LOW_HZ = 300;
+
+/**
+ * Default audio tone offset for digital modes transmitted via USB
+ */
+export const DIGITAL_DEFAULT_OFFSET_HZ = 1500;
+
+/**
+ * Occupied spectrum of a transmission
+ */
+export interface Emission {
+  lowerHz: number;
+  upperHz: number;
+  bandwidthHz: number;
+}
+
+/**
+ * Result of an emission check against the band plan
+ */
+export interface EmissionCheck {
+  emission: Emission;
+  band: string | null;
+  plan: BandPlan | null;
+  bandOvershootBelowHz: number;
+  bandOvershootAboveHz: number;
+  segment: BandSegment | null;
+  segmentSpillBelowHz: number;
+  segmentSpillAboveHz: number;
+  bandwidthExcessHz: number;
+  ok: boolean;
+  messages: string[];
+  warnings: string[];
+}
+
+/**
+ * Convert a band-unit frequency to integer Hz
+ */
+export function bandUnitToHz(value: number, unit: BandUnit): number {
+  return Math.round(value * HZ_PER_UNIT[unit]);
+}
+
+/**
+ * Default bandwidth for an emission mode
+ */
+export function defaultBandwidthHz(mode: EmissionMode): number {
+  switch (mode) {
+    case 'USB':
+    case 'LSB': return MODE_BANDWIDTH_HZ.SSB;
+    case 'DIGITAL': return MODE_BANDWIDTH_HZ.DIGI;
+    default: return MODE_BANDWIDTH_HZ[mode];
+  }
+}
+
+/**
+ * Compute the occupied spectrum of a transmission.
+ *
+ * For USB/LSB/AM/FM/CW the offset shifts the carrier (RIT/XIT). For
+ * DIGITAL the offset is the audio tone centre above the USB dial frequency.
+ */
+export function computeEmission(
+  dialHz: number,
+  mode: EmissionMode,
+  bandwidthHz: number,
+  offsetHz: number
+): Emission {
+  const carrier = Math.round(dialHz + offsetHz);
+  let lowerHz: number;
+  let upperHz: number;
+
+  switch (mode) {
+    case 'USB':
+      lowerHz = carrier + SSB_AUDIO_LOW_HZ;
+      upperHz = carrier + SSB_AUDIO_LOW_HZ + bandwidthHz;
+      break;
+    case 'LSB':
+      lowerHz = carrier - SSB_AUDIO_LOW_HZ - bandwidthHz;
+      upperHz = carrier - SSB_AUDIO_LOW_HZ;
+      break;
+    default:
+      lowerHz = Math.round(carrier - bandwidthHz / 2);
+      upperHz = lowerHz + bandwidthHz;
+  }
+
+  return { lowerHz, upperHz, bandwidthHz };
+}
+
+/**
+ * Find the band the emission belongs to: the band containing its centre,
+ * or failing that the band touched by one of its edges
+ */
+function findEmissionBand(emission: Emission): { band: string; plan: BandPlan } | null {
+  const centre = (emission.lowerHz + emission.upperHz) / 2;
+  const candidates = [centre, emission.lowerHz, emission.upperHz];
+
+  for (const freqHz of candidates) {
+    for (const [band, plan] of Object.entries(getBandPlans())) {
+      if (freqHz >= bandUnitToHz(plan.start, plan.unit) && freqHz <= bandUnitToHz(plan.end, plan.unit)) {
+        return { band, plan };
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Check an emission against band edges and the segment bandwidth limit.
+ *
+ * Exceeding a band edge or the segment bandwidth makes the check fail;
+ * reaching into a neighbouring segment is only reported as a warning,
+ * since segment edges are band plan recommendations.
+ */
+export function checkEmission(emission: Emission): EmissionCheck {
+  const messages: string[] = [];
+  const warnings: string[] = [];
+  const match = findEmissionBand(emission);
+
+  if (!match) {
+    return {
+      emission,
+      band: null,
+      plan: null,
+      bandOvershootBelowHz: 0,
+      bandOvershootAboveHz: 0,
+      segment: null,
+      segmentSpillBelowHz: 0,
+      segmentSpillAboveHz: 0,
+      bandwidthExcessHz: 0,
+      ok: false,
+      messages: ['Signal liegt vollständig außerhalb der Amateurfunkbänder (IARU Region 1)'],
+      warnings: [],
+    };
+  }
+
+  const { band, plan } = match;
+  const bandStartHz = bandUnitToHz(plan.start, plan.unit);
+  const bandEndHz = bandUnitToHz(plan.end, plan.unit);
+  const bandOvershootBelowHz = Math.max(0, bandStartHz - emission.lowerHz);
+  const bandOvershootAboveHz = Math.max(0, emission.upperHz - bandEndHz);
+
+  if (bandOvershootBelowHz > 0) {
+    messages.push(`Signal unterschreitet die untere Bandgrenze ${plan.start} ${plan.unit} um ${bandOvershootBelowHz} Hz`);
+  }
+  if (bandOvershootAboveHz > 0) {
+    messages.push(`Signal überschreitet die obere Bandgrenze ${plan.end} ${plan.unit} um ${bandOvershootAboveHz} Hz`);
+  }
+
+  const centreHz = (emission.lowerHz + emission.upperHz) / 2;
+  const clampedCentreHz = Math.min(Math.max(centreHz, bandStartHz), bandEndHz);
+  const segment = findSegment(plan, fromKhz(clampedCentreHz / 1000, plan.unit));
+
+  let segmentSpillBelowHz = 0;
+  let segmentSpillAboveHz = 0;
+  let bandwidthExcessHz = 0;
+
+  if (segment) {
+    const segmentStartHz = bandUnitToHz(segment.start, plan.unit);
+    const segmentEndHz = bandUnitToHz(segment.end, plan.unit);
+
+    // Spill beyond the band edge is already reported as band overshoot
+    segmentSpillBelowHz = Math.max(0, segmentStartHz - Math.max(emission.lowerHz, bandStartHz));
+    segmentSpillAboveHz = Math.max(0, Math.min(emission.upperHz, bandEndHz) - segmentEndHz);
+
+    if (segment.maxBandwidthHz !== null) {
+      bandwidthExcessHz = Math.max(0, emission.bandwidthHz - segment.maxBandwidthHz);
+    }
+
+    if (bandwidthExcessHz > 0) {
+      messages.push(
+        segment.maxBandwidthHz === 0
+          ? `Segment ${segment.start} - ${segment.end} ${plan.unit} (${segment.modes}) erlaubt keine Aussendungen`
+          : `Bandbreite ${emission.bandwidthHz} Hz überschreitet das Segment-Limit von ${segment.maxBandwidthHz} Hz um ${bandwidthExcessHz} Hz`
+      );
+    }
+    if (segmentSpillBelowHz > 0) {
+      warnings.push(`Signal ragt ${segmentSpillBelowHz} Hz unter den Segmentbeginn ${segment.start} ${plan.unit}`);
+    }
+    if (segmentSpillAboveHz > 0) {
+      warnings.push(`Signal ragt ${segmentSpillAboveHz} Hz über das Segmentende ${segment.end} ${plan.unit}`);
+    }
+  }
+
+  return {
+    emission,
+    band,
+    plan,
+    bandOvershootBelowHz,
+    bandOvershootAboveHz,
+    segment,
+    segmentSpillBelowHz,
+    segmentSpillAboveHz,
+    bandwidthExcessHz,
+    ok: messages.length === 0,
+    messages,
+    warnings,
+  };
+}
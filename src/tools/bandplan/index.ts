@@ -0,0 +1,571 @@
+/**
+ * Band Plan MCP Tools
+ *
+ * Tool definitions for the IARU Region 1 band plans with sub-band segments
+ */
+
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+
+import { getBandPlans } from './plans.js';
+import { checkPrivilege } from './privileges.js';
+import { COUNTRY_BAND_PLANS, HOME_COUNTRY, getCountryBandPlans, checkCountryPrivilege } from './countries.js';
+import { BandPlan, CountryCode } from './types.js';
+import { computeEmission, checkEmission, defaultBandwidthHz, DIGITAL_DEFAULT_OFFSET_HZ } from './emission.js';
+import {
+  BAND_STATUS_NAMES,
+  MODE_BANDWIDTH_HZ,
+  normalizeBandName,
+  toKhz,
+  fromKhz,
+  findBand,
+  findSegment,
+  findUsage,
+  formatSegment,
+  formatUsage,
+  formatChannel,
+  snapToChannel,
+  findNearbyChannelisedBand,
+} from './lookup.js';
+import { lookupCallsign } from '../callsign/lookup.js';
+import { LICENSE_CLASSES } from '../callsign/types.js';
+import { getDataInfo } from '../../data/index.js';
+
+const frequencyUnitSchema = z.enum(['Hz', 'kHz', 'MHz', 'GHz']).default('kHz').describe('Einheit der Frequenz');
+
+const licenseClassSchema = z.number().int().refine(c => c in LICENSE_CLASSES, 'Lizenzklasse muss 1, 3 oder 4 sein')
+  .describe('Österreichische Lizenzklasse (1, 3 oder 4) für klassenspezifische Rechte');
+
+const countryCodes = Object.keys(COUNTRY_BAND_PLANS) as [CountryCode, ...CountryCode[]];
+
+const countrySchema = z.enum(countryCodes).default(HOME_COUNTRY)
+  .describe('Land für CEPT-Gastbetrieb (OE, DL, HB9, I, OK, OM, S5, HA), Standard OE');
+
+/**
+ * Compare two national versions of a band and describe the differences
+ */
+function compareBands(a: BandPlan | undefined, b: BandPlan | undefined, nameA: string, nameB: string): string[] {
+  if (!a && !b) return [];
+  if (!a) return [`Nicht zugewiesen in ${nameA}`];
+  if (!b) return [`Nicht zugewiesen in ${nameB}`];
+
+  const differences: string[] = [];
+  if (a.start !== b.start || a.end !== b.end) {
+    differences.push(`Bandgrenzen: ${a.start} - ${a.end} ${a.unit} (${nameA}) / ${b.start} - ${b.end} ${b.unit} (${nameB})`);
+  }
+  if (a.maxPower !== b.maxPower) {
+    differences.push(`Maximale Leistung: ${a.maxPower} (${nameA}) / ${b.maxPower} (${nameB})`);
+  }
+  if (a.status !== b.status) {
+    differences.push(`Status: ${BAND_STATUS_NAMES[a.status]} (${nameA}) / ${BAND_STATUS_NAMES[b.status]} (${nameB})`);
+  }
+  if (!!a.channels !== !!b.channels) {
+    differences.push(`Kanalraster: ${a.channels ? 'ja' : 'nein'} (${nameA}) / ${b.channels ? 'ja' : 'nein'} (${nameB})`);
+  }
+  return differences;
+}
+
+/**
+ * Register all band plan tools with the MCP server
+ */
+export function registerBandplanTools(server: McpServer): void {
+  // --------------------------------------------------------------------------
+  // TOOL: Bandplan abfragen
+  // --------------------------------------------------------------------------
+  server.tool(
+    'get_band_plan',
+    'Gibt Frequenzgrenzen, erlaubte Modes, maximale Sendeleistung sowie die Segmentierung (Bandbreiten, Baken, Anruffrequenzen, Contest-Bereiche) für ein Amateurfunkband zurück (IARU Region 1 / Österreich oder CEPT-Gastland)',
+    {
+      band: z.string().describe("Bandbezeichnung wie '20m', '2m', '70cm', '160m'"),
+      license_class: licenseClassSchema.optional(),
+      country: countrySchema,
+    },
+    async ({ band, license_class, country }) => {
+      const normalizedBand = normalizeBandName(band);
+      const plans = getCountryBandPlans(country);
+      const info = plans[normalizedBand];
+
+      if (!info) {
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              error: getBandPlans()[normalizedBand]
+                ? `Band "${band}" ist in ${COUNTRY_BAND_PLANS[country].name} nicht zugewiesen`
+                : `Band "${band}" nicht gefunden`,
+              country,
+              availableBands: Object.keys(plans),
+              dataSource: getDataInfo('bandplans'),
+            }, null, 2),
+          }],
+        };
+      }
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            band: normalizedBand,
+            country,
+            countryName: COUNTRY_BAND_PLANS[country].name,
+            frequencyRange: `${info.start} - ${info.end} ${info.unit}`,
+            start: info.start,
+            end: info.end,
+            unit: info.unit,
+            status: BAND_STATUS_NAMES[info.status],
+            modes: info.modes,
+            maxPower: info.maxPower,
+            notes: info.notes || null,
+            segments: info.segments.map(s => formatSegment(s, info.unit)),
+            usageNotes: info.usage.map(u => formatUsage(u, info.unit)),
+            channels: info.channels ? info.channels.map(c => formatChannel(c, info.unit)) : undefined,
+            license: license_class !== undefined
+              ? checkCountryPrivilege(license_class, normalizedBand, info, country)
+              : undefined,
+            dataSource: getDataInfo('bandplans'),
+          }, null, 2),
+        }],
+      };
+    }
+  );
+
+  // --------------------------------------------------------------------------
+  // TOOL: Alle Bandpläne auflisten
+  // --------------------------------------------------------------------------
+  server.tool(
+    'list_all_bands',
+    'Listet alle verfügbaren Amateurfunkbänder mit Grundinformationen auf, optional mit den Rechten einer Lizenzklasse und für ein CEPT-Gastland',
+    {
+      license_class: licenseClassSchema.optional(),
+      country: countrySchema,
+    },
+    async ({ license_class, country }) => {
+      const bands = Object.entries(getCountryBandPlans(country)).map(([band, info]) => {
+        const entry: Record<string, unknown> = {
+          band,
+          range: `${info.start}-${info.end} ${info.unit}`,
+          status: BAND_STATUS_NAMES[info.status],
+          modes: info.modes,
+        };
+
+        if (license_class !== undefined) {
+          const privilege = checkCountryPrivilege(license_class, band, info, country);
+          entry.allowed = privilege.allowed;
+          entry.maxPower = privilege.maxPower;
+        }
+
+        return entry;
+      });
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({ country, bands, total: bands.length, dataSource: getDataInfo('bandplans') }, null, 2),
+        }],
+      };
+    }
+  );
+
+  // --------------------------------------------------------------------------
+  // TOOL: Frequenz prüfen
+  // --------------------------------------------------------------------------
+  server.tool(
+    'check_frequency',
+    'Prüft ob eine Frequenz im Amateurfunk erlaubt ist und gibt Band, Segment (Bandbreite, bevorzugte Modes) und Nutzungshinweise (Baken, Anruffrequenzen, Contest-Bereiche) zurück, optional für ein CEPT-Gastland',
+    {
+      frequency: z.number().positive().describe('Frequenz als Zahl'),
+      unit: frequencyUnitSchema,
+      license_class: licenseClassSchema.optional(),
+      country: countrySchema,
+    },
+    async ({ frequency, unit, license_class, country }) => {
+      const freqKhz = toKhz(frequency, unit);
+      const plans = getCountryBandPlans(country);
+      const match = findBand(freqKhz, plans);
+
+      if (!match) {
+        const nearby = findNearbyChannelisedBand(freqKhz, plans);
+        const snap = nearby ? snapToChannel(nearby.plan, fromKhz(freqKhz, nearby.plan.unit)) : null;
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              frequency: `${frequency} ${unit}`,
+              country,
+              allowed: false,
+              message: `Frequenz liegt außerhalb der Amateurfunkbänder (${COUNTRY_BAND_PLANS[country].name})`,
+              nearestChannel: nearby && snap ? {
+                band: nearby.band,
+                ...formatChannel(snap.channel, nearby.plan.unit),
+                offsetHz: snap.offsetHz,
+              } : undefined,
+              dataSource: getDataInfo('bandplans'),
+            }, null, 2),
+          }],
+        };
+      }
+
+      const { band, plan } = match;
+      const freq = fromKhz(freqKhz, plan.unit);
+      const segment = findSegment(plan, freq);
+      const usage = findUsage(plan, freq);
+
+      const warnings: string[] = [];
+      if (usage.some(u => u.type === 'beacon')) {
+        warnings.push('Frequenz liegt im Bakenbereich - hier nicht senden');
+      } else if (segment?.maxBandwidthHz === 0) {
+        warnings.push(`${segment.modes}: ${segment.notes || 'keine Aussendungen'}`);
+      }
+
+      const privilege = license_class !== undefined
+        ? checkCountryPrivilege(license_class, band, plan, country)
+        : undefined;
+
+      // In channelised segments the frequency must sit on the channel raster
+      const snap = segment?.channelised ? snapToChannel(plan, freq) : null;
+      if (snap && !snap.onChannel) {
+        warnings.push(`Nicht auf dem Kanalraster: nächster Kanal ${snap.channel.name}, Abweichung ${snap.offsetHz} Hz`);
+      }
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            frequency: `${frequency} ${unit}`,
+            country,
+            allowed: privilege ? privilege.allowed : true,
+            band,
+            status: BAND_STATUS_NAMES[plan.status],
+            modes: plan.modes,
+            maxPower: privilege ? privilege.maxPower : plan.maxPower,
+            license: privilege,
+            bandLimits: `${plan.start} - ${plan.end} ${plan.unit}`,
+            notes: plan.notes || null,
+            segment: segment ? formatSegment(segment, plan.unit) : null,
+            usageNotes: usage.map(u => formatUsage(u, plan.unit)),
+            channel: snap ? {
+              ...formatChannel(snap.channel, plan.unit),
+              offsetHz: snap.offsetHz,
+              onChannel: snap.onChannel,
+            } : undefined,
+            warnings,
+            dataSource: getDataInfo('bandplans'),
+          }, null, 2),
+        }],
+      };
+    }
+  );
+
+  // --------------------------------------------------------------------------
+  // TOOL: Bandpläne zweier Länder vergleichen
+  // --------------------------------------------------------------------------
+  server.tool(
+    'compare_band_plans',
+    'Vergleicht die Bandpläne zweier CEPT-Länder (Bandgrenzen, Leistungsgrenzen, Status, Kanalraster) und zeigt, was sich beim Grenzübertritt ändert',
+    {
+      country_a: countrySchema.describe('Erstes Land (Standard OE)'),
+      country_b: z.enum(countryCodes).describe('Zweites Land (OE, DL, HB9, I, OK, OM, S5, HA)'),
+    },
+    async ({ country_a, country_b }) => {
+      const definitionA = COUNTRY_BAND_PLANS[country_a];
+      const definitionB = COUNTRY_BAND_PLANS[country_b];
+      const plansA = getCountryBandPlans(country_a);
+      const plansB = getCountryBandPlans(country_b);
+
+      const differences: { band: string; differences: string[] }[] = [];
+      const identical: string[] = [];
+
+      for (const band of Object.keys(getBandPlans())) {
+        const bandDifferences = compareBands(plansA[band], plansB[band], country_a, country_b);
+        if (bandDifferences.length > 0) {
+          differences.push({ band, differences: bandDifferences });
+        } else {
+          identical.push(band);
+        }
+      }
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            countryA: { code: country_a, name: definitionA.name, maxPower: definitionA.maxPower, notes: definitionA.notes },
+            countryB: { code: country_b, name: definitionB.name, maxPower: definitionB.maxPower, notes: definitionB.notes },
+            differences,
+            identicalBands: identical,
+            hint: 'Gastbetrieb nach CEPT T/R 61-01 mit Landeskenner vor dem Rufzeichen (z.B. DL/OE8YML). Es gelten die Bestimmungen des Gastlandes.',
+            dataSource: getDataInfo('bandplans'),
+          }, null, 2),
+        }],
+      };
+    }
+  );
+
+  // --------------------------------------------------------------------------
+  // TOOL: Aussendung (belegte Bandbreite) prüfen
+  // --------------------------------------------------------------------------
+  server.tool(
+    'check_emission',
+    'Prüft ob das gesamte Signal (nicht nur die Trägerfrequenz) innerhalb des Bandes und der Segment-Bandbreite liegt. Berechnet die belegte Bandbreite aus Skalenfrequenz, Betriebsart und Offset und gibt die Überschreitung in Hz an.',
+    {
+      frequency: z.number().positive().describe('Skalenfrequenz (Dial) als Zahl'),
+      unit: frequencyUnitSchema,
+      mode: z.enum(['USB', 'LSB', 'CW', 'AM', 'FM', 'DIGITAL']).describe('Betriebsart'),
+      bandwidth_hz: z.number().positive().max(1000000).optional()
+        .describe('Belegte Bandbreite in Hz (Pflicht für sinnvolle DIGITAL-Prüfung, sonst Standardwert der Betriebsart)'),
+      offset_hz: z.number().min(-100000).max(100000).optional()
+        .describe('Offset in Hz: bei DIGITAL die NF-Tonlage über der USB-Skalenfrequenz (Standard 1500), sonst RIT/XIT-Verschiebung'),
+    },
+    async ({ frequency, unit, mode, bandwidth_hz, offset_hz }) => {
+      const dialHz = Math.round(toKhz(frequency, unit) * 1000);
+      const bandwidthHz = bandwidth_hz ?? defaultBandwidthHz(mode);
+      const offsetHz = offset_hz ?? (mode === 'DIGITAL' ? DIGITAL_DEFAULT_OFFSET_HZ : 0);
+
+      const emission = computeEmission(dialHz, mode, bandwidthHz, offsetHz);
+      const check = checkEmission(emission);
+
+      const assumptions: string[] = [];
+      if (bandwidth_hz === undefined) {
+        assumptions.push(`Standardbandbreite für ${mode}: ${bandwidthHz} Hz`);
+      }
+      if (mode === 'DIGITAL' && offset_hz === undefined) {
+        assumptions.push(`NF-Tonlage ${DIGITAL_DEFAULT_OFFSET_HZ} Hz über der USB-Skalenfrequenz`);
+      }
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            input: { frequency: `${frequency} ${unit}`, mode, bandwidth_hz: bandwidthHz, offset_hz: offsetHz },
+            emission: {
+              lowerEdgeHz: emission.lowerHz,
+              upperEdgeHz: emission.upperHz,
+              occupiedBandwidthHz: emission.bandwidthHz,
+              range: `${emission.lowerHz / 1000} - ${emission.upperHz / 1000} kHz`,
+            },
+            ok: check.ok,
+            band: check.band,
+            bandLimits: check.plan ? `${check.plan.start} - ${check.plan.end} ${check.plan.unit}` : null,
+            bandOvershoot: {
+              belowHz: check.bandOvershootBelowHz,
+              aboveHz: check.bandOvershootAboveHz,
+            },
+            segment: check.segment && check.plan ? formatSegment(check.segment, check.plan.unit) : null,
+            segmentCheck: {
+              bandwidthExcessHz: check.bandwidthExcessHz,
+              spillBelowHz: check.segmentSpillBelowHz,
+              spillAboveHz: check.segmentSpillAboveHz,
+            },
+            messages: check.messages,
+            warnings: check.warnings,
+            assumptions,
+            dataSource: getDataInfo('bandplans'),
+          }, null, 2),
+        }],
+      };
+    }
+  );
+
+  // --------------------------------------------------------------------------
+  // TOOL: Betriebsberechtigung eines Rufzeichens prüfen
+  // --------------------------------------------------------------------------
+  server.tool(
+    'can_operate',
+    'Prüft ob ein österreichisches Rufzeichen auf einer Frequenz in einer Betriebsart senden darf. Die Lizenzklasse wird aus der Rufzeichendatenbank ermittelt.',
+    {
+      callsign: z.string().describe('Rufzeichen (z.B. "OE8YML")'),
+      frequency: z.number().positive().describe('Frequenz als Zahl'),
+      unit: frequencyUnitSchema,
+      mode: z.enum(['CW', 'SSB', 'AM', 'FM', 'DIGI']).describe('Betriebsart'),
+    },
+    async ({ callsign, frequency, unit, mode }) => {
+      try {
+        const result = await lookupCallsign(callsign);
+
+        if (!result.exists) {
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify({
+                callsign: callsign.toUpperCase(),
+                canOperate: false,
+                message: 'Rufzeichen nicht gefunden - Lizenzklasse kann nicht ermittelt werden',
+                warning: result.warning,
+                dataSource: getDataInfo('bandplans'),
+              }, null, 2),
+            }],
+          };
+        }
+
+        const data = result.data!;
+        const freqKhz = toKhz(frequency, unit);
+        const match = findBand(freqKhz);
+        const reasons: string[] = [];
+        const warnings: string[] = [];
+
+        if (result.source !== 'fb') {
+          warnings.push('Lizenzklasse stammt nicht aus der offiziellen fb.gv.at Liste und ist möglicherweise ungenau');
+        }
+        if (result.warning) {
+          warnings.push(result.warning);
+        }
+
+        if (!match) {
+          reasons.push('Frequenz liegt außerhalb der Amateurfunkbänder (IARU Region 1)');
+        }
+
+        const privilege = match ? checkPrivilege(data.licenseClass, match.band, match.plan) : undefined;
+        if (privilege && !privilege.allowed) {
+          reasons.push(privilege.reason!);
+        }
+
+        const freq = match ? fromKhz(freqKhz, match.plan.unit) : 0;
+        const segment = match ? findSegment(match.plan, freq) : null;
+        const modeBandwidthHz = MODE_BANDWIDTH_HZ[mode];
+        const modeFits = !segment || segment.maxBandwidthHz === null || modeBandwidthHz <= segment.maxBandwidthHz;
+        if (segment && !modeFits) {
+          reasons.push(`${mode} (ca. ${modeBandwidthHz} Hz) überschreitet die Segment-Bandbreite von ${segment.maxBandwidthHz} Hz (${segment.modes})`);
+        }
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              callsign: data.callsign,
+              licenseClass: data.licenseClass,
+              licenseClassName: privilege?.licenseClassName,
+              source: result.source,
+              frequency: `${frequency} ${unit}`,
+              mode,
+              canOperate: reasons.length === 0,
+              band: match?.band || null,
+              maxPower: privilege?.allowed ? privilege.maxPower : null,
+              segment: segment && match ? formatSegment(segment, match.plan.unit) : null,
+              reasons,
+              warnings,
+              dataSource: getDataInfo('bandplans'),
+            }, null, 2),
+          }],
+        };
+      } catch (error) {
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              error: `Prüfung fehlgeschlagen: ${(error as Error).message}`,
+            }, null, 2),
+          }],
+        };
+      }
+    }
+  );
+
+  // --------------------------------------------------------------------------
+  // RESOURCE: Kompletter Bandplan
+  // --------------------------------------------------------------------------
+  server.resource(
+    'bandplan://iaru-region1/complete',
+    'Vollständiger IARU Region 1 Bandplan als JSON',
+    async () => ({
+      contents: [{
+        uri: 'bandplan://iaru-region1/complete',
+        mimeType: 'application/json',
+        text: JSON.stringify({
+          region: 'IARU Region 1',
+          country: 'Österreich (OE)',
+          source: 'oeradio.at',
+          bands: getBandPlans(),
+          dataSource: getDataInfo('bandplans'),
+        }, null, 2),
+      }],
+    })
+  );
+
+  // --------------------------------------------------------------------------
+  // RESOURCE: Bandplan eines CEPT-Landes
+  // --------------------------------------------------------------------------
+  server.resource(
+    'bandplan-country',
+    new ResourceTemplate('bandplan://cept/{country}/complete', {
+      list: async () => ({
+        resources: Object.values(COUNTRY_BAND_PLANS).map(c => ({
+          uri: `bandplan://cept/${c.code}/complete`,
+          name: `Bandplan ${c.name}`,
+          mimeType: 'application/json',
+        })),
+      }),
+      complete: {
+        country: (value) => countryCodes.filter(c => c.startsWith(value.toUpperCase())),
+      },
+    }),
+    { description: 'Vollständiger Bandplan eines CEPT-Landes für Gastbetrieb nach T/R 61-01 als JSON' },
+    async (uri, { country }) => {
+      const code = String(country).toUpperCase() as CountryCode;
+      const definition = COUNTRY_BAND_PLANS[code];
+
+      if (!definition) {
+        throw new Error(`Land "${country}" nicht gefunden (verfügbar: ${countryCodes.join(', ')})`);
+      }
+
+      return {
+        contents: [{
+          uri: uri.href,
+          mimeType: 'application/json',
+          text: JSON.stringify({
+            region: 'IARU Region 1',
+            country: `${definition.name} (${definition.code})`,
+            maxPower: definition.maxPower,
+            ceptNovice: definition.ceptNovice,
+            notes: definition.notes,
+            bands: getCountryBandPlans(code),
+            dataSource: getDataInfo('bandplans'),
+          }, null, 2),
+        }],
+      };
+    }
+  );
+
+  // --------------------------------------------------------------------------
+  // RESOURCE: Segmente eines Bandes
+  // --------------------------------------------------------------------------
+  server.resource(
+    'bandplan-segments',
+    new ResourceTemplate('bandplan://iaru-region1/{band}/segments', {
+      list: async () => ({
+        resources: Object.keys(getBandPlans()).map(band => ({
+          uri: `bandplan://iaru-region1/${band}/segments`,
+          name: `Segmente ${band}`,
+          mimeType: 'application/json',
+        })),
+      }),
+      complete: {
+        band: (value) => Object.keys(getBandPlans()).filter(b => b.startsWith(normalizeBandName(value))),
+      },
+    }),
+    { description: 'Sub-Band-Segmente, Baken, Anruffrequenzen und Contest-Bereiche eines Bandes (IARU Region 1)' },
+    async (uri, { band }) => {
+      const normalizedBand = normalizeBandName(String(band));
+      const info = getBandPlans()[normalizedBand];
+
+      if (!info) {
+        throw new Error(`Band "${band}" nicht gefunden`);
+      }
+
+      return {
+        contents: [{
+          uri: uri.href,
+          mimeType: 'application/json',
+          text: JSON.stringify({
+            region: 'IARU Region 1',
+            band: normalizedBand,
+            unit: info.unit,
+            segments: info.segments,
+            usage: info.usage,
+            channels: info.channels,
+            dataSource: getDataInfo('bandplans'),
+          }, null, 2),
+        }],
+      };
+    }
+  );
+}
@@ -0,0 +1,253 @@
+/**
+ * Band Plan Lookup
+ *
+ * Resolves frequencies to bands, sub-band segments and usage markers
+ */
+
+import { getBandPlans } from './plans.js';
+import { BandChannel, BandPlan, BandSegment, BandStatus, BandUnit, BandUsage, BandUsageType } from './types.js';
+
+/**
+ * Units accepted for frequency input
+ */
+export type FrequencyUnit = 'Hz' | 'kHz' | 'MHz' | 'GHz';
+
+/**
+ * Hz per frequency unit
+ */
+export const HZ_PER_UNIT: Record<FrequencyUnit, number> = {
+  Hz: 1,
+  kHz: 1e3,
+  MHz: 1e6,
+  GHz: 1e9,
+};
+
+/**
+ * Operating modes known to the band tools
+ */
+export type OperatingMode = 'CW' | 'SSB' | 'AM' | 'FM' | 'DIGI';
+
+/**
+ * Typical occupied bandwidth per operating mode in Hz
+ */
+export const MODE_BANDWIDTH_HZ: Record<OperatingMode, number> = {
+  CW: 150,
+  SSB: 2700,
+  AM: 6000,
+  FM: 11000,
+  DIGI: 500,
+};
+
+/**
+ * Tolerance around single-frequency usage markers (calling frequencies,
+ * centres of activity), in the band's unit
+ */
+const POINT_TOLERANCE: Record<BandUnit, number> = {
+  kHz: 2,
+  MHz: 0.01,
+  GHz: 0.00001,
+};
+
+/**
+ * Maximum deviation from a channel's nominal frequency that still counts
+ * as on-channel, in Hz
+ */
+const CHANNEL_TOLERANCE_HZ = 50;
+
+/**
+ * Distance outside a channelised band within which the nearest channel
+ * is still suggested, in kHz
+ */
+const CHANNEL_SEARCH_RANGE_KHZ = 100;
+
+/**
+ * German labels for usage marker types
+ */
+export const USAGE_TYPE_NAMES: Record<BandUsageType, string> = {
+  beacon: 'Bakenbereich',
+  calling: 'Anruffrequenz',
+  activity: 'Aktivitätszentrum',
+  contest: 'Contest bevorzugt',
+  dx: 'DX-Vorrang',
+  emergency: 'Notfunk',
+  satellite: 'Satellitenbereich',
+  repeater: 'Relaisbereich',
+};
+
+/**
+ * German labels for allocation status
+ */
+export const BAND_STATUS_NAMES: Record<BandStatus, string> = {
+  primary: 'Primärstatus',
+  secondary: 'Sekundärstatus',
+};
+
+/**
+ * Normalize a band name ("20 M" -> "20m")
+ */
+export function normalizeBandName(band: string): string {
+  return band.toLowerCase().replace(/\s/g, '');
+}
+
+/**
+ * Convert a frequency to kHz
+ */
+export function toKhz(frequency: number, unit: FrequencyUnit): number {
+  switch (unit) {
+    case 'Hz': return frequency / 1000;
+    case 'kHz': return frequency;
+    case 'MHz': return frequency * 1000;
+    case 'GHz': return frequency * 1000000;
+  }
+}
+
+/**
+ * Convert a frequency in kHz to the given band unit
+ */
+export function fromKhz(freqKhz: number, unit: BandUnit): number {
+  switch (unit) {
+    case 'kHz': return freqKhz;
+    case 'MHz': return freqKhz / 1000;
+    case 'GHz': return freqKhz / 1000000;
+  }
+}
+
+/**
+ * Find the band containing a frequency (in kHz), by default in the
+ * Austrian band plan
+ */
+export function findBand(
+  freqKhz: number,
+  plans: Record<string, BandPlan> = getBandPlans()
+): { band: string; plan: BandPlan } | null {
+  for (const [band, plan] of Object.entries(plans)) {
+    const freq = fromKhz(freqKhz, plan.unit);
+    if (freq >= plan.start && freq <= plan.end) {
+      return { band, plan };
+    }
+  }
+  return null;
+}
+
+/**
+ * Find the segment containing a frequency (in the band's unit).
+ *
+ * Segment edges belong to the upper segment, so 14.070 MHz is in the
+ * digimode segment and not in the CW segment below it.
+ */
+export function findSegment(plan: BandPlan, freq: number): BandSegment | null {
+  const last = plan.segments[plan.segments.length - 1];
+  return plan.segments.find(s => freq >= s.start && (freq < s.end || (s === last && freq <= s.end))) || null;
+}
+
+/**
+ * Find all usage markers that apply to a frequency (in the band's unit)
+ */
+export function findUsage(plan: BandPlan, freq: number): BandUsage[] {
+  const tolerance = POINT_TOLERANCE[plan.unit];
+
+  return plan.usage.filter(u => {
+    if (u.start === u.end) {
+      return Math.abs(freq - u.start) <= tolerance;
+    }
+    return freq >= u.start && freq <= u.end;
+  });
+}
+
+/**
+ * Snap a frequency (in the band's unit) to the nearest channel.
+ *
+ * The nominal frequency of a channel is its USB dial frequency if it has
+ * one, otherwise its centre, since that is what the operator sets.
+ */
+export function snapToChannel(plan: BandPlan, freq: number): {
+  channel: BandChannel;
+  offsetHz: number;
+  onChannel: boolean;
+} | null {
+  if (!plan.channels || plan.channels.length === 0) return null;
+
+  const hzPerUnit = HZ_PER_UNIT[plan.unit];
+  let best: { channel: BandChannel; offsetHz: number } | null = null;
+
+  for (const channel of plan.channels) {
+    const nominal = channel.dialUsb ?? channel.centre;
+    const offsetHz = Math.round((freq - nominal) * hzPerUnit);
+    if (!best || Math.abs(offsetHz) < Math.abs(best.offsetHz)) {
+      best = { channel, offsetHz };
+    }
+  }
+
+  return {
+    ...best!,
+    onChannel: Math.abs(best!.offsetHz) <= CHANNEL_TOLERANCE_HZ,
+  };
+}
+
+/**
+ * Find a channelised band close to a frequency outside all bands (in kHz),
+ * so out-of-band channel frequencies from other countries can be snapped
+ */
+export function findNearbyChannelisedBand(
+  freqKhz: number,
+  plans: Record<string, BandPlan> = getBandPlans()
+): { band: string; plan: BandPlan } | null {
+  for (const [band, plan] of Object.entries(plans)) {
+    if (!plan.channels) continue;
+
+    const startKhz = toKhz(plan.start, plan.unit);
+    const endKhz = toKhz(plan.end, plan.unit);
+    if (freqKhz >= startKhz - CHANNEL_SEARCH_RANGE_KHZ && freqKhz <= endKhz + CHANNEL_SEARCH_RANGE_KHZ) {
+      return { band, plan };
+    }
+  }
+  return null;
+}
+
+/**
+ * Format a channel for tool responses
+ */
+export function formatChannel(channel: BandChannel, unit: BandUnit): Record<string, unknown> {
+  return {
+    name: channel.name,
+    centre: `${channel.centre} ${unit}`,
+    dialUsb: channel.dialUsb !== undefined ? `${channel.dialUsb} ${unit}` : null,
+    bandwidthHz: channel.bandwidthHz,
+    modes: channel.modes,
+    maxPower: channel.maxPower || null,
+  };
+}
+
+/**
+ * Format a segment for tool responses
+ */
+export function formatSegment(segment: BandSegment, unit: BandUnit): Record<string, unknown> {
+  return {
+    range: `${segment.start} - ${segment.end} ${unit}`,
+    start: segment.start,
+    end: segment.end,
+    maxBandwidth: segment.maxBandwidthHz === null
+      ? 'keine Begrenzung'
+      : segment.maxBandwidthHz === 0
+        ? 'keine Aussendungen'
+        : `${segment.maxBandwidthHz} Hz`,
+    maxBandwidthHz: segment.maxBandwidthHz,
+    modes: segment.modes,
+    channelised: segment.channelised || false,
+    notes: segment.notes || null,
+  };
+}
+
+/**
+ * Format a usage marker for tool responses
+ */
+export function formatUsage(usage: BandUsage, unit: BandUnit): Record<string, unknown> {
+  return {
+    type: usage.type,
+    typeName: USAGE_TYPE_NAMES[usage.type],
+    frequency: usage.start === usage.end
+      ? `${usage.start} ${unit}`
+      : `${usage.start} - ${usage.end} ${unit}`,
+    description: usage.description,
+  };
+}
@@ -0,0 +1,18 @@
+/**
+ * IARU Region 1 Band Plans
+ *
+ * Band edges and allocation status as in Austria, segmented according to
+ * the IARU Region 1 HF, VHF/UHF and microwave band plans. The plans are
+ * maintained in data/bandplans.json; segment and usage frequencies use the
+ * same unit as the band itself.
+ */
+
+import { getDataset } from '../../data/index.js';
+import { BandPlan } from './types.js';
+
+/**
+ * Get the currently loaded band plans
+ */
+export function getBandPlans(): Record<string, BandPlan> {
+  return getDataset('bandplans').bands;
+}
@@ -0,0 +1,112 @@
+/**
+ * License Class Privileges
+ *
+ * Transmit privileges per Austrian license class according to the
+ * Amateurfunkverordnung (AFV). Class 1 may use every band with the band
+ * plan's power limit, classes 3 and 4 are restricted to a subset of bands
+ * and a lower maximum power.
+ */
+
+import { BandPlan } from './types.js';
+import { LICENSE_CLASSES } from '../callsign/types.js';
+import { getLicenseClassName } from '../callsign/validate.js';
+
+/**
+ * Privileges of one license class
+ */
+export interface LicensePrivileges {
+  bands: 'all' | string[];
+  maxPowerWatts: number | null;
+}
+
+/**
+ * Result of a privilege check for one band
+ */
+export interface PrivilegeCheck {
+  licenseClass: number;
+  licenseClassName: string;
+  allowed: boolean;
+  maxPower: string | null;
+  reason?: string;
+}
+
+export const LICENSE_PRIVILEGES: Record<number, LicensePrivileges> = {
+  1: { bands: 'all', maxPowerWatts: null },
+  3: { bands: ['160m', '80m', '15m', '10m', '2m', '70cm'], maxPowerWatts: 100 },
+  4: { bands: ['2m', '70cm'], maxPowerWatts: 10 },
+};
+
+/**
+ * Reference point of a power limit: transmitter output, EIRP or ERP
+ */
+export type PowerLimitReference = 'output' | 'EIRP' | 'ERP';
+
+/**
+ * Parsed band plan power limit
+ */
+export interface PowerLimit {
+  watts: number;
+  reference: PowerLimitReference;
+}
+
+/**
+ * Parse a band plan power limit ("1000W", "15W EIRP", "25W ERP")
+ */
+export function parsePowerLimit(maxPower: string): PowerLimit | null {
+  const match = maxPower.match(/^([\d.]+)\s*W\s*(EIRP|ERP)?/);
+  if (!match) return null;
+  return {
+    watts: parseFloat(match[1]),
+    reference: (match[2] as PowerLimitReference | undefined) ?? 'output',
+  };
+}
+
+/**
+ * Parse the wattage of a band plan power limit ("1000W", "15W EIRP")
+ */
+function parsePowerWatts(maxPower: string): number | null {
+  return parsePowerLimit(maxPower)?.watts ?? null;
+}
+
+/**
+ * Check whether a license class may transmit on a band and with which power.
+ *
+ * The effective limit is the lower of the class limit and the band limit,
+ * so a class-3 licensee on 160m gets 100W while the band allows 1000W.
+ */
+export function checkPrivilege(licenseClass: number, band: string, plan: BandPlan): PrivilegeCheck {
+  const privileges = LICENSE_PRIVILEGES[licenseClass];
+  const base = {
+    licenseClass,
+    licenseClassName: getLicenseClassName(licenseClass),
+  };
+
+  if (!privileges) {
+    return {
+      ...base,
+      allowed: false,
+      maxPower: null,
+      reason: `Unbekannte Lizenzklasse ${licenseClass} (gültig: ${Object.keys(LICENSE_CLASSES).join(', ')})`,
+    };
+  }
+
+  if (privileges.bands !== 'all' && !privileges.bands.includes(band)) {
+    return {
+      ...base,
+      allowed: false,
+      maxPower: null,
+      reason: `Band ${band} ist für Lizenzklasse ${licenseClass} nicht freigegeben`,
+    };
+  }
+
+  const bandWatts = parsePowerWatts(plan.maxPower);
+  const maxPower = privileges.maxPowerWatts !== null && (bandWatts === null || privileges.maxPowerWatts < bandWatts)
+    ? `${privileges.maxPowerWatts}W`
+    : plan.maxPower;
+
+  return {
+    ...base,
+    allowed: true,
+    maxPower,
+  };
+}
@@ -0,0 +1,109 @@
+/**
+ * Band Plan Types
+ *
+ * Types for the IARU Region 1 band plans and their sub-band segmentation
+ */
+
+/**
+ * Unit in which a band's edges, segments and usage markers are stored
+ */
+export type BandUnit = 'kHz' | 'MHz' | 'GHz';
+
+/**
+ * Sub-band segment of an amateur band
+ */
+export interface BandSegment {
+  start: number;
+  end: number;
+  maxBandwidthHz: number | null;
+  modes: string;
+  channelised?: boolean;
+  notes?: string;
+}
+
+/**
+ * Fixed channel within a channelised segment
+ */
+export interface BandChannel {
+  name: string;
+  centre: number;
+  bandwidthHz: number;
+  dialUsb?: number;
+  modes: string;
+  maxPower?: string;
+}
+
+/**
+ * Kind of a usage marker within a band
+ */
+export type BandUsageType =
+  | 'beacon'
+  | 'calling'
+  | 'activity'
+  | 'contest'
+  | 'dx'
+  | 'emergency'
+  | 'satellite'
+  | 'repeater';
+
+/**
+ * Usage marker: a single frequency (start === end) or a range
+ */
+export interface BandUsage {
+  type: BandUsageType;
+  start: number;
+  end: number;
+  description: string;
+}
+
+/**
+ * Allocation status of a band in Austria
+ */
+export type BandStatus = 'primary' | 'secondary';
+
+/**
+ * Band plan entry for one amateur band
+ */
+export interface BandPlan {
+  start: number;
+  end: number;
+  unit: BandUnit;
+  status: BandStatus;
+  modes: string;
+  maxPower: string;
+  notes?: string;
+  segments: BandSegment[];
+  usage: BandUsage[];
+  channels?: BandChannel[];
+}
+
+/**
+ * Countries with a band plan for guest operation under CEPT T/R 61-01
+ */
+export type CountryCode = 'OE' | 'DL' | 'HB9' | 'I' | 'OK' | 'OM' | 'S5' | 'HA';
+
+/**
+ * Deviation of a national band from the Austrian band plan. Segments,
+ * usage markers and channels are clipped to changed band edges.
+ */
+export interface BandOverride {
+  start?: number;
+  end?: number;
+  status?: BandStatus;
+  maxPower?: string;
+  notes?: string;
+  channelised?: boolean;
+}
+
+/**
+ * National band plan of a CEPT country, expressed as deviations from the
+ * Austrian band plan
+ */
+export interface CountryBandPlan {
+  code: CountryCode;
+  name: string;
+  maxPower: string;
+  ceptNovice: boolean;
+  bands: Record<string, BandOverride | null>;
+  notes: string[];
+}
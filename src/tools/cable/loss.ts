@@ -0,0 +1,143 @@
+/**
+ * Cable Loss
+ *
+ * Attenuation of coaxial cables from a conductor-plus-dielectric loss
+ * model fitted to the datasheet values in data/cables.json
+ */
+
+import { getDataset } from '../../data/index.js';
+import { CableLossEstimate, CableModel, CableSpec } from './types.js';
+
+/**
+ * Above this frequency the cables in the table are outside their specification
+ */
+export const CABLE_MAX_SPEC_MHZ = 6000;
+
+/**
+ * Get the datasheet values of all cables
+ */
+export function getCables(): Record<string, CableSpec> {
+  return getDataset('cables').cables;
+}
+
+/**
+ * Minimum uncertainty of a model value, for the tolerance of the datasheets
+ */
+const MIN_UNCERTAINTY = 0.05;
+
+/**
+ * Additional uncertainty per octave outside the datasheet points
+ */
+const EXTRAPOLATION_UNCERTAINTY_PER_OCTAVE = 0.15;
+
+const modelCache = new WeakMap<Record<string, number>, CableModel>();
+
+/**
+ * Least-squares fit of k1 and k2 to the datasheet points, weighted by the
+ * relative error. A negative coefficient is dropped and the other one is
+ * fitted alone, so the model never decreases with frequency.
+ */
+export function fitCableModel(cableData: Record<string, number>): CableModel {
+  const cached = modelCache.get(cableData);
+  if (cached) return cached;
+
+  const points = Object.entries(cableData).map(([f, loss]) => ({ f: Number(f), loss }));
+  let a11 = 0, a12 = 0, a22 = 0, b1 = 0, b2 = 0;
+  for (const { f, loss } of points) {
+    const x1 = Math.sqrt(f) / loss;
+    const x2 = f / loss;
+    a11 += x1 * x1;
+    a12 += x1 * x2;
+    a22 += x2 * x2;
+    b1 += x1;
+    b2 += x2;
+  }
+
+  const det = a11 * a22 - a12 * a12;
+  let k1 = (b1 * a22 - b2 * a12) / det;
+  let k2 = (a11 * b2 - a12 * b1) / det;
+  if (!(k2 >= 0)) {
+    k1 = b1 / a11;
+    k2 = 0;
+  } else if (!(k1 >= 0)) {
+    k1 = 0;
+    k2 = b2 / a22;
+  }
+
+  const frequencies = points.map(p => p.f);
+  const model: CableModel = {
+    k1,
+    k2,
+    minFrequencyMhz: Math.min(...frequencies),
+    maxFrequencyMhz: Math.max(...frequencies),
+    maxDeviation: Math.max(...points.map(({ f, loss }) => Math.abs((k1 * Math.sqrt(f) + k2 * f) / loss - 1))),
+  };
+  modelCache.set(cableData, model);
+  return model;
+}
+
+/**
+ * Attenuation in dB/100m at a frequency from the fitted model. Outside the
+ * datasheet points the uncertainty grows with the distance in octaves.
+ */
+export function estimateCableLoss(cableData: Record<string, number>, frequencyMhz: number): CableLossEstimate {
+  const model = fitCableModel(cableData);
+  const dbPer100m = model.k1 * Math.sqrt(frequencyMhz) + model.k2 * frequencyMhz;
+
+  const octavesOutside = frequencyMhz > model.maxFrequencyMhz
+    ? Math.log2(frequencyMhz / model.maxFrequencyMhz)
+    : frequencyMhz < model.minFrequencyMhz
+      ? Math.log2(model.minFrequencyMhz / frequencyMhz)
+      : 0;
+  const uncertainty = Math.max(MIN_UNCERTAINTY, model.maxDeviation) + octavesOutside * EXTRAPOLATION_UNCERTAINTY_PER_OCTAVE;
+
+  return {
+    dbPer100m,
+    minDbPer100m: dbPer100m * Math.max(0, 1 - uncertainty),
+    maxDbPer100m: dbPer100m * (1 + uncertainty),
+    uncertainty,
+    extrapolated: octavesOutside > 0,
+  };
+}
+
+/**
+ * Total loss in dB of a cable run, or null for an unknown cable type
+ */
+export function cableLossDb(cableType: string, lengthM: number, frequencyMhz: number): number | null {
+  const cable = getCables()[cableType];
+  if (!cable) return null;
+  return (estimateCableLoss(cable.attenuation, frequencyMhz).dbPer100m * lengthM) / 100;
+}
+
+/**
+ * Maximum continuous power in W at a frequency. Between the datasheet
+ * points the rating is interpolated on a log-log scale; outside them it is
+ * scaled inversely with the attenuation, since the rating is limited by
+ * the heat the cable can dissipate.
+ */
+export function maxPowerWatts(cable: CableSpec, frequencyMhz: number): number {
+  const points = Object.entries(cable.max_power_w)
+    .map(([f, watts]) => ({ f: Number(f), watts }))
+    .sort((a, b) => a.f - b.f);
+  const first = points[0];
+  const last = points[points.length - 1];
+
+  const scaled = (point: { f: number; watts: number }) =>
+    point.watts * estimateCableLoss(cable.attenuation, point.f).dbPer100m / estimateCableLoss(cable.attenuation, frequencyMhz).dbPer100m;
+  if (frequencyMhz <= first.f) return scaled(first);
+  if (frequencyMhz >= last.f) return scaled(last);
+
+  const upperIndex = points.findIndex(p => p.f > frequencyMhz);
+  const lower = points[upperIndex - 1];
+  const upper = points[upperIndex];
+  const ratio = Math.log(frequencyMhz / lower.f) / Math.log(upper.f / lower.f);
+  return lower.watts * Math.pow(upper.watts / lower.watts, ratio);
+}
+
+/**
+ * Mismatch loss in dB at an SWR: the reflected share of the power
+ */
+export function mismatchLossDb(swr: number): number {
+  const gamma = (swr - 1) / (swr + 1);
+  return -10 * Math.log10(1 - gamma * gamma);
+}
@@ -0,0 +1,49 @@
+/**
+ * Line Loss with SWR
+ *
+ * Extra loss of a transmission line operated with a standing wave, after
+ * the ARRL Antenna Book: with the matched loss ML (a = 10^(ML/10)) and the
+ * reflection coefficient Γ at the antenna, the total loss is
+ * 10·log10((a² - Γ²) / (a·(1 - Γ²))). The reflection coefficient falls by
+ * the round-trip loss towards the transmitter, so the SWR read in the shack
+ * is lower than at the antenna.
+ */
+
+import { MismatchedLine, SwrLocation } from './types.js';
+
+/**
+ * Magnitude of the reflection coefficient at an SWR
+ */
+export function reflectionCoefficient(swr: number): number {
+  return (swr - 1) / (swr + 1);
+}
+
+/**
+ * SWR at a reflection coefficient magnitude
+ */
+export function swrFromReflection(gamma: number): number {
+  return (1 + gamma) / (1 - gamma);
+}
+
+/**
+ * Loss of a line with the matched loss in dB and an SWR measured at the
+ * antenna or at the transmitter end. Returns null if an SWR at the
+ * transmitter is impossible for the line loss (the antenna would reflect
+ * more than everything).
+ */
+export function mismatchedLineLoss(matchedLossDb: number, swr: number, location: SwrLocation): MismatchedLine | null {
+  const a = Math.pow(10, matchedLossDb / 10);
+  const gammaAntenna = location === 'antenna' ? reflectionCoefficient(swr) : reflectionCoefficient(swr) * a;
+  if (gammaAntenna >= 1) return null;
+
+  const gammaTransmitter = gammaAntenna / a;
+  const totalLossDb = 10 * Math.log10((a * a - gammaAntenna * gammaAntenna) / (a * (1 - gammaAntenna * gammaAntenna)));
+
+  return {
+    matchedLossDb,
+    totalLossDb,
+    additionalLossDb: totalLossDb - matchedLossDb,
+    swrAtAntenna: swrFromReflection(gammaAntenna),
+    swrAtTransmitter: swrFromReflection(gammaTransmitter),
+  };
+}
@@ -0,0 +1,77 @@
+/**
+ * Cable Types
+ *
+ * Types for the transmission line data in data/cables.json and the fitted
+ * attenuation model
+ */
+
+/**
+ * Coaxial cable or balanced two-wire line
+ */
+export type CableKind = 'coax' | 'balanced';
+
+export const CABLE_KIND_NAMES: Record<CableKind, string> = {
+  coax: 'Koaxialkabel',
+  balanced: 'Zweidrahtleitung',
+};
+
+/**
+ * Datasheet values of one cable type. Frequency tables map MHz to the value.
+ */
+export interface CableSpec {
+  description: string;
+  kind: CableKind;
+  impedance_ohm: number;
+  velocity_factor: number;
+  /** Outer diameter, for balanced lines the width */
+  outer_diameter_mm: number;
+  min_bend_radius_mm: number;
+  weight_g_per_m: number;
+  /** Maximum continuous power in W */
+  max_power_w: Record<string, number>;
+  /** Attenuation in dB/100m */
+  attenuation: Record<string, number>;
+}
+
+/**
+ * Fitted attenuation model α(f) = k1·√f + k2·f in dB/100m (f in MHz).
+ * The √f term covers the conductor (skin effect) losses, the linear term
+ * the dielectric losses.
+ */
+export interface CableModel {
+  k1: number;
+  k2: number;
+  minFrequencyMhz: number;
+  maxFrequencyMhz: number;
+  /** Largest relative deviation of the fit from the datasheet points */
+  maxDeviation: number;
+}
+
+/**
+ * Attenuation estimate with confidence range
+ */
+export interface CableLossEstimate {
+  dbPer100m: number;
+  minDbPer100m: number;
+  maxDbPer100m: number;
+  /** Relative uncertainty of the estimate (0.05 = ±5 %) */
+  uncertainty: number;
+  extrapolated: boolean;
+}
+
+/**
+ * Where an SWR value was measured
+ */
+export type SwrLocation = 'antenna' | 'transmitter';
+
+/**
+ * Loss of a mismatched line
+ */
+export interface MismatchedLine {
+  matchedLossDb: number;
+  /** Total line loss including the extra loss caused by the SWR */
+  totalLossDb: number;
+  additionalLossDb: number;
+  swrAtAntenna: number;
+  swrAtTransmitter: number;
+}
@@ -0,0 +1,19 @@
+/**
+ * Callsign Geocoding
+ *
+ * Approximate station location of a callsign entry from its postal code,
+ * using the offline postal code gazetteer
+ */
+
+import { geocodePlz, PlzEntry } from '../../geo/gazetteer.js';
+import { ParsedCallsign } from './types.js';
+
+/**
+ * Geocode a callsign entry by its postal code. Hidden entries and entries
+ * without a postal code are never located. Coordinates are the centre of
+ * the place, not the station address.
+ */
+export function geocodeCallsign(entry: ParsedCallsign): PlzEntry | null {
+  if (entry.isHidden || !entry.plz) return null;
+  return geocodePlz(entry.plz);
+}
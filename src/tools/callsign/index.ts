@@ -13,6 +13,27 @@ import { generateSuggestions } from './suggest.js';
 import { validateCallsign, getDistrictName, getLicenseClassName } from './validate.js';
 import { getDatabaseInfo, getDatabaseStats } from './sources/local.js';
 import { DISTRICTS, LICENSE_CLASSES } from './types.js';
+import { geocodeCallsign } from './geocode.js';
+import { findNearbyCallsigns } from './nearby.js';
+import { getDataInfo } from '../../data/index.js';
+import { validateLocator, normalizeLocator, locatorToLatLon, latLonToLocator } from '../../geo/locator.js';
+import { geocodePlz } from '../../geo/gazetteer.js';
+import { lookupDxcc, formatDxcc } from '../dxcc/lookup.js';
+import { getCtyInfo } from '../dxcc/cty.js';
+
+/**
+ * DXCC entity of a foreign callsign. Returns undefined for Austrian calls
+ * and when cty.dat is not available, so the lookup itself never fails.
+ */
+function getForeignDxcc(callsign: string): Record<string, unknown> | undefined {
+  try {
+    const result = lookupDxcc(callsign);
+    if (!result || result.entity.primaryPrefix === 'OE') return undefined;
+    return { ...formatDxcc(result), dataSource: getCtyInfo() };
+  } catch {
+    return undefined;
+  }
+}
 
 /**
  * Register all callsign tools with the MCP server
@@ -23,7 +44,7 @@ export function registerCallsignTools(server: McpServer): void {
   // --------------------------------------------------------------------------
   server.tool(
     'callsign_lookup',
-    'Sucht ein österreichisches Amateurfunkrufzeichen und gibt Inhaberinformationen zurück. Primäre Quelle: offizielle fb.gv.at Liste, mit Fallback auf QRZ.com und HamQTH.',
+    'Sucht ein österreichisches Amateurfunkrufzeichen und gibt Inhaberinformationen zurück, bei nicht versteckten Einträgen inkl. ungefährem Standort (Koordinaten und Locator aus der PLZ). Primäre Quelle: offizielle fb.gv.at Liste, mit Fallback auf QRZ.com und HamQTH. Ausländische Rufzeichen enthalten zusätzlich DXCC-Gebiet, Kontinent und Zonen aus cty.dat.',
     {
       callsign: z.string().describe('Das zu suchende Rufzeichen (z.B. "OE8YML")'),
       include_address: z.boolean().default(false).describe('Adresse inkludieren wenn verfügbar'),
@@ -42,6 +63,7 @@ export function registerCallsignTools(server: McpServer): void {
                 source: result.source,
                 warning: result.warning,
                 message: 'Rufzeichen nicht gefunden',
+                dxcc: getForeignDxcc(callsign),
               }, null, 2),
             }],
           };
@@ -68,6 +90,29 @@ export function registerCallsignTools(server: McpServer): void {
           response.address = data.address;
         }
 
+        // Approximate location from the postal code, never for hidden entries.
+        // The gazetteer only covers Austria, so QRZ/HamQTH results are not located.
+        const location = result.source === 'fb' ? geocodeCallsign(data) : null;
+        if (location) {
+          response.location = {
+            lat: location.lat,
+            lon: location.lon,
+            locator: latLonToLocator(location, 6),
+            gemeinde: location.gemeinde,
+            bezirk: location.bezirk,
+            bundesland: location.bundesland,
+            plz: location.plz,
+            approximate: true,
+            hint: 'Ortsmittelpunkt zur Postleitzahl - nicht die Stationsadresse',
+            dataSource: getDataInfo('plz'),
+          };
+        }
+
+        const dxcc = getForeignDxcc(data.callsign);
+        if (dxcc) {
+          response.dxcc = dxcc;
+        }
+
         if (result.warning) {
           response.warning = result.warning;
         }
@@ -259,6 +304,129 @@ export function registerCallsignTools(server: McpServer): void {
     }
   );
 
+  // --------------------------------------------------------------------------
+  // TOOL: Callsign Nearby
+  // --------------------------------------------------------------------------
+  server.tool(
+    'callsign_nearby',
+    'Findet lizenzierte Amateurfunkstationen im Umkreis eines Standorts (Locator, Koordinaten oder PLZ), sortiert nach Entfernung. Standorte sind Gemeindemittelpunkte laut PLZ; versteckte Einträge werden nie angezeigt.',
+    {
+      locator: z.string().optional().describe('Maidenhead-Locator des Standorts (z.B. "JN76TO")'),
+      lat: z.number().min(-90).max(90).optional().describe('Breitengrad in Dezimalgrad'),
+      lon: z.number().min(-180).max(180).optional().describe('Längengrad in Dezimalgrad'),
+      plz: z.string().optional().describe('Österreichische Postleitzahl des Standorts (z.B. "9500")'),
+      radius_km: z.number().positive().max(200).default(15).describe('Suchradius in km'),
+      license_class: z.number().int().refine(c => c in LICENSE_CLASSES, 'Lizenzklasse muss 1, 3 oder 4 sein').optional().describe('Nur diese Lizenzklasse (1, 3 oder 4)'),
+      club: z.boolean().optional().describe('true = nur Klubstationen, false = keine Klubstationen'),
+      district: z.number().int().min(0).max(9).optional().describe('Nur dieser Bezirk (0-9)'),
+      include_address: z.boolean().default(false).describe('Adresse inkludieren wenn verfügbar'),
+      limit: z.number().int().min(1).max(500).default(100).describe('Maximale Anzahl Ergebnisse'),
+    },
+    async ({ locator, lat, lon, plz, radius_km, license_class, club, district, include_address, limit }) => {
+      let position: { lat: number; lon: number };
+      let origin: Record<string, unknown>;
+
+      if (locator !== undefined) {
+        const locatorError = validateLocator(locator);
+        if (locatorError) {
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify({
+                error: locatorError,
+              }, null, 2),
+            }],
+          };
+        }
+        position = locatorToLatLon(locator);
+        origin = { locator: normalizeLocator(locator) };
+      } else if (lat !== undefined && lon !== undefined) {
+        position = { lat, lon };
+        origin = { locator: latLonToLocator(position, 6) };
+      } else if (plz !== undefined) {
+        const location = geocodePlz(plz);
+        if (!location) {
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify({
+                error: `Postleitzahl "${plz}" ist ungültig oder nicht im PLZ-Verzeichnis enthalten`,
+              }, null, 2),
+            }],
+          };
+        }
+        position = { lat: location.lat, lon: location.lon };
+        origin = {
+          plz: location.plz,
+          gemeinde: location.gemeinde,
+          locator: latLonToLocator(position, 6),
+        };
+      } else {
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              error: 'Standort fehlt: locator, lat und lon oder plz angeben',
+            }, null, 2),
+          }],
+        };
+      }
+
+      try {
+        const { results, unlocated } = await findNearbyCallsigns(position, radius_km, {
+          district,
+          licenseClass: license_class,
+          club,
+        });
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              position: {
+                ...origin,
+                lat: Math.round(position.lat * 10000) / 10000,
+                lon: Math.round(position.lon * 10000) / 10000,
+              },
+              radius_km,
+              filter: {
+                licenseClass: license_class !== undefined ? getLicenseClassName(license_class) : null,
+                club: club ?? null,
+                district: district !== undefined ? `OE${district} (${getDistrictName(district)})` : null,
+              },
+              total: results.length,
+              callsigns: results.slice(0, limit).map(({ entry, location, distanceKm }) => ({
+                callsign: entry.callsign,
+                name: entry.name,
+                qth: entry.qth,
+                plz: entry.plz || null,
+                address: include_address && entry.address ? entry.address : undefined,
+                district: entry.district,
+                licenseClass: entry.licenseClass,
+                isClub: entry.isClub,
+                gemeinde: location.gemeinde,
+                locator: latLonToLocator(location, 6),
+                distance_km: Math.round(distanceKm * 10) / 10,
+              })),
+              unlocated,
+              hint: 'Entfernung bezogen auf den Ortsmittelpunkt laut PLZ, nicht auf die Stationsadresse. Versteckte Einträge sind nicht enthalten; Einträge ohne PLZ oder mit einer PLZ, die nicht im PLZ-Verzeichnis enthalten ist, werden unter "unlocated" gezählt.',
+              dataSource: getDataInfo('plz'),
+            }, null, 2),
+          }],
+        };
+      } catch (error) {
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              error: `Umkreissuche fehlgeschlagen: ${(error as Error).message}`,
+            }, null, 2),
+          }],
+        };
+      }
+    }
+  );
+
   // --------------------------------------------------------------------------
   // TOOL: Callsign Database Info
   // --------------------------------------------------------------------------
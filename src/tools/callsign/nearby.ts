@@ -0,0 +1,56 @@
+/**
+ * Nearby Callsigns
+ *
+ * Finds licensed stations around a position, using the postal code
+ * centroids of the offline gazetteer. Hidden entries are never included,
+ * entries without a postal code in the gazetteer are only counted.
+ */
+
+import { LatLon } from '../../geo/types.js';
+import { distanceKm } from '../../geo/distance.js';
+import { PlzEntry } from '../../geo/gazetteer.js';
+import { geocodeCallsign } from './geocode.js';
+import { loadDatabase } from './sources/local.js';
+import { NearbyFilter, NearbyCallsign } from './types.js';
+
+/**
+ * Find all public callsign entries within a radius, sorted by distance.
+ * Also returns how many matching entries could not be located.
+ */
+export async function findNearbyCallsigns(
+  position: LatLon,
+  radiusKm: number,
+  filter: NearbyFilter
+): Promise<{ results: NearbyCallsign[]; unlocated: number }> {
+  const db = await loadDatabase();
+
+  // Many entries share a postal code, so geocode each PLZ only once
+  const locations = new Map<string, PlzEntry | null>();
+  const results: NearbyCallsign[] = [];
+  let unlocated = 0;
+
+  for (const entry of db.entries) {
+    if (entry.isHidden) continue;
+    if (filter.district !== undefined && entry.district !== filter.district) continue;
+    if (filter.licenseClass !== undefined && entry.licenseClass !== filter.licenseClass) continue;
+    if (filter.club !== undefined && entry.isClub !== filter.club) continue;
+
+    if (!locations.has(entry.plz)) {
+      locations.set(entry.plz, geocodeCallsign(entry));
+    }
+
+    const location = locations.get(entry.plz)!;
+    if (!location) {
+      unlocated++;
+      continue;
+    }
+
+    const distance = distanceKm(position, location);
+    if (distance <= radiusKm) {
+      results.push({ entry, location, distanceKm: distance });
+    }
+  }
+
+  results.sort((a, b) => a.distanceKm - b.distanceKm || a.entry.callsign.localeCompare(b.entry.callsign));
+  return { results, unlocated };
+}
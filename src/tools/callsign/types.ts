@@ -5,6 +5,7 @@
  */
 
 import { ParsedCallsign, CallsignDatabase } from './parser/types.js';
+import { PlzEntry } from '../../geo/gazetteer.js';
 
 // Re-export parser types
 export { ParsedCallsign, CallsignDatabase } from './parser/types.js';
@@ -47,6 +48,24 @@ export interface AvailabilityResult {
   }[];
 }
 
+/**
+ * Filter for the nearby search
+ */
+export interface NearbyFilter {
+  district?: number;
+  licenseClass?: number;
+  club?: boolean;
+}
+
+/**
+ * Callsign entry found by the nearby search
+ */
+export interface NearbyCallsign {
+  entry: ParsedCallsign;
+  location: PlzEntry;
+  distanceKm: number;
+}
+
 /**
  * Callsign suggestion with scoring
  */
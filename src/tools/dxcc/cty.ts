@@ -0,0 +1,230 @@
+/**
+ * cty.dat Parser
+ *
+ * Parses the country file format maintained at country-files.com (AD1C)
+ * from data/cty.dat. The file is read on first use and re-read when it
+ * changes on disk; a file that fails to parse on reload is rejected and
+ * the previous version stays active.
+ *
+ * Format: one record per entity, terminated by ";"
+ *
+ *   Austria:  15:  28:  EU:  47.33:  -13.33:  -1.0:  OE:
+ *       OE,=4U1VIC;
+ *
+ * Longitude is positive west and the time offset is the negated UTC
+ * offset. Prefixes starting with "=" are exact callsigns; (n) overrides
+ * the CQ zone, [n] the ITU zone, <lat/lon> the position, {XX} the
+ * continent and ~n~ the time offset. A primary prefix starting with "*"
+ * marks an entity that only counts for the DARC WAE list.
+ */
+
+import { readFileSync, statSync } from 'fs';
+import path from 'path';
+
+import { Continent, CONTINENT_NAMES, CtyDatabase, CtyInfo, DxccEntity, DxccIndex, DxccPrefix } from './types.js';
+
+const CTY_FILE = 'cty.dat';
+
+/**
+ * Version tag that country-files.com adds as a pseudo callsign
+ */
+const VERSION_PATTERN = /^=VER(\d{8})$/;
+
+const PREFIX_PATTERN = /^(=?)([A-Z0-9/]+)(.*)$/;
+const OVERRIDE_PATTERN = /\((\d+)\)|\[(\d+)\]|<(-?[\d.]+)\/(-?[\d.]+)>|\{([A-Z]{2})\}|~(-?[\d.]+)~/g;
+
+let cached: { database: CtyDatabase; mtimeMs: number } | null = null;
+
+/**
+ * Get the cty.dat file path
+ */
+function getCtyPath(): string {
+  return path.join(process.cwd(), 'data', CTY_FILE);
+}
+
+function isContinent(value: string): value is Continent {
+  return value in CONTINENT_NAMES;
+}
+
+/**
+ * Parse a number field of an entity record
+ */
+function parseNumber(value: string, field: string, record: string): number {
+  const number = Number(value.trim());
+  if (value.trim() === '' || !Number.isFinite(number)) {
+    throw new Error(`${record}: ${field} "${value.trim()}" ist keine Zahl`);
+  }
+  return number;
+}
+
+/**
+ * Parse one prefix token ("OE", "=4U1VIC", "VE7(3)[2]")
+ */
+function parsePrefix(token: string, entity: DxccEntity, record: string): DxccPrefix {
+  const match = token.match(PREFIX_PATTERN);
+  if (!match) {
+    throw new Error(`${record}: Präfix "${token}" ist ungültig`);
+  }
+
+  const [, exact, prefix, modifiers] = match;
+  const result: DxccPrefix = { prefix, exact: exact === '=', entity };
+
+  const rest = modifiers.replace(OVERRIDE_PATTERN, (_all, cq, itu, lat, lon, continent, offset) => {
+    if (cq !== undefined) result.cqZone = Number(cq);
+    if (itu !== undefined) result.ituZone = Number(itu);
+    if (lat !== undefined) {
+      result.lat = Number(lat);
+      result.lon = -Number(lon);
+    }
+    if (continent !== undefined) {
+      if (!isContinent(continent)) {
+        throw new Error(`${record}: Kontinent "${continent}" bei "${token}" ist ungültig`);
+      }
+      result.continent = continent;
+    }
+    if (offset !== undefined) result.utcOffset = -Number(offset);
+    return '';
+  });
+  if (rest !== '') {
+    throw new Error(`${record}: Präfix "${token}" ist ungültig`);
+  }
+  return result;
+}
+
+function createIndex(): DxccIndex {
+  return { prefixes: new Map(), exactCalls: new Map(), maxPrefixLength: 0 };
+}
+
+function addToIndex(index: DxccIndex, prefix: DxccPrefix): void {
+  if (prefix.exact) {
+    index.exactCalls.set(prefix.prefix, prefix);
+  } else {
+    index.prefixes.set(prefix.prefix, prefix);
+    index.maxPrefixLength = Math.max(index.maxPrefixLength, prefix.prefix.length);
+  }
+}
+
+/**
+ * Parse the content of a cty.dat file
+ *
+ * @throws Error with a German message describing the first invalid record
+ */
+export function parseCtyDat(content: string): CtyDatabase {
+  const entities: DxccEntity[] = [];
+  const entityPrefixes: DxccPrefix[][] = [];
+  let version: string | null = null;
+
+  const records = content.split(';').map(r => r.trim()).filter(r => r !== '');
+  records.forEach((text, i) => {
+    const fields = text.split(':');
+    const record = `Eintrag ${i + 1} ("${fields[0].trim()}")`;
+    if (fields.length !== 9) {
+      throw new Error(`${record}: erwartet 8 Felder und eine Präfixliste, gefunden ${fields.length - 1} Felder`);
+    }
+
+    const [name, cq, itu, continent, lat, lon, offset, primary, list] = fields.map(f => f.trim());
+    if (!isContinent(continent)) {
+      throw new Error(`${record}: Kontinent "${continent}" ist ungültig`);
+    }
+
+    const entity: DxccEntity = {
+      name,
+      primaryPrefix: primary.replace(/^\*/, ''),
+      continent,
+      cqZone: parseNumber(cq, 'CQ-Zone', record),
+      ituZone: parseNumber(itu, 'ITU-Zone', record),
+      lat: parseNumber(lat, 'Breite', record),
+      lon: -parseNumber(lon, 'Länge', record),
+      utcOffset: -parseNumber(offset, 'Zeitzone', record),
+      waeOnly: primary.startsWith('*'),
+    };
+
+    const prefixes: DxccPrefix[] = [];
+    for (const token of list.split(/[\s,]+/).filter(t => t !== '')) {
+      const versionTag = token.match(VERSION_PATTERN);
+      if (versionTag) {
+        version = versionTag[1];
+        continue;
+      }
+      prefixes.push(parsePrefix(token, entity, record));
+    }
+
+    entities.push(entity);
+    entityPrefixes.push(prefixes);
+  });
+
+  if (entities.length === 0) {
+    throw new Error('keine Einträge gefunden');
+  }
+
+  const dxcc = createIndex();
+  const wae = createIndex();
+  entityPrefixes.forEach((prefixes, i) => {
+    for (const prefix of prefixes) {
+      if (!entities[i].waeOnly) addToIndex(dxcc, prefix);
+    }
+  });
+  // WAE entries are added last so they take precedence in the WAE index
+  for (const waeOnly of [false, true]) {
+    entityPrefixes.forEach((prefixes, i) => {
+      if (entities[i].waeOnly !== waeOnly) return;
+      for (const prefix of prefixes) addToIndex(wae, prefix);
+    });
+  }
+
+  return { version, entities, dxcc, wae };
+}
+
+/**
+ * Get the parsed cty.dat, re-reading it when the file changed on disk
+ */
+export function loadCty(): CtyDatabase {
+  const ctyPath = getCtyPath();
+
+  let mtimeMs: number;
+  try {
+    mtimeMs = statSync(ctyPath).mtimeMs;
+  } catch (error) {
+    if (cached) return cached.database;
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new Error(`DXCC-Datei nicht gefunden: ${ctyPath}. Aktuelle cty.dat von https://www.country-files.com herunterladen.`);
+    }
+    throw error;
+  }
+
+  if (cached && cached.mtimeMs === mtimeMs) {
+    return cached.database;
+  }
+
+  try {
+    const database = parseCtyDat(readFileSync(ctyPath, 'utf-8'));
+    if (cached) {
+      console.log(`[DXCC] ${CTY_FILE} neu geladen (Version ${cached.database.version ?? 'unbekannt'} -> ${database.version ?? 'unbekannt'})`);
+    }
+    cached = { database, mtimeMs };
+  } catch (error) {
+    const message = `${CTY_FILE} ist ungültig: ${(error as Error).message}`;
+    if (!cached) {
+      throw new Error(message);
+    }
+    console.error(`[DXCC] Neuladen abgelehnt, Version ${cached.database.version ?? 'unbekannt'} bleibt aktiv:`, message);
+    // Do not retry the broken file on every lookup
+    cached.mtimeMs = mtimeMs;
+  }
+  return cached.database;
+}
+
+/**
+ * Version and source reference of the loaded cty.dat
+ */
+export function getCtyInfo(): CtyInfo {
+  const { version, entities } = loadCty();
+  return {
+    dataset: 'cty',
+    version: version ?? 'unbekannt',
+    source: `${CTY_FILE} im Format von country-files.com (AD1C), ${entities.length} Gebiete`,
+    updatedAt: version
+      ? `${version.slice(0, 4)}-${version.slice(4, 6)}-${version.slice(6, 8)}`
+      : new Date(cached!.mtimeMs).toISOString().slice(0, 10),
+  };
+}
@@ -0,0 +1,97 @@
+/**
+ * DXCC MCP Tools
+ *
+ * Tool definitions for DXCC prefix resolution from cty.dat
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+
+import { getCtyInfo } from './cty.js';
+import { lookupDxcc, formatDxcc, getLookupCall, isMaritimeOrAeroMobile, normalizeDxccCall } from './lookup.js';
+
+/**
+ * Register all DXCC tools with the MCP server
+ */
+export function registerDxccTools(server: McpServer): void {
+  // --------------------------------------------------------------------------
+  // TOOL: DXCC-Gebiet ermitteln
+  // --------------------------------------------------------------------------
+  server.tool(
+    'dxcc_lookup',
+    'Ermittelt DXCC-Gebiet, Kontinent, CQ- und ITU-Zone, Koordinaten und UTC-Abweichung zu einem Rufzeichen oder Präfix (offline aus der cty.dat von country-files.com mit allen DXCC-Gebieten; der Datenstand steht in dataSource). Berücksichtigt Sonderrufzeichen und Portabelbetrieb wie "9A/OE8YML".',
+    {
+      callsign: z.string().min(1).describe('Rufzeichen oder Präfix (z.B. "9A1A", "DL/OE8YML", "4U1VIC")'),
+    },
+    async ({ callsign }) => {
+      try {
+        const normalized = normalizeDxccCall(callsign);
+
+        if (getLookupCall(normalized) === '') {
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify({
+                error: `"${callsign}" enthält kein Rufzeichen oder Präfix`,
+              }, null, 2),
+            }],
+          };
+        }
+
+        if (isMaritimeOrAeroMobile(normalized)) {
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify({
+                callsign: normalized,
+                found: false,
+                message: 'Maritime und aeronautical mobile Stationen (/MM, /AM) zählen zu keinem DXCC-Gebiet',
+                dataSource: getCtyInfo(),
+              }, null, 2),
+            }],
+          };
+        }
+
+        const result = lookupDxcc(normalized);
+        if (!result) {
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify({
+                callsign: normalized,
+                found: false,
+                message: `Kein DXCC-Gebiet für "${getLookupCall(normalized)}" gefunden`,
+                dataSource: getCtyInfo(),
+              }, null, 2),
+            }],
+          };
+        }
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              callsign: result.callsign,
+              found: true,
+              lookupCall: result.lookupCall !== result.callsign ? result.lookupCall : undefined,
+              ...formatDxcc(result),
+              hint: result.exactMatch
+                ? 'Sonderrufzeichen mit eigenem Eintrag in cty.dat'
+                : 'Ermittelt über das längste passende Präfix - Koordinaten sind der Mittelpunkt des Gebiets',
+              dataSource: getCtyInfo(),
+            }, null, 2),
+          }],
+        };
+      } catch (error) {
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              error: `DXCC-Abfrage fehlgeschlagen: ${(error as Error).message}`,
+            }, null, 2),
+          }],
+        };
+      }
+    }
+  );
+}
@@ -0,0 +1,132 @@
+/**
+ * DXCC Lookup
+ *
+ * Resolves a callsign to its DXCC entity: exact callsigns first, then the
+ * longest matching prefix. Portable operation ("9A/OE8YML", "OE8YML/DL")
+ * is resolved to the location prefix.
+ */
+
+import { latLonToLocator } from '../../geo/locator.js';
+import { loadCty } from './cty.js';
+import { CONTINENT_NAMES, DxccIndex, DxccPrefix, DxccResult } from './types.js';
+
+/**
+ * Suffixes that do not change the location of a station
+ */
+const PORTABLE_SUFFIXES = new Set(['P', 'M', 'A', 'QRP', 'QRPP', 'LH', 'B', 'J']);
+
+/**
+ * Suffixes for maritime and aeronautical mobile, which count for no entity
+ */
+const MOBILE_SUFFIXES = new Set(['MM', 'AM']);
+
+/**
+ * Normalize a callsign for DXCC lookups
+ */
+export function normalizeDxccCall(callsign: string): string {
+  return callsign.trim().toUpperCase().replace(/\s+/g, '');
+}
+
+/**
+ * Check whether a callsign is maritime or aeronautical mobile
+ */
+export function isMaritimeOrAeroMobile(callsign: string): boolean {
+  const parts = normalizeDxccCall(callsign).split('/');
+  return parts.length > 1 && MOBILE_SUFFIXES.has(parts[parts.length - 1]);
+}
+
+/**
+ * Determine the part of a callsign that defines the location: the home
+ * call, or the shorter part for prefix/call and call/prefix combinations.
+ * Portable suffixes and call area digits ("/P", "/3") are ignored.
+ * Returns an empty string if no call part remains ("/").
+ */
+export function getLookupCall(callsign: string): string {
+  const parts = normalizeDxccCall(callsign).split('/').filter(p => p !== '');
+  const relevant = parts.filter((part, i) => i === 0 || !(PORTABLE_SUFFIXES.has(part) || /^[0-9]$/.test(part)));
+  if (relevant.length === 0) return '';
+
+  return relevant.reduce((shortest, part) => part.length < shortest.length ? part : shortest);
+}
+
+/**
+ * Find the exact callsign or longest prefix in an index
+ */
+function matchIndex(index: DxccIndex, callsign: string, lookupCall: string): DxccPrefix | null {
+  const exact = index.exactCalls.get(callsign) ?? index.exactCalls.get(lookupCall);
+  if (exact) return exact;
+
+  for (let length = Math.min(lookupCall.length, index.maxPrefixLength); length > 0; length--) {
+    const prefix = index.prefixes.get(lookupCall.slice(0, length));
+    if (prefix) return prefix;
+  }
+  return null;
+}
+
+/**
+ * Resolve a callsign or prefix to its DXCC entity. Returns null if no
+ * prefix matches, or for maritime and aeronautical mobile stations.
+ */
+export function lookupDxcc(callsign: string): DxccResult | null {
+  const normalized = normalizeDxccCall(callsign);
+  if (normalized === '' || isMaritimeOrAeroMobile(normalized)) return null;
+
+  const { dxcc, wae } = loadCty();
+  const lookupCall = getLookupCall(normalized);
+  if (lookupCall === '') return null;
+
+  let match = matchIndex(wae, normalized, lookupCall);
+  let waeEntity: string | undefined;
+  if (match?.entity.waeOnly) {
+    waeEntity = match.entity.name;
+    match = matchIndex(dxcc, normalized, lookupCall);
+  }
+  if (!match) return null;
+
+  const { entity } = match;
+  return {
+    callsign: normalized,
+    lookupCall,
+    matchedPrefix: match.prefix,
+    exactMatch: match.exact,
+    entity,
+    continent: match.continent ?? entity.continent,
+    cqZone: match.cqZone ?? entity.cqZone,
+    ituZone: match.ituZone ?? entity.ituZone,
+    lat: match.lat ?? entity.lat,
+    lon: match.lon ?? entity.lon,
+    utcOffset: match.utcOffset ?? entity.utcOffset,
+    waeEntity,
+  };
+}
+
+/**
+ * Format a UTC offset ("UTC+1", "UTC-3:30")
+ */
+function formatUtcOffset(offset: number): string {
+  const hours = Math.trunc(offset);
+  const minutes = Math.round(Math.abs(offset - hours) * 60);
+  const sign = offset < 0 ? '-' : '+';
+  return `UTC${sign}${Math.abs(hours)}${minutes ? ':' + String(minutes).padStart(2, '0') : ''}`;
+}
+
+/**
+ * Format a DXCC result for tool responses
+ */
+export function formatDxcc(result: DxccResult): Record<string, unknown> {
+  return {
+    entity: result.entity.name,
+    primaryPrefix: result.entity.primaryPrefix,
+    matchedPrefix: result.exactMatch ? `=${result.matchedPrefix}` : result.matchedPrefix,
+    continent: result.continent,
+    continentName: CONTINENT_NAMES[result.continent],
+    cqZone: result.cqZone,
+    ituZone: result.ituZone,
+    lat: result.lat,
+    lon: result.lon,
+    locator: latLonToLocator(result, 4),
+    utcOffset: result.utcOffset,
+    utcOffsetText: formatUtcOffset(result.utcOffset),
+    waeEntity: result.waeEntity,
+  };
+}
@@ -0,0 +1,102 @@
+/**
+ * DXCC Types
+ *
+ * Types for the cty.dat based DXCC prefix resolution
+ */
+
+/**
+ * Continent abbreviations as used in cty.dat
+ */
+export type Continent = 'AF' | 'AN' | 'AS' | 'EU' | 'NA' | 'OC' | 'SA';
+
+export const CONTINENT_NAMES: Record<Continent, string> = {
+  AF: 'Afrika',
+  AN: 'Antarktis',
+  AS: 'Asien',
+  EU: 'Europa',
+  NA: 'Nordamerika',
+  OC: 'Ozeanien',
+  SA: 'Südamerika',
+};
+
+/**
+ * DXCC entity (one record of cty.dat). Coordinates and UTC offset are
+ * stored east-positive, i.e. already converted from the cty.dat convention.
+ */
+export interface DxccEntity {
+  name: string;
+  primaryPrefix: string;
+  continent: Continent;
+  cqZone: number;
+  ituZone: number;
+  lat: number;
+  lon: number;
+  utcOffset: number;
+  /** Entity only counts for the DARC WAE list, not for DXCC (marked with * in cty.dat) */
+  waeOnly: boolean;
+}
+
+/**
+ * Prefix or exact callsign of an entity, with optional overrides
+ */
+export interface DxccPrefix {
+  prefix: string;
+  exact: boolean;
+  entity: DxccEntity;
+  cqZone?: number;
+  ituZone?: number;
+  lat?: number;
+  lon?: number;
+  continent?: Continent;
+  utcOffset?: number;
+}
+
+/**
+ * Prefixes and exact callsigns for fast lookup
+ */
+export interface DxccIndex {
+  prefixes: Map<string, DxccPrefix>;
+  exactCalls: Map<string, DxccPrefix>;
+  maxPrefixLength: number;
+}
+
+/**
+ * Parsed cty.dat file
+ */
+export interface CtyDatabase {
+  version: string | null;
+  entities: DxccEntity[];
+  /** DXCC entities only */
+  dxcc: DxccIndex;
+  /** DXCC and WAE entities, WAE entries take precedence */
+  wae: DxccIndex;
+}
+
+/**
+ * Result of a DXCC lookup with overrides applied
+ */
+export interface DxccResult {
+  callsign: string;
+  lookupCall: string;
+  matchedPrefix: string;
+  exactMatch: boolean;
+  entity: DxccEntity;
+  continent: Continent;
+  cqZone: number;
+  ituZone: number;
+  lat: number;
+  lon: number;
+  utcOffset: number;
+  waeEntity?: string;
+}
+
+/**
+ * Version and source reference of the loaded cty.dat, included in tool
+ * responses
+ */
+export interface CtyInfo {
+  dataset: 'cty';
+  version: string;
+  source: string;
+  updatedAt: string;
+}
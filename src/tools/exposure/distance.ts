@@ -0,0 +1,135 @@
+/**
+ * Safety Distance Calculation
+ *
+ * Far-field estimate of the distance at which the power density falls
+ * below the reference level: S = EIRP / (4π r²). The vertical pattern is
+ * approximated by a parabolic main lobe with a side lobe floor, which is
+ * conservative for typical amateur antennas.
+ */
+
+import { wavelengthM } from '../../rf/propagation.js';
+import { getReferenceLevels } from './limits.js';
+import { CategoryDistances, ExposureCategory } from './types.js';
+
+/**
+ * Isotropic solid angle in square degrees, for the beamwidth estimate
+ */
+const SQUARE_DEGREES = 41253;
+
+/**
+ * Vertical beamwidth of a half-wave dipole; used as the upper limit of
+ * the estimate so that low-gain antennas are not treated as narrower
+ */
+const DIPOLE_BEAMWIDTH_DEG = 78;
+
+/**
+ * Maximum attenuation outside the main lobe (side lobe floor)
+ */
+const SIDE_LOBE_FLOOR_DB = 20;
+
+/**
+ * Reference height of the human body for points at ground level
+ */
+export const BODY_REFERENCE_HEIGHT_M = 2;
+
+/**
+ * Resolution of the ground level scan
+ */
+const GROUND_SCAN_STEP_M = 0.05;
+
+/**
+ * EIRP in watts from transmitter power, cable loss and antenna gain
+ */
+export function eirpWatts(powerWatts: number, cableLossDb: number, antennaGainDbi: number): number {
+  return powerWatts * Math.pow(10, (antennaGainDbi - cableLossDb) / 10);
+}
+
+/**
+ * Distance in metres at which an EIRP produces the given power density
+ */
+export function farFieldDistance(eirp: number, powerDensityWm2: number): number {
+  return Math.sqrt(eirp / (4 * Math.PI * powerDensityWm2));
+}
+
+/**
+ * Main beam safe distances for both exposure categories
+ */
+export function safeDistances(eirp: number, frequencyMhz: number): CategoryDistances {
+  const levels = getReferenceLevels(frequencyMhz);
+  return {
+    general_public: farFieldDistance(eirp, levels.general_public.powerDensityWm2),
+    occupational: farFieldDistance(eirp, levels.occupational.powerDensityWm2),
+  };
+}
+
+/**
+ * Conservative estimate of the half-power beamwidth from the gain:
+ * assumes equal beamwidths in both planes, capped at the dipole
+ */
+export function estimateBeamwidth(antennaGainDbi: number): number {
+  const gain = Math.pow(10, antennaGainDbi / 10);
+  return Math.min(DIPOLE_BEAMWIDTH_DEG, Math.sqrt(SQUARE_DEGREES / gain));
+}
+
+/**
+ * Attenuation in dB of the vertical pattern at an angle below the main beam
+ */
+export function patternAttenuationDb(angleDeg: number, beamwidthDeg: number): number {
+  return Math.min(SIDE_LOBE_FLOOR_DB, 12 * Math.pow(angleDeg / beamwidthDeg, 2));
+}
+
+/**
+ * Attenuation in dB of the combined vertical and horizontal pattern
+ */
+export function combinedAttenuationDb(
+  verticalAngleDeg: number,
+  verticalBeamwidthDeg: number,
+  horizontalAngleDeg: number,
+  horizontalBeamwidthDeg: number | null
+): number {
+  const horizontal = horizontalBeamwidthDeg === null ? 0 : patternAttenuationDb(horizontalAngleDeg, horizontalBeamwidthDeg);
+  return Math.min(SIDE_LOBE_FLOOR_DB, patternAttenuationDb(verticalAngleDeg, verticalBeamwidthDeg) + horizontal);
+}
+
+/**
+ * Safe slant distance at an angle below the main beam
+ */
+export function downtiltDistance(mainBeamDistance: number, angleDeg: number, beamwidthDeg: number): number {
+  return mainBeamDistance * Math.pow(10, -patternAttenuationDb(angleDeg, beamwidthDeg) / 20);
+}
+
+/**
+ * Horizontal distance from the antenna mast beyond which a person at
+ * ground level (head at BODY_REFERENCE_HEIGHT_M) is outside the safety
+ * distance. Returns 0 if the limit is met everywhere at ground level.
+ */
+export function groundLevelDistance(mainBeamDistance: number, antennaHeightM: number, beamwidthDeg: number): number {
+  const height = antennaHeightM - BODY_REFERENCE_HEIGHT_M;
+  if (height <= 0) return mainBeamDistance;
+
+  let exposedUntil = 0;
+  for (let x = 0; x <= mainBeamDistance; x += GROUND_SCAN_STEP_M) {
+    const slant = Math.hypot(x, height);
+    const angle = Math.atan2(height, x) * 180 / Math.PI;
+    if (slant < downtiltDistance(mainBeamDistance, angle, beamwidthDeg)) {
+      exposedUntil = x + GROUND_SCAN_STEP_M;
+    }
+  }
+  return exposedUntil;
+}
+
+/**
+ * Distance below which the far-field formula is not valid: the larger of
+ * the reactive near field λ/2π and the Fraunhofer distance 2D²/λ. Without
+ * a given antenna size a half-wave element is assumed.
+ */
+export function nearFieldBoundary(frequencyMhz: number, antennaSizeM?: number): number {
+  const wavelength = wavelengthM(frequencyMhz);
+  const size = antennaSizeM ?? wavelength / 2;
+  return Math.max(wavelength / (2 * Math.PI), (2 * size * size) / wavelength);
+}
+
+/**
+ * Exposure categories in display order
+ */
+export const EXPOSURE_CATEGORIES: ExposureCategory[] = ['general_public', 'occupational'];
@@ -0,0 +1,317 @@
+/**
+ * RF Exposure MCP Tools
+ *
+ * Tool definitions for safety distances according to ICNIRP 1998 /
+ * ÖNORM E 8850
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+
+import { getDataInfo } from '../../data/index.js';
+import { wavelengthM } from '../../rf/propagation.js';
+import { resolveStationFeed } from '../station/feed.js';
+import { getReferenceLevels, describeReferenceRange } from './limits.js';
+import {
+  eirpWatts,
+  safeDistances,
+  estimateBeamwidth,
+  patternAttenuationDb,
+  downtiltDistance,
+  groundLevelDistance,
+  nearFieldBoundary,
+  EXPOSURE_CATEGORIES,
+  BODY_REFERENCE_HEIGHT_M,
+} from './distance.js';
+import { assessSite } from './site.js';
+import { renderHtmlReport, renderMarkdownReport } from './report.js';
+import {
+  EXPOSURE_CATEGORY_NAMES,
+  ExposureCategory,
+  ExposureMode,
+  MODE_DUTY_FACTORS,
+  SiteTransmitter,
+} from './types.js';
+
+/**
+ * Angles below the main beam listed in the downtilt table
+ */
+const DOWNTILT_ANGLES_DEG = [0, 10, 20, 30, 45, 60, 90];
+
+const exposureModes = Object.keys(MODE_DUTY_FACTORS) as [ExposureMode, ...ExposureMode[]];
+
+/**
+ * Round a distance up to 10 cm, so the result is never optimistic
+ */
+function roundUp(metres: number): number {
+  return Math.ceil(metres * 10) / 10;
+}
+
+/**
+ * Round an exposure ratio to 0.1 %
+ */
+function roundRatio(ratio: number): number {
+  return Math.round(ratio * 1000) / 1000;
+}
+
+const siteTransmitterSchema = z.object({
+  name: z.string().max(50).optional().describe('Bezeichnung, z.B. "KW-Dipol"'),
+  frequency_mhz: z.number().min(0.1).max(300000).describe('Frequenz in MHz'),
+  power_watts: z.number().min(0.001).max(2000).describe('Sendeleistung (PEP) in Watt'),
+  mode: z.enum(exposureModes).default('SSB').describe('Betriebsart für den typischen Tastgrad'),
+  duty_factor: z.number().min(0.01).max(1).optional().describe('Eigener Tastgrad (0.01-1)'),
+  cable_type: z.string().optional().describe('Kabeltyp aus der Kabeldatenbank (z.B. "Ecoflex10")'),
+  cable_length_m: z.number().min(0).max(1000).optional().describe('Kabellänge in Metern, zusammen mit cable_type'),
+  cable_loss_db: z.number().min(0).max(50).optional().describe('Kabelverlust in dB, alternativ zu cable_type'),
+  antenna_type: z.string().optional().describe('Antennentyp aus der Antennendatenbank (z.B. "yagi-5el")'),
+  antenna_gain_dbi: z.number().min(-10).max(50).optional().describe('Antennengewinn in dBi, alternativ zu antenna_type'),
+  height_m: z.number().min(0).max(500).describe('Höhe der Antenne über Grund in Metern'),
+  x_m: z.number().min(-10000).max(10000).default(0).describe('Position in Metern östlich des Bezugspunkts'),
+  y_m: z.number().min(-10000).max(10000).default(0).describe('Position in Metern nördlich des Bezugspunkts'),
+  azimuth_deg: z.number().min(0).max(360).optional().describe('Hauptstrahlrichtung in Grad; ohne Angabe Rundstrahler'),
+  horizontal_beamwidth_deg: z.number().min(1).max(360).optional().describe('Horizontaler Öffnungswinkel (-3 dB); ohne Angabe aus dem Gewinn geschätzt'),
+  vertical_beamwidth_deg: z.number().min(1).max(180).optional().describe('Vertikaler Öffnungswinkel (-3 dB); ohne Angabe aus dem Gewinn geschätzt'),
+  antenna_size_m: z.number().positive().max(100).optional().describe('Größte Abmessung der Antenne in Metern, für die Nahfeldgrenze'),
+});
+
+const evaluationPointSchema = z.object({
+  name: z.string().max(50).describe('Bezeichnung, z.B. "Balkon Nachbar"'),
+  x_m: z.number().min(-10000).max(10000).describe('Position in Metern östlich des Bezugspunkts'),
+  y_m: z.number().min(-10000).max(10000).describe('Position in Metern nördlich des Bezugspunkts'),
+  height_m: z.number().min(0).max(500).describe('Höhe des Aufenthaltsorts (Kopfhöhe) über Grund in Metern'),
+});
+
+type SiteTransmitterInput = z.infer<typeof siteTransmitterSchema>;
+
+/**
+ * Resolve cable loss and antenna gain of a transmitter from the reference
+ * data; returns an error message if they cannot be determined
+ */
+function resolveTransmitter(input: SiteTransmitterInput, index: number): SiteTransmitter | { error: string } {
+  const name = input.name ?? `Sender ${index + 1}`;
+
+  const feed = resolveStationFeed(name, input, input.frequency_mhz);
+  if ('error' in feed) return feed;
+  const gain = feed.antennaGainDbi;
+
+  return {
+    name,
+    frequencyMhz: input.frequency_mhz,
+    powerWatts: input.power_watts,
+    mode: input.mode,
+    dutyFactor: input.duty_factor ?? MODE_DUTY_FACTORS[input.mode].factor,
+    ...feed,
+    x: input.x_m,
+    y: input.y_m,
+    heightM: input.height_m,
+    azimuthDeg: input.azimuth_deg ?? null,
+    horizontalBeamwidthDeg: input.horizontal_beamwidth_deg ?? estimateBeamwidth(gain),
+    verticalBeamwidthDeg: input.vertical_beamwidth_deg ?? estimateBeamwidth(gain),
+    antennaSizeM: input.antenna_size_m,
+  };
+}
+
+/**
+ * Register all RF exposure tools with the MCP server
+ */
+export function registerExposureTools(server: McpServer): void {
+  // --------------------------------------------------------------------------
+  // TOOL: Sicherheitsabstand berechnen (StrahlBlick)
+  // --------------------------------------------------------------------------
+  server.tool(
+    'calculate_safety_distance',
+    'Berechnet den Sicherheitsabstand zu einer Sendeantenne nach ICNIRP 1998 / ÖNORM E 8850 für Allgemeinbevölkerung und beruflich Exponierte: in Hauptstrahlrichtung, unter vertikalem Absenkwinkel und optional am Boden unter der Antenne. Warnt, wenn das Ergebnis im Nahfeld liegt, wo die Fernfeldformel nicht gilt.',
+    {
+      power_watts: z.number().min(0.001).max(2000).describe('Sendeleistung (PEP) in Watt'),
+      mode: z.enum(exposureModes).default('SSB').describe('Betriebsart für den typischen Tastgrad (CW 0.4, SSB 0.2, SSB_processed 0.5, FM/RTTY/digital 1.0, FT8 0.5)'),
+      duty_factor: z.number().min(0.01).max(1).optional().describe('Eigener Tastgrad (0.01-1), ersetzt den Wert der Betriebsart'),
+      cable_loss_db: z.number().min(0).max(50).default(0).describe('Kabelverlust in dB'),
+      antenna_gain_dbi: z.number().min(-10).max(50).describe('Antennengewinn in dBi'),
+      frequency_mhz: z.number().min(0.1).max(300000).describe('Frequenz in MHz'),
+      vertical_beamwidth_deg: z.number().min(1).max(180).optional().describe('Vertikaler Öffnungswinkel (-3 dB) der Antenne in Grad; ohne Angabe konservativ aus dem Gewinn geschätzt'),
+      antenna_height_m: z.number().min(0).max(500).optional().describe('Höhe der Antenne über begehbarem Grund in Metern, für den Abstand am Boden'),
+      antenna_size_m: z.number().positive().max(100).optional().describe('Größte Abmessung der Antenne in Metern (z.B. Boomlänge), für die Nahfeldgrenze'),
+    },
+    async ({ power_watts, mode, duty_factor, cable_loss_db, antenna_gain_dbi, frequency_mhz, vertical_beamwidth_deg, antenna_height_m, antenna_size_m }) => {
+      const dutyFactor = duty_factor ?? MODE_DUTY_FACTORS[mode].factor;
+      const eirpPeak = eirpWatts(power_watts, cable_loss_db, antenna_gain_dbi);
+      const eirpAverage = eirpPeak * dutyFactor;
+
+      const levels = getReferenceLevels(frequency_mhz);
+      const distances = safeDistances(eirpAverage, frequency_mhz);
+      const beamwidth = vertical_beamwidth_deg ?? estimateBeamwidth(antenna_gain_dbi);
+      const boundary = nearFieldBoundary(frequency_mhz, antenna_size_m);
+
+      const warnings: string[] = [];
+      const inNearField = EXPOSURE_CATEGORIES.filter(c => distances[c] < boundary);
+      if (inNearField.length > 0) {
+        warnings.push(`NAHFELD: Der Abstand für ${inNearField.map(c => EXPOSURE_CATEGORY_NAMES[c]).join(' und ')} liegt innerhalb der Nahfeldgrenze von ${roundUp(boundary)} m. Die Fernfeldformel ist dort nicht gültig - Nachweis durch Feldberechnung (z.B. NEC) oder Messung erforderlich.`);
+      }
+      if (antenna_size_m === undefined) {
+        warnings.push('Nahfeldgrenze mit Halbwellen-Antenne abgeschätzt - für Yagis und Gruppen antenna_size_m (z.B. Boomlänge) angeben');
+      }
+      if (vertical_beamwidth_deg === undefined) {
+        warnings.push(`Vertikaler Öffnungswinkel aus dem Gewinn geschätzt (${Math.round(beamwidth)}°) - mit dem Datenblattwert wird das Ergebnis genauer`);
+      }
+
+      const categoryResult = (category: ExposureCategory) => ({
+        label: EXPOSURE_CATEGORY_NAMES[category],
+        e_field_vm: Math.round(levels[category].eFieldVm * 100) / 100,
+        power_density_wm2: Math.round(levels[category].powerDensityWm2 * 1000) / 1000,
+        main_beam_m: roundUp(distances[category]),
+        in_near_field: distances[category] < boundary,
+      });
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            input: {
+              power_watts,
+              mode,
+              duty_factor: dutyFactor,
+              cable_loss_db,
+              antenna_gain_dbi,
+              frequency_mhz,
+            },
+            eirp: {
+              peak_watts: Math.round(eirpPeak * 100) / 100,
+              average_watts: Math.round(eirpAverage * 100) / 100,
+              explanation: `Mittlere EIRP = PEP × Tastgrad (${MODE_DUTY_FACTORS[mode].description}) × Gewinn / Kabelverlust`,
+            },
+            referenceLevels: {
+              standard: 'ICNIRP 1998 / ÖNORM E 8850, Effektivwerte gemittelt über 6 Minuten',
+              range: describeReferenceRange(frequency_mhz),
+            },
+            safetyDistance: {
+              general_public: categoryResult('general_public'),
+              occupational: categoryResult('occupational'),
+            },
+            downtilt: {
+              vertical_beamwidth_deg: Math.round(beamwidth * 10) / 10,
+              beamwidth_estimated: vertical_beamwidth_deg === undefined,
+              angles: DOWNTILT_ANGLES_DEG.map(angle => ({
+                angle_below_main_beam_deg: angle,
+                pattern_attenuation_db: Math.round(patternAttenuationDb(angle, beamwidth) * 10) / 10,
+                general_public_m: roundUp(downtiltDistance(distances.general_public, angle, beamwidth)),
+                occupational_m: roundUp(downtiltDistance(distances.occupational, angle, beamwidth)),
+              })),
+            },
+            groundLevel: antenna_height_m !== undefined ? {
+              antenna_height_m,
+              reference_height_m: BODY_REFERENCE_HEIGHT_M,
+              general_public_horizontal_m: roundUp(groundLevelDistance(distances.general_public, antenna_height_m, beamwidth)),
+              occupational_horizontal_m: roundUp(groundLevelDistance(distances.occupational, antenna_height_m, beamwidth)),
+              explanation: 'Waagrechter Abstand vom Mast, ab dem eine Person (Kopfhöhe 2 m) außerhalb des Sicherheitsabstands ist',
+            } : undefined,
+            nearField: {
+              wavelength_m: Math.round(wavelengthM(frequency_mhz) * 1000) / 1000,
+              boundary_m: roundUp(boundary),
+              explanation: 'Größerer Wert aus reaktivem Nahfeld (λ/2π) und Fraunhofer-Abstand (2D²/λ)',
+            },
+            warnings,
+            hint: 'Vereinfachte Fernfeldabschätzung ohne Bodenreflexion. Wo Dritte Zutritt haben, sind die Abstände für die Allgemeinbevölkerung maßgeblich.',
+          }, null, 2),
+        }],
+      };
+    }
+  );
+
+  // --------------------------------------------------------------------------
+  // TOOL: Standortbescheinigung (Summenexposition mehrerer Sender)
+  // --------------------------------------------------------------------------
+  server.tool(
+    'site_exposure_assessment',
+    'Bewertet die HF-Exposition eines Standorts mit mehreren Sendern nach ICNIRP 1998 / ÖNORM E 8850: summiert die Ausschöpfungsgrade aller Sender an frei wählbaren Bewertungspunkten (z.B. Balkon, Garten des Nachbarn) und liefert eine Bestanden/Nicht-bestanden-Tabelle sowie einen Bericht als Markdown oder HTML für die Stationsunterlagen.',
+    {
+      transmitters: z.array(siteTransmitterSchema).min(1).max(20).describe('Sender mit Frequenz, Leistung, Betriebsart, Kabel, Antenne, Höhe und Richtung'),
+      points: z.array(evaluationPointSchema).min(1).max(50).describe('Bewertungspunkte, an denen sich Personen aufhalten können'),
+      callsign: z.string().max(20).optional().describe('Rufzeichen der Station, für den Bericht'),
+      location: z.string().max(100).optional().describe('Standort der Station, für den Bericht'),
+      date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().describe('Datum des Berichts (YYYY-MM-DD), Standard: heute'),
+      report_format: z.enum(['markdown', 'html']).default('markdown').describe('Format des Berichts'),
+    },
+    async ({ transmitters, points, callsign, location, date, report_format }) => {
+      const resolved: SiteTransmitter[] = [];
+      for (const [index, input] of transmitters.entries()) {
+        const tx = resolveTransmitter(input, index);
+        if ('error' in tx) {
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify({ error: tx.error }, null, 2),
+            }],
+          };
+        }
+        resolved.push(tx);
+      }
+
+      const assessment = assessSite(
+        resolved,
+        points.map(p => ({ name: p.name, x: p.x_m, y: p.y_m, heightM: p.height_m })),
+        { callsign: callsign?.toUpperCase(), location, date: date ?? new Date().toISOString().slice(0, 10) }
+      );
+
+      const warnings = [
+        ...resolved.flatMap(tx => tx.cableWarning ? [`${tx.cableWarning} - für einen konservativen Nachweis cable_loss_db mit dem unteren Wert angeben`] : []),
+        ...assessment.warnings,
+      ];
+      if (transmitters.some(t => t.vertical_beamwidth_deg === undefined || (t.azimuth_deg !== undefined && t.horizontal_beamwidth_deg === undefined))) {
+        warnings.push('Öffnungswinkel teilweise aus dem Gewinn geschätzt - mit den Datenblattwerten wird das Ergebnis genauer');
+      }
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            transmitters: resolved.map(tx => ({
+              name: tx.name,
+              frequency_mhz: tx.frequencyMhz,
+              duty_factor: tx.dutyFactor,
+              cable_loss_db: Math.round(tx.cableLossDb * 100) / 100,
+              cable_loss_range_db: {
+                min: Math.round(tx.cableLossMinDb * 100) / 100,
+                max: Math.round(tx.cableLossMaxDb * 100) / 100,
+              },
+              antenna_gain_dbi: tx.antennaGainDbi,
+              eirp_average_watts: Math.round(eirpWatts(tx.powerWatts, tx.cableLossDb, tx.antennaGainDbi) * tx.dutyFactor * 100) / 100,
+            })),
+            summary: assessment.points.map(p => ({
+              point: p.point.name,
+              thermal_ratio: {
+                general_public: roundRatio(p.thermalRatio.general_public),
+                occupational: roundRatio(p.thermalRatio.occupational),
+              },
+              stimulation_ratio: p.stimulationRatio ? {
+                general_public: roundRatio(p.stimulationRatio.general_public),
+                occupational: roundRatio(p.stimulationRatio.occupational),
+              } : null,
+              pass: p.pass,
+              near_field: p.nearField,
+            })),
+            points: assessment.points.map(p => ({
+              point: p.point.name,
+              contributions: p.contributions.map(c => ({
+                transmitter: c.transmitter,
+                distance_m: Math.round(c.distanceM * 10) / 10,
+                pattern_attenuation_db: Math.round(c.attenuationDb * 10) / 10,
+                power_density_wm2: Math.round(c.powerDensityWm2 * 10000) / 10000,
+                e_field_vm: Math.round(c.eFieldVm * 100) / 100,
+                ratio_general_public: roundRatio(c.ratios.general_public),
+                ratio_occupational: roundRatio(c.ratios.occupational),
+              })),
+            })),
+            allPassed: assessment.points.every(p => p.pass.general_public),
+            warnings,
+            report: report_format === 'html' ? renderHtmlReport(assessment) : renderMarkdownReport(assessment),
+            hint: 'Ausschöpfungsgrad 1.0 = 100 % des Referenzwerts. Maßgeblich ist die Summe über alle Sender; wo Dritte Zutritt haben, gilt der Wert für die Allgemeinbevölkerung.',
+            dataSource: {
+              cables: getDataInfo('cables'),
+              antennas: getDataInfo('antennas'),
+            },
+          }, null, 2),
+        }],
+      };
+    }
+  );
+}
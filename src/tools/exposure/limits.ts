@@ -0,0 +1,79 @@
+/**
+ * RF Exposure Reference Levels
+ *
+ * Frequency dependent reference levels of ICNIRP 1998, adopted by
+ * ÖNORM E 8850 and Council Recommendation 1999/519/EC, for the amateur
+ * radio range 100 kHz - 300 GHz. Values are RMS, averaged over 6 minutes.
+ */
+
+import { ExposureCategory, ReferenceLevel } from './types.js';
+
+/**
+ * Free space wave impedance in ohm
+ */
+export const FREE_SPACE_IMPEDANCE = 377;
+
+/**
+ * Up to this frequency field strengths are also summed linearly for
+ * stimulation effects (ICNIRP 1998, equation 7)
+ */
+export const STIMULATION_MAX_MHZ = 10;
+
+/**
+ * Field strength limits "a" of the stimulation summation above 1 MHz
+ */
+export const STIMULATION_LIMITS_VM: Record<ExposureCategory, number> = {
+  general_public: 87,
+  occupational: 610,
+};
+
+/**
+ * Reference level from the electric field strength; below 10 MHz the
+ * power density is the plane-wave equivalent E²/377
+ */
+function fromEField(eFieldVm: number): ReferenceLevel {
+  return { eFieldVm, powerDensityWm2: (eFieldVm * eFieldVm) / FREE_SPACE_IMPEDANCE };
+}
+
+/**
+ * Reference level for the general public
+ */
+function generalPublicLevel(frequencyMhz: number): ReferenceLevel {
+  if (frequencyMhz < 1) return fromEField(87);
+  if (frequencyMhz < 10) return fromEField(87 / Math.sqrt(frequencyMhz));
+  if (frequencyMhz < 400) return { eFieldVm: 28, powerDensityWm2: 2 };
+  if (frequencyMhz < 2000) return { eFieldVm: 1.375 * Math.sqrt(frequencyMhz), powerDensityWm2: frequencyMhz / 200 };
+  return { eFieldVm: 61, powerDensityWm2: 10 };
+}
+
+/**
+ * Reference level for occupational exposure
+ */
+function occupationalLevel(frequencyMhz: number): ReferenceLevel {
+  if (frequencyMhz < 1) return fromEField(610);
+  if (frequencyMhz < 10) return fromEField(610 / frequencyMhz);
+  if (frequencyMhz < 400) return { eFieldVm: 61, powerDensityWm2: 10 };
+  if (frequencyMhz < 2000) return { eFieldVm: 3 * Math.sqrt(frequencyMhz), powerDensityWm2: frequencyMhz / 40 };
+  return { eFieldVm: 137, powerDensityWm2: 50 };
+}
+
+/**
+ * Reference levels of both categories at a frequency in MHz
+ */
+export function getReferenceLevels(frequencyMhz: number): Record<ExposureCategory, ReferenceLevel> {
+  return {
+    general_public: generalPublicLevel(frequencyMhz),
+    occupational: occupationalLevel(frequencyMhz),
+  };
+}
+
+/**
+ * Frequency range of the reference level formula, for responses
+ */
+export function describeReferenceRange(frequencyMhz: number): string {
+  if (frequencyMhz < 1) return 'unter 1 MHz: feste Feldstärke';
+  if (frequencyMhz < 10) return '1-10 MHz: Feldstärke proportional zu 1/√f (Allgemeinbevölkerung) bzw. 1/f (beruflich)';
+  if (frequencyMhz < 400) return '10-400 MHz: konstanter Referenzwert (Resonanzbereich des Körpers)';
+  if (frequencyMhz < 2000) return '400-2000 MHz: Leistungsdichte proportional zu f';
+  return 'über 2 GHz: konstanter Referenzwert';
+}
@@ -0,0 +1,197 @@
+/**
+ * Site Exposure Report
+ *
+ * Renders a site assessment as Markdown or HTML document for the station
+ * records. Both formats are built from the same tables.
+ */
+
+import { eirpWatts } from './distance.js';
+import { PointAssessment, SiteAssessment, SiteTransmitter } from './types.js';
+
+interface ReportTable {
+  headers: string[];
+  rows: string[][];
+}
+
+interface ReportSection {
+  title: string;
+  paragraphs: string[];
+  tables: ReportTable[];
+}
+
+const BASIS_TEXT = [
+  'Referenzwerte nach ICNIRP 1998 / ÖNORM E 8850 (Effektivwerte, gemittelt über 6 Minuten).',
+  'Mehrere Sender werden als Summe der Leistungsdichte-Verhältnisse Σ S/S_L bewertet; bis 10 MHz zusätzlich als Summe der Feldstärke-Verhältnisse Σ E/a (Reizwirkung). Beide Summen müssen ≤ 100 % sein.',
+  'Fernfeldberechnung ohne Bodenreflexion mit vereinfachtem Richtdiagramm (parabolische Hauptkeule, Nebenkeulen mindestens 20 dB gedämpft). Positionen in Metern östlich (x) und nördlich (y) des Bezugspunkts.',
+];
+
+function formatNumber(value: number, decimals: number): string {
+  return value.toFixed(decimals);
+}
+
+function formatPercent(ratio: number): string {
+  return `${(ratio * 100).toFixed(1)} %`;
+}
+
+function formatResult(assessment: PointAssessment): string {
+  return assessment.pass.general_public ? 'eingehalten' : 'ÜBERSCHRITTEN';
+}
+
+function transmitterRow(tx: SiteTransmitter): string[] {
+  const eirp = eirpWatts(tx.powerWatts, tx.cableLossDb, tx.antennaGainDbi) * tx.dutyFactor;
+  return [
+    tx.name,
+    `${tx.frequencyMhz} MHz`,
+    `${tx.powerWatts} W`,
+    `${tx.mode} (${tx.dutyFactor})`,
+    tx.cableDescription,
+    tx.antennaDescription,
+    `${tx.heightM} m`,
+    tx.azimuthDeg === null ? 'rundum' : `${tx.azimuthDeg}°`,
+    `${formatNumber(eirp, 1)} W`,
+  ];
+}
+
+/**
+ * Build the report sections of an assessment
+ */
+function buildSections(assessment: SiteAssessment): ReportSection[] {
+  const sections: ReportSection[] = [
+    {
+      title: 'Grundlagen',
+      paragraphs: BASIS_TEXT,
+      tables: [],
+    },
+    {
+      title: 'Sender',
+      paragraphs: [],
+      tables: [{
+        headers: ['Sender', 'Frequenz', 'Leistung (PEP)', 'Betriebsart (Tastgrad)', 'Kabel', 'Antenne', 'Höhe', 'Richtung', 'mittlere EIRP'],
+        rows: assessment.transmitters.map(transmitterRow),
+      }],
+    },
+    {
+      title: 'Ergebnis',
+      paragraphs: [],
+      tables: [{
+        headers: ['Bewertungspunkt', 'Position (x / y / Höhe)', 'Σ S/S_L Allgemeinbevölkerung', 'Σ S/S_L beruflich', 'Σ E/a Allgemeinbevölkerung', 'Ergebnis'],
+        rows: assessment.points.map(p => [
+          p.point.name,
+          `${p.point.x} m / ${p.point.y} m / ${p.point.heightM} m`,
+          formatPercent(p.thermalRatio.general_public),
+          formatPercent(p.thermalRatio.occupational),
+          p.stimulationRatio ? formatPercent(p.stimulationRatio.general_public) : '-',
+          formatResult(p),
+        ]),
+      }],
+    },
+  ];
+
+  for (const p of assessment.points) {
+    sections.push({
+      title: `Einzelbeiträge: ${p.point.name}`,
+      paragraphs: [],
+      tables: [{
+        headers: ['Sender', 'Abstand', 'Richtdämpfung', 'Leistungsdichte', 'Feldstärke', 'Anteil Allgemeinbevölkerung'],
+        rows: p.contributions.map(c => [
+          c.transmitter + (c.nearField ? ' (Nahfeld)' : ''),
+          `${formatNumber(c.distanceM, 1)} m`,
+          `${formatNumber(c.attenuationDb, 1)} dB`,
+          `${formatNumber(c.powerDensityWm2, 4)} W/m²`,
+          `${formatNumber(c.eFieldVm, 2)} V/m`,
+          formatPercent(c.ratios.general_public),
+        ]),
+      }],
+    });
+  }
+
+  if (assessment.warnings.length > 0) {
+    sections.push({ title: 'Hinweise', paragraphs: assessment.warnings, tables: [] });
+  }
+  return sections;
+}
+
+function reportTitle(assessment: SiteAssessment): string {
+  return `Nachweis der HF-Exposition${assessment.callsign ? ` - ${assessment.callsign}` : ''}`;
+}
+
+function reportMeta(assessment: SiteAssessment): string[] {
+  return [
+    ...(assessment.location ? [`Standort: ${assessment.location}`] : []),
+    `Datum: ${assessment.date}`,
+  ];
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/\|/g, '\\|');
+}
+
+/**
+ * Render an assessment as Markdown
+ */
+export function renderMarkdownReport(assessment: SiteAssessment): string {
+  const lines = [`# ${reportTitle(assessment)}`, '', ...reportMeta(assessment).map(m => `${m}  `), ''];
+
+  for (const section of buildSections(assessment)) {
+    lines.push(`## ${section.title}`, '');
+    for (const paragraph of section.paragraphs) {
+      lines.push(paragraph, '');
+    }
+    for (const table of section.tables) {
+      lines.push(`| ${table.headers.join(' | ')} |`);
+      lines.push(`|${table.headers.map(() => '---').join('|')}|`);
+      for (const row of table.rows) {
+        lines.push(`| ${row.map(escapeMarkdown).join(' | ')} |`);
+      }
+      lines.push('');
+    }
+  }
+
+  lines.push('Ort, Datum: ______________________  Unterschrift: ______________________', '');
+  return lines.join('\n');
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Render an assessment as a standalone HTML document
+ */
+export function renderHtmlReport(assessment: SiteAssessment): string {
+  const title = escapeHtml(reportTitle(assessment));
+  const parts = [
+    '<!DOCTYPE html>',
+    '<html lang="de">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${title}</title>`,
+    '<style>body{font-family:sans-serif;max-width:60em;margin:2em auto}table{border-collapse:collapse;margin-bottom:1em}th,td{border:1px solid #999;padding:.3em .6em;text-align:left}th{background:#eee}</style>',
+    '</head>',
+    '<body>',
+    `<h1>${title}</h1>`,
+    `<p>${reportMeta(assessment).map(escapeHtml).join('<br>')}</p>`,
+  ];
+
+  for (const section of buildSections(assessment)) {
+    parts.push(`<h2>${escapeHtml(section.title)}</h2>`);
+    for (const paragraph of section.paragraphs) {
+      parts.push(`<p>${escapeHtml(paragraph)}</p>`);
+    }
+    for (const table of section.tables) {
+      parts.push('<table>');
+      parts.push(`<tr>${table.headers.map(h => `<th>${escapeHtml(h)}</th>`).join('')}</tr>`);
+      for (const row of table.rows) {
+        parts.push(`<tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`);
+      }
+      parts.push('</table>');
+    }
+  }
+
+  parts.push('<p>Ort, Datum: ______________________ &nbsp; Unterschrift: ______________________</p>', '</body>', '</html>');
+  return parts.join('\n');
+}
@@ -0,0 +1,134 @@
+/**
+ * Site Exposure Assessment
+ *
+ * Sums the exposure of several transmitters at evaluation points around a
+ * station. Thermal effects are summed as power density ratios Σ S/S_L
+ * over all transmitters; below 10 MHz the field strengths are also summed
+ * linearly for stimulation effects (ICNIRP 1998, equations 7 and 10).
+ */
+
+import { getReferenceLevels, FREE_SPACE_IMPEDANCE, STIMULATION_MAX_MHZ, STIMULATION_LIMITS_VM } from './limits.js';
+import { eirpWatts, combinedAttenuationDb, nearFieldBoundary, EXPOSURE_CATEGORIES } from './distance.js';
+import {
+  CategoryRatios,
+  EvaluationPoint,
+  PointAssessment,
+  SiteAssessment,
+  SiteTransmitter,
+  TransmitterContribution,
+} from './types.js';
+
+/**
+ * Minimum distance used in the calculation, to avoid a division by zero
+ * for points at the antenna
+ */
+const MIN_DISTANCE_M = 0.1;
+
+/**
+ * Angle between two directions in degrees (0-180)
+ */
+function angleBetween(a: number, b: number): number {
+  const diff = Math.abs(a - b) % 360;
+  return diff > 180 ? 360 - diff : diff;
+}
+
+/**
+ * Exposure of one transmitter at one point
+ */
+function contribution(tx: SiteTransmitter, point: EvaluationPoint): TransmitterContribution {
+  const dx = point.x - tx.x;
+  const dy = point.y - tx.y;
+  const dz = tx.heightM - point.heightM;
+  const horizontal = Math.hypot(dx, dy);
+  const distance = Math.max(MIN_DISTANCE_M, Math.hypot(horizontal, dz));
+
+  const verticalAngle = Math.abs(Math.atan2(dz, horizontal)) * 180 / Math.PI;
+  const bearing = (Math.atan2(dx, dy) * 180 / Math.PI + 360) % 360;
+  const attenuation = combinedAttenuationDb(
+    verticalAngle,
+    tx.verticalBeamwidthDeg,
+    tx.azimuthDeg === null ? 0 : angleBetween(bearing, tx.azimuthDeg),
+    tx.azimuthDeg === null ? null : tx.horizontalBeamwidthDeg
+  );
+
+  const eirp = eirpWatts(tx.powerWatts, tx.cableLossDb, tx.antennaGainDbi) * tx.dutyFactor;
+  const powerDensity = eirp * Math.pow(10, -attenuation / 10) / (4 * Math.PI * distance * distance);
+  const levels = getReferenceLevels(tx.frequencyMhz);
+
+  return {
+    transmitter: tx.name,
+    distanceM: distance,
+    attenuationDb: attenuation,
+    powerDensityWm2: powerDensity,
+    eFieldVm: Math.sqrt(powerDensity * FREE_SPACE_IMPEDANCE),
+    ratios: {
+      general_public: powerDensity / levels.general_public.powerDensityWm2,
+      occupational: powerDensity / levels.occupational.powerDensityWm2,
+    },
+    nearField: distance < nearFieldBoundary(tx.frequencyMhz, tx.antennaSizeM),
+  };
+}
+
+/**
+ * Sum a ratio over the contributions
+ */
+function sumRatios(values: CategoryRatios[]): CategoryRatios {
+  return {
+    general_public: values.reduce((sum, v) => sum + v.general_public, 0),
+    occupational: values.reduce((sum, v) => sum + v.occupational, 0),
+  };
+}
+
+/**
+ * Assess one evaluation point
+ */
+function assessPoint(transmitters: SiteTransmitter[], point: EvaluationPoint): PointAssessment {
+  const contributions = transmitters.map(tx => contribution(tx, point));
+  const thermalRatio = sumRatios(contributions.map(c => c.ratios));
+
+  const lowFrequency = contributions.filter((_, i) => transmitters[i].frequencyMhz <= STIMULATION_MAX_MHZ);
+  const stimulationRatio = lowFrequency.length > 0
+    ? sumRatios(lowFrequency.map(c => ({
+      general_public: c.eFieldVm / STIMULATION_LIMITS_VM.general_public,
+      occupational: c.eFieldVm / STIMULATION_LIMITS_VM.occupational,
+    })))
+    : null;
+
+  const pass = Object.fromEntries(EXPOSURE_CATEGORIES.map(category => [
+    category,
+    thermalRatio[category] <= 1 && (stimulationRatio === null || stimulationRatio[category] <= 1),
+  ])) as PointAssessment['pass'];
+
+  return {
+    point,
+    contributions,
+    thermalRatio,
+    stimulationRatio,
+    pass,
+    nearField: contributions.some(c => c.nearField),
+  };
+}
+
+/**
+ * Assess all evaluation points of a site
+ */
+export function assessSite(
+  transmitters: SiteTransmitter[],
+  points: EvaluationPoint[],
+  station: { callsign?: string; location?: string; date: string }
+): SiteAssessment {
+  const results = points.map(point => assessPoint(transmitters, point));
+
+  const warnings: string[] = [];
+  const nearFieldPoints = results.filter(r => r.nearField).map(r => r.point.name);
+  if (nearFieldPoints.length > 0) {
+    warnings.push(`NAHFELD bei ${nearFieldPoints.join(', ')}: Die Fernfeldformel ist dort nicht gültig - Nachweis durch Feldberechnung (z.B. NEC) oder Messung erforderlich.`);
+  }
+
+  return {
+    ...station,
+    transmitters,
+    points: results,
+    warnings,
+  };
+}
@@ -0,0 +1,126 @@
+/**
+ * RF Exposure Types
+ *
+ * Types for the safety distance calculation according to ICNIRP 1998 /
+ * ÖNORM E 8850
+ */
+
+import { StationFeed } from '../station/types.js';
+
+/**
+ * Exposure category of the reference levels
+ */
+export type ExposureCategory = 'general_public' | 'occupational';
+
+export const EXPOSURE_CATEGORY_NAMES: Record<ExposureCategory, string> = {
+  general_public: 'Allgemeinbevölkerung',
+  occupational: 'beruflich Exponierte',
+};
+
+/**
+ * Reference level for one category at one frequency
+ */
+export interface ReferenceLevel {
+  /** Electric field strength in V/m */
+  eFieldVm: number;
+  /** Equivalent plane-wave power density in W/m² */
+  powerDensityWm2: number;
+}
+
+/**
+ * Operating mode with its typical duty factor
+ */
+export type ExposureMode = 'CW' | 'SSB' | 'SSB_processed' | 'FM' | 'RTTY' | 'FT8' | 'digital';
+
+/**
+ * Typical duty factors (mean power relative to PEP over 6 minutes,
+ * including the transmit/receive ratio of a QSO)
+ */
+export const MODE_DUTY_FACTORS: Record<ExposureMode, { factor: number; description: string }> = {
+  CW: { factor: 0.4, description: 'Telegrafie' },
+  SSB: { factor: 0.2, description: 'SSB-Sprechfunk ohne Kompression' },
+  SSB_processed: { factor: 0.5, description: 'SSB-Sprechfunk mit starker Kompression' },
+  FM: { factor: 1.0, description: 'FM (konstante Hüllkurve)' },
+  RTTY: { factor: 1.0, description: 'RTTY (konstante Hüllkurve)' },
+  FT8: { factor: 0.5, description: 'FT8/FT4 (15 s Senden, 15 s Empfangen)' },
+  digital: { factor: 1.0, description: 'Dauerstrich-Digitalbetrieb' },
+};
+
+/**
+ * Safe distances in metres for both exposure categories
+ */
+export type CategoryDistances = Record<ExposureCategory, number>;
+
+/**
+ * Exposure ratios (exposure / reference level) for both categories
+ */
+export type CategoryRatios = Record<ExposureCategory, number>;
+
+/**
+ * Transmitter of a site assessment with resolved cable loss and gain.
+ * Positions are in metres east (x) and north (y) of a site reference.
+ */
+export interface SiteTransmitter extends StationFeed {
+  name: string;
+  frequencyMhz: number;
+  powerWatts: number;
+  mode: ExposureMode;
+  dutyFactor: number;
+  x: number;
+  y: number;
+  heightM: number;
+  /** Main beam direction; null for omnidirectional antennas */
+  azimuthDeg: number | null;
+  horizontalBeamwidthDeg: number;
+  verticalBeamwidthDeg: number;
+  antennaSizeM?: number;
+}
+
+/**
+ * Point at which the exposure is evaluated (e.g. the neighbour's balcony)
+ */
+export interface EvaluationPoint {
+  name: string;
+  x: number;
+  y: number;
+  heightM: number;
+}
+
+/**
+ * Exposure of one transmitter at one evaluation point
+ */
+export interface TransmitterContribution {
+  transmitter: string;
+  distanceM: number;
+  attenuationDb: number;
+  powerDensityWm2: number;
+  eFieldVm: number;
+  ratios: CategoryRatios;
+  nearField: boolean;
+}
+
+/**
+ * Summed exposure at one evaluation point
+ */
+export interface PointAssessment {
+  point: EvaluationPoint;
+  contributions: TransmitterContribution[];
+  /** Σ S/S_L over all transmitters (thermal effects) */
+  thermalRatio: CategoryRatios;
+  /** Σ E/a over transmitters up to 10 MHz (stimulation); null if there are none */
+  stimulationRatio: CategoryRatios | null;
+  pass: Record<ExposureCategory, boolean>;
+  nearField: boolean;
+}
+
+/**
+ * Result of a site assessment
+ */
+export interface SiteAssessment {
+  callsign?: string;
+  location?: string;
+  date: string;
+  transmitters: SiteTransmitter[];
+  points: PointAssessment[];
+  warnings: string[];
+}
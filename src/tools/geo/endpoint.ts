@@ -0,0 +1,85 @@
+/**
+ * Path Endpoints
+ *
+ * Resolves a path endpoint given as locator, coordinates or Austrian
+ * callsign to a position
+ */
+
+import { LatLon } from '../../geo/types.js';
+import { isValidLocator, locatorToLatLon, latLonToLocator, normalizeLocator } from '../../geo/locator.js';
+import { lookupLocal } from '../callsign/sources/local.js';
+import { geocodeCallsign } from '../callsign/geocode.js';
+
+/**
+ * Endpoint resolved to a position
+ */
+export interface ResolvedEndpoint {
+  input: string;
+  type: 'locator' | 'coordinates' | 'callsign';
+  position: LatLon;
+  locator: string;
+  description?: string;
+  approximate: boolean;
+}
+
+const COORDINATE_PATTERN = /^\s*(-?\d+(?:\.\d+)?)\s*[,; ]\s*(-?\d+(?:\.\d+)?)\s*$/;
+
+/**
+ * Resolve an endpoint. Accepts a Maidenhead locator ("JN76TO"),
+ * coordinates in decimal degrees ("46.62, 14.31") or an Austrian callsign
+ * from the official callsign list ("OE8YML").
+ *
+ * @throws Error with a German message if the endpoint cannot be resolved
+ */
+export async function resolveEndpoint(input: string): Promise<ResolvedEndpoint> {
+  const coordinates = input.match(COORDINATE_PATTERN);
+  if (coordinates) {
+    const position = { lat: parseFloat(coordinates[1]), lon: parseFloat(coordinates[2]) };
+    if (Math.abs(position.lat) > 90 || Math.abs(position.lon) > 180) {
+      throw new Error(`Koordinaten "${input}" außerhalb des gültigen Bereichs (Breite ±90, Länge ±180)`);
+    }
+    return {
+      input,
+      type: 'coordinates',
+      position,
+      locator: latLonToLocator(position, 6),
+      approximate: false,
+    };
+  }
+
+  if (isValidLocator(input)) {
+    const locator = normalizeLocator(input);
+    return {
+      input,
+      type: 'locator',
+      position: locatorToLatLon(locator),
+      locator,
+      description: 'Mittelpunkt des Locator-Feldes',
+      approximate: locator.length <= 6,
+    };
+  }
+
+  const result = await lookupLocal(input);
+  if (!result.exists) {
+    throw new Error(`"${input}" ist weder Locator, Koordinate noch Rufzeichen aus der österreichischen Rufzeichenliste`);
+  }
+
+  const entry = result.data!;
+  if (entry.isHidden) {
+    throw new Error(`Standort von ${entry.callsign} ist nicht öffentlich (Eintrag versteckt)`);
+  }
+
+  const location = geocodeCallsign(entry);
+  if (!location) {
+    throw new Error(`Standort von ${entry.callsign} kann ohne gültige PLZ nicht ermittelt werden`);
+  }
+
+  return {
+    input,
+    type: 'callsign',
+    position: { lat: location.lat, lon: location.lon },
+    locator: latLonToLocator(location, 6),
+    description: `${entry.callsign}: ${location.plz} ${location.gemeinde} (Ortsmittelpunkt laut PLZ)`,
+    approximate: true,
+  };
+}
@@ -0,0 +1,599 @@
+/**
+ * Geo MCP Tools
+ *
+ * Tool definitions for Maidenhead locators, coordinates, great-circle paths,
+ * solar times and terrain profiles
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+
+import { getDataInfo } from '../../data/index.js';
+import {
+  LOCATOR_PRECISIONS,
+  LocatorPrecision,
+  validateLocator,
+  normalizeLocator,
+  locatorToBounds,
+  locatorToLatLon,
+  latLonToLocator,
+} from '../../geo/locator.js';
+import { EARTH_RADIUS_KM, distanceKm, bearingDeg, midpoint } from '../../geo/distance.js';
+import { terrainProfile, FRESNEL_CLEARANCE_PERCENT, ProfilePoint, ProfileSegment, TerrainProfile } from '../../geo/profile.js';
+import { solarTimes, greylineWindows, overlapWindow, utcDay, SolarTimes, GreylineWindow } from '../../geo/solar.js';
+import { resolveEndpoint, ResolvedEndpoint } from './endpoint.js';
+
+/**
+ * km per degree of latitude (mean earth radius)
+ */
+const KM_PER_DEGREE = 111.195;
+
+/**
+ * Round coordinates to 6 decimals (about 0.1 m)
+ */
+function roundCoord(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+/**
+ * 16-point compass directions (German abbreviations)
+ */
+const COMPASS_POINTS = ['N', 'NNO', 'NO', 'ONO', 'O', 'OSO', 'SO', 'SSO', 'S', 'SSW', 'SW', 'WSW', 'W', 'WNW', 'NW', 'NNW'];
+
+/**
+ * Compass direction of a bearing
+ */
+function compassPoint(bearing: number): string {
+  return COMPASS_POINTS[Math.round(bearing / 22.5) % 16];
+}
+
+/**
+ * Format a bearing for tool responses
+ */
+function formatBearing(bearing: number): Record<string, unknown> {
+  return {
+    degrees: Math.round(bearing * 10) / 10,
+    compass: compassPoint(bearing),
+  };
+}
+
+/**
+ * Format a resolved endpoint for tool responses
+ */
+function formatEndpoint(endpoint: ResolvedEndpoint): Record<string, unknown> {
+  return {
+    input: endpoint.input,
+    type: endpoint.type,
+    locator: endpoint.locator,
+    lat: roundCoord(endpoint.position.lat),
+    lon: roundCoord(endpoint.position.lon),
+    description: endpoint.description,
+    approximate: endpoint.approximate,
+  };
+}
+
+/**
+ * Time zone for local times in solar responses
+ */
+const LOCAL_TIME_ZONE = 'Europe/Vienna';
+
+const LOCAL_TIME_FORMAT = new Intl.DateTimeFormat('de-AT', {
+  timeZone: LOCAL_TIME_ZONE,
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  hourCycle: 'h23',
+  timeZoneName: 'short',
+});
+
+const GREYLINE_NAMES: Record<GreylineWindow['type'], string> = {
+  morning: 'Morgendämmerung (Sonnenaufgang)',
+  evening: 'Abenddämmerung (Sonnenuntergang)',
+};
+
+/**
+ * Format an instant in UTC and Austrian local time, rounded to the minute
+ */
+function formatTime(time: Date | null): Record<string, string> | null {
+  if (!time) return null;
+
+  const rounded = new Date(Math.round(time.getTime() / 60_000) * 60_000);
+  const parts = Object.fromEntries(
+    LOCAL_TIME_FORMAT.formatToParts(rounded).map(part => [part.type, part.value])
+  );
+  return {
+    utc: rounded.toISOString().slice(0, 16) + 'Z',
+    local: `${parts.year}-${parts.month}-${parts.day} ${parts.hour}:${parts.minute} ${parts.timeZoneName}`,
+  };
+}
+
+/**
+ * Format a duration in minutes as "h:mm"
+ */
+function formatDuration(minutes: number): string {
+  const total = Math.round(minutes);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Format the solar times of one location
+ */
+function formatSolarTimes(times: SolarTimes): Record<string, unknown> {
+  const dayLength = times.sunrise && times.sunset
+    ? formatDuration((times.sunset.getTime() - times.sunrise.getTime()) / 60_000)
+    : null;
+
+  return {
+    nauticalDawn: formatTime(times.nauticalDawn),
+    civilDawn: formatTime(times.civilDawn),
+    sunrise: formatTime(times.sunrise),
+    solarNoon: formatTime(times.solarNoon),
+    sunset: formatTime(times.sunset),
+    civilDusk: formatTime(times.civilDusk),
+    nauticalDusk: formatTime(times.nauticalDusk),
+    dayLength,
+  };
+}
+
+/**
+ * Format a grey-line window
+ */
+function formatWindow(window: { start: Date; end: Date }): Record<string, unknown> {
+  return {
+    start: formatTime(window.start),
+    end: formatTime(window.end),
+    duration_min: Math.round((window.end.getTime() - window.start.getTime()) / 60_000),
+  };
+}
+
+/**
+ * Format a locator cell: centre, bounding box and approximate size
+ */
+function formatLocatorCell(locator: string): Record<string, unknown> {
+  const bounds = locatorToBounds(locator);
+  const centre = locatorToLatLon(locator);
+  const heightKm = (bounds.north - bounds.south) * KM_PER_DEGREE;
+  const widthKm = (bounds.east - bounds.west) * KM_PER_DEGREE * Math.cos(centre.lat * Math.PI / 180);
+
+  return {
+    locator,
+    precision: locator.length,
+    centre: { lat: roundCoord(centre.lat), lon: roundCoord(centre.lon) },
+    boundingBox: {
+      south: roundCoord(bounds.south),
+      west: roundCoord(bounds.west),
+      north: roundCoord(bounds.north),
+      east: roundCoord(bounds.east),
+    },
+    cellSize: {
+      width_km: Math.round(widthKm * 1000) / 1000,
+      height_km: Math.round(heightKm * 1000) / 1000,
+    },
+  };
+}
+
+/**
+ * Round a height or distance to one decimal
+ */
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Format one sample of a terrain profile
+ */
+function formatProfilePoint(point: ProfilePoint): Record<string, unknown> {
+  return {
+    distance_km: Math.round(point.distanceKm * 1000) / 1000,
+    elevation_m: point.elevationM === null ? null : round1(point.elevationM),
+    earth_bulge_m: round1(point.earthBulgeM),
+    line_of_sight_m: round1(point.lineOfSightM),
+    fresnel_radius_m: round1(point.fresnelRadiusM),
+    clearance_m: point.clearanceM === null ? null : round1(point.clearanceM),
+    clearance_percent: point.clearancePercent === null ? null : Math.round(point.clearancePercent),
+  };
+}
+
+/**
+ * Format an obstructed stretch of a terrain profile
+ */
+function formatProfileSegment(segment: ProfileSegment): Record<string, unknown> {
+  return {
+    from_km: Math.round(segment.startKm * 100) / 100,
+    to_km: Math.round(segment.endKm * 100) / 100,
+    worst: {
+      ...formatProfilePoint(segment.worst),
+      lat: roundCoord(segment.worst.position.lat),
+      lon: roundCoord(segment.worst.position.lon),
+    },
+  };
+}
+
+/**
+ * Register all geo tools with the MCP server
+ */
+export function registerGeoTools(server: McpServer): void {
+  // --------------------------------------------------------------------------
+  // TOOL: Locator umrechnen
+  // --------------------------------------------------------------------------
+  server.tool(
+    'locator_convert',
+    'Rechnet zwischen WGS84-Koordinaten (Dezimalgrad) und Maidenhead-Locator (4, 6, 8 oder 10 Zeichen) um. Gibt Mittelpunkt und Begrenzung (Bounding Box) des Locator-Feldes zurück.',
+    {
+      locator: z.string().optional().describe('Maidenhead-Locator (z.B. "JN76", "JN76TO", "JN76TO42")'),
+      lat: z.number().min(-90).max(90).optional().describe('Breitengrad in Dezimalgrad (Nord positiv)'),
+      lon: z.number().min(-180).max(180).optional().describe('Längengrad in Dezimalgrad (Ost positiv)'),
+      precision: z.enum(['4', '6', '8', '10']).default('6').describe('Locator-Länge bei Umrechnung aus Koordinaten'),
+    },
+    async ({ locator, lat, lon, precision }) => {
+      if (locator !== undefined) {
+        const error = validateLocator(locator);
+        if (error) {
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify({
+                error,
+                format: 'Feld A-R, Quadrat 0-9, Unterquadrat A-X, erweitertes Quadrat 0-9, erweitertes Unterquadrat A-X',
+              }, null, 2),
+            }],
+          };
+        }
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              input: { locator },
+              ...formatLocatorCell(normalizeLocator(locator)),
+            }, null, 2),
+          }],
+        };
+      }
+
+      if (lat === undefined || lon === undefined) {
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              error: 'Entweder locator oder lat und lon angeben',
+            }, null, 2),
+          }],
+        };
+      }
+
+      const position = { lat, lon };
+      const result = latLonToLocator(position, Number(precision) as LocatorPrecision);
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            input: { lat, lon, precision: Number(precision) },
+            ...formatLocatorCell(result),
+            allPrecisions: Object.fromEntries(
+              LOCATOR_PRECISIONS.map(p => [p, latLonToLocator(position, p)])
+            ),
+          }, null, 2),
+        }],
+      };
+    }
+  );
+
+  // --------------------------------------------------------------------------
+  // TOOL: Entfernung und Richtung berechnen
+  // --------------------------------------------------------------------------
+  server.tool(
+    'path_calculate',
+    'Berechnet Großkreis-Entfernung, Antennenrichtung (Short Path und Long Path) und Mittelpunkt zwischen zwei Punkten. Jeder Punkt kann ein Maidenhead-Locator, eine Koordinate ("46.62, 14.31") oder ein österreichisches Rufzeichen sein (Standort über die PLZ).',
+    {
+      from: z.string().describe('Startpunkt: Locator, "Breite, Länge" oder Rufzeichen (z.B. "JN76TO", "48.21, 16.37", "OE8YML")'),
+      to: z.string().describe('Zielpunkt: Locator, "Breite, Länge" oder Rufzeichen'),
+    },
+    async ({ from, to }) => {
+      let start: ResolvedEndpoint;
+      let end: ResolvedEndpoint;
+
+      try {
+        start = await resolveEndpoint(from);
+        end = await resolveEndpoint(to);
+      } catch (error) {
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              error: (error as Error).message,
+            }, null, 2),
+          }],
+        };
+      }
+
+      const shortPathKm = distanceKm(start.position, end.position);
+      const longPathKm = 2 * Math.PI * EARTH_RADIUS_KM - shortPathKm;
+      const bearing = bearingDeg(start.position, end.position);
+      const reverseBearing = bearingDeg(end.position, start.position);
+      const centre = midpoint(start.position, end.position);
+
+      const notes: string[] = [];
+      if (start.approximate || end.approximate) {
+        notes.push('Mindestens ein Punkt ist angenähert (Locator-Mittelpunkt oder Gemeindemittelpunkt) - Entfernung entsprechend ungenau');
+      }
+      if (shortPathKm < 0.5) {
+        notes.push('Beide Punkte liegen praktisch am selben Ort - Richtung nicht aussagekräftig');
+      }
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            from: formatEndpoint(start),
+            to: formatEndpoint(end),
+            distance: {
+              short_path_km: Math.round(shortPathKm * 10) / 10,
+              long_path_km: Math.round(longPathKm * 10) / 10,
+            },
+            bearing: {
+              short_path: formatBearing(bearing),
+              long_path: formatBearing((bearing + 180) % 360),
+              reverse_short_path: formatBearing(reverseBearing),
+            },
+            midpoint: {
+              lat: roundCoord(centre.lat),
+              lon: roundCoord(centre.lon),
+              locator: latLonToLocator(centre, 6),
+            },
+            notes,
+            dataSource: start.type === 'callsign' || end.type === 'callsign' ? getDataInfo('plz') : undefined,
+          }, null, 2),
+        }],
+      };
+    }
+  );
+
+  // --------------------------------------------------------------------------
+  // TOOL: Sonnenzeiten und Grey Line
+  // --------------------------------------------------------------------------
+  server.tool(
+    'solar_times',
+    'Berechnet Sonnenaufgang, Sonnenuntergang, bürgerliche und nautische Dämmerung sowie Sonnenhöchststand für einen Standort und ein Datum (UTC und österreichische Ortszeit). Modus greyline_overlap listet die Zeitfenster, in denen beide Standorte gleichzeitig in der Dämmerungszone (Grey Line) liegen - für Lowband-DX auf 160m/80m.',
+    {
+      location: z.string().describe('Standort: Locator, "Breite, Länge" oder Rufzeichen (z.B. "JN76TO", "46.62, 14.31")'),
+      date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Datum im Format YYYY-MM-DD').optional().describe('Datum (YYYY-MM-DD), Standard: heute (UTC)'),
+      mode: z.enum(['times', 'greyline_overlap']).default('times').describe('times = Sonnenzeiten eines Standorts, greyline_overlap = gemeinsame Grey-Line-Fenster zweier Standorte'),
+      location_b: z.string().optional().describe('Zweiter Standort für greyline_overlap (z.B. "QF22", "-33.87, 151.21")'),
+    },
+    async ({ location, date, mode, location_b }) => {
+      const day = date !== undefined ? new Date(`${date}T00:00:00Z`) : utcDay(new Date());
+      if (isNaN(day.getTime()) || (date !== undefined && day.toISOString().slice(0, 10) !== date)) {
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              error: `Ungültiges Datum "${date}" - Format YYYY-MM-DD`,
+            }, null, 2),
+          }],
+        };
+      }
+      if (mode === 'greyline_overlap' && location_b === undefined) {
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              error: 'Für greyline_overlap wird location_b (zweiter Standort) benötigt',
+            }, null, 2),
+          }],
+        };
+      }
+
+      let a: ResolvedEndpoint;
+      let b: ResolvedEndpoint | null = null;
+      try {
+        a = await resolveEndpoint(location);
+        if (mode === 'greyline_overlap') {
+          b = await resolveEndpoint(location_b!);
+        }
+      } catch (error) {
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              error: (error as Error).message,
+            }, null, 2),
+          }],
+        };
+      }
+
+      const dateText = day.toISOString().slice(0, 10);
+      const definition = 'Grey Line = Zeit zwischen Beginn der bürgerlichen Dämmerung (Sonne 6° unter dem Horizont) und Sonnenaufgang bzw. zwischen Sonnenuntergang und Ende der bürgerlichen Dämmerung';
+
+      if (!b) {
+        const times = solarTimes(day, a.position);
+        const notes: string[] = [];
+        if (!times.sunrise) {
+          notes.push('Kein Sonnenauf- oder -untergang an diesem Tag (Polartag oder Polarnacht)');
+        }
+
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              location: formatEndpoint(a),
+              date: dateText,
+              localTimeZone: LOCAL_TIME_ZONE,
+              times: formatSolarTimes(times),
+              greyline: greylineWindows(times).map(w => ({ type: GREYLINE_NAMES[w.type], ...formatWindow(w) })),
+              definition,
+              notes,
+            }, null, 2),
+          }],
+        };
+      }
+
+      // Windows of the neighbouring days are included, because the solar day
+      // of a far away location can start or end on another UTC date
+      const windowsAround = (endpoint: ResolvedEndpoint): GreylineWindow[] =>
+        [-1, 0, 1].flatMap(offset =>
+          greylineWindows(solarTimes(new Date(day.getTime() + offset * 86_400_000), endpoint.position))
+        );
+
+      const dayEnd = new Date(day.getTime() + 86_400_000);
+      const overlaps = windowsAround(a).flatMap(windowA =>
+        windowsAround(b!).flatMap(windowB => {
+          const overlap = overlapWindow(windowA, windowB);
+          if (!overlap || !overlapWindow(overlap, { start: day, end: dayEnd })) return [];
+          return [{ overlap, typeA: windowA.type, typeB: windowB.type }];
+        })
+      ).sort((x, y) => x.overlap.start.getTime() - y.overlap.start.getTime());
+
+      const timesA = solarTimes(day, a.position);
+      const timesB = solarTimes(day, b.position);
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            location: formatEndpoint(a),
+            location_b: formatEndpoint(b),
+            date: dateText,
+            localTimeZone: LOCAL_TIME_ZONE,
+            path: {
+              distance_km: Math.round(distanceKm(a.position, b.position)),
+              bearing: formatBearing(bearingDeg(a.position, b.position)),
+            },
+            greyline: {
+              location: greylineWindows(timesA).map(w => ({ type: GREYLINE_NAMES[w.type], ...formatWindow(w) })),
+              location_b: greylineWindows(timesB).map(w => ({ type: GREYLINE_NAMES[w.type], ...formatWindow(w) })),
+            },
+            overlaps: overlaps.map(({ overlap, typeA, typeB }) => ({
+              ...formatWindow(overlap),
+              location: GREYLINE_NAMES[typeA],
+              location_b: GREYLINE_NAMES[typeB],
+            })),
+            hint: overlaps.length === 0
+              ? 'Keine gemeinsame Grey Line an diesem Datum - die Überlappung verschiebt sich über das Jahr, andere Daten prüfen'
+              : 'Während der gemeinsamen Grey Line ist die D-Schicht-Dämpfung an beiden Enden gering - beste Zeit für Lowband-DX',
+            definition,
+          }, null, 2),
+        }],
+      };
+    }
+  );
+
+  // --------------------------------------------------------------------------
+  // TOOL: Geländeprofil und Fresnelzone
+  // --------------------------------------------------------------------------
+  server.tool(
+    'path_profile',
+    'Erstellt das Geländeprofil entlang des Großkreises zwischen zwei Antennenstandorten aus lokal abgelegten SRTM-Höhendaten (HGT-Kacheln, offline). Berücksichtigt die Erdkrümmung mit einstellbarem k-Faktor und meldet Hindernisse in der Sichtlinie sowie die Freiheit der ersten Fresnelzone in Prozent. Das Profil wird als Datenreihe zurückgegeben.',
+    {
+      from: z.string().describe('Standort A: Locator, "Breite, Länge" oder Rufzeichen'),
+      to: z.string().describe('Standort B: Locator, "Breite, Länge" oder Rufzeichen'),
+      height_a_m: z.number().min(0).max(500).default(10).describe('Antennenhöhe über Grund an Standort A in Metern'),
+      height_b_m: z.number().min(0).max(500).default(10).describe('Antennenhöhe über Grund an Standort B in Metern'),
+      frequency_mhz: z.number().min(1).max(100000).describe('Frequenz in MHz (für die Fresnelzone)'),
+      k_factor: z.number().min(0.5).max(10).default(4 / 3).describe('k-Faktor für den effektiven Erdradius (4/3 = Standardatmosphäre, 1 = geometrisch, <1 = ungünstige Refraktion)'),
+      samples: z.number().int().min(10).max(2000).default(256).describe('Anzahl der Profilabschnitte'),
+    },
+    async ({ from, to, height_a_m, height_b_m, frequency_mhz, k_factor, samples }) => {
+      let start: ResolvedEndpoint;
+      let end: ResolvedEndpoint;
+
+      try {
+        start = await resolveEndpoint(from);
+        end = await resolveEndpoint(to);
+      } catch (error) {
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              error: (error as Error).message,
+            }, null, 2),
+          }],
+        };
+      }
+
+      if (distanceKm(start.position, end.position) < 0.05) {
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              error: 'Beide Standorte liegen praktisch am selben Ort - kein Profil möglich',
+            }, null, 2),
+          }],
+        };
+      }
+
+      let profile: TerrainProfile;
+      try {
+        profile = terrainProfile(start.position, end.position, {
+          heightAM: height_a_m,
+          heightBM: height_b_m,
+          frequencyMhz: frequency_mhz,
+          kFactor: k_factor,
+          samples,
+        });
+      } catch (error) {
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              error: (error as Error).message,
+              hint: 'SRTM-Kacheln (1 oder 3 Bogensekunden, *.hgt) vorab herunterladen und im DEM-Verzeichnis ablegen (Umgebungsvariable DEM_DIR, Standard data/dem)',
+            }, null, 2),
+          }],
+        };
+      }
+
+      const status = profile.obstructions.length > 0
+        ? 'keine Sichtverbindung'
+        : profile.fresnelIntrusions.length > 0
+          ? 'Sichtverbindung, Fresnelzone teilweise verdeckt'
+          : 'frei';
+
+      const notes: string[] = [];
+      if (start.approximate || end.approximate) {
+        notes.push('Mindestens ein Standort ist angenähert (Locator-Mittelpunkt oder Gemeindemittelpunkt) - Profil nur als Übersicht verwenden');
+      }
+      if (profile.voidSamples > 0) {
+        notes.push(`${profile.voidSamples} Profilpunkte liegen in Datenlücken der Höhendaten und wurden nicht bewertet`);
+      }
+      if (profile.obstructions.length > 0) {
+        notes.push('Gelände blockiert die Sichtlinie - Verbindung nur über Beugung, Reflexion oder Troposcatter möglich');
+      } else if (profile.fresnelIntrusions.length > 0) {
+        notes.push(`Weniger als ${FRESNEL_CLEARANCE_PERCENT} % der ersten Fresnelzone frei - zusätzliche Beugungsdämpfung bis etwa 6 dB, Antennen höher setzen`);
+      }
+      notes.push('Höhendaten ohne Bewuchs und Bebauung (SRTM-Oberflächenmodell mit ca. 30-90 m Auflösung) - Bäume und Gebäude zusätzlich berücksichtigen');
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            from: { ...formatEndpoint(start), ground_m: round1(profile.groundAM), antenna_m: round1(profile.groundAM + height_a_m) },
+            to: { ...formatEndpoint(end), ground_m: round1(profile.groundBM), antenna_m: round1(profile.groundBM + height_b_m) },
+            path: {
+              distance_km: Math.round(profile.distanceKm * 100) / 100,
+              bearing: formatBearing(bearingDeg(start.position, end.position)),
+              frequency_mhz,
+              k_factor: Math.round(k_factor * 1000) / 1000,
+              effective_earth_radius_km: Math.round(k_factor * EARTH_RADIUS_KM),
+            },
+            result: {
+              status,
+              line_of_sight: profile.obstructions.length === 0,
+              min_fresnel_clearance_percent: profile.worst ? Math.round(profile.worst.clearancePercent!) : null,
+              worst_point: profile.worst
+                ? { ...formatProfilePoint(profile.worst), lat: roundCoord(profile.worst.position.lat), lon: roundCoord(profile.worst.position.lon) }
+                : null,
+            },
+            obstructions: profile.obstructions.map(formatProfileSegment),
+            fresnel_intrusions: profile.fresnelIntrusions.map(formatProfileSegment),
+            notes,
+            profile: profile.points.map(formatProfilePoint),
+          }, null, 2),
+        }],
+      };
+    }
+  );
+}
@@ -0,0 +1,31 @@
+/**
+ * Link Budget
+ *
+ * Received level of a line-of-sight link from transmitter power, cable
+ * losses, antenna gains and free-space path loss
+ */
+
+import { wattsToDbm } from '../../rf/power.js';
+import { freeSpacePathLossDb, fresnelRadiusM } from '../../rf/propagation.js';
+import { LinkBudget, LinkBudgetInput } from './types.js';
+
+/**
+ * Calculate the link budget
+ */
+export function calculateLinkBudget(input: LinkBudgetInput): LinkBudget {
+  const txPowerDbm = wattsToDbm(input.txPowerWatts);
+  const eirpDbm = txPowerDbm - input.tx.cableLossDb + input.tx.antennaGainDbi;
+  const pathLossDb = freeSpacePathLossDb(input.distanceKm, input.frequencyMhz);
+  const rxLevelDbm = eirpDbm - pathLossDb + input.rx.antennaGainDbi - input.rx.cableLossDb - input.otherLossesDb;
+
+  return {
+    txPowerDbm,
+    eirpDbm,
+    pathLossDb,
+    rxLevelDbm,
+    rxLevelMinDbm: rxLevelDbm - (input.tx.cableLossMaxDb - input.tx.cableLossDb) - (input.rx.cableLossMaxDb - input.rx.cableLossDb),
+    rxLevelMaxDbm: rxLevelDbm + (input.tx.cableLossDb - input.tx.cableLossMinDb) + (input.rx.cableLossDb - input.rx.cableLossMinDb),
+    fadeMarginDb: input.rxSensitivityDbm !== undefined ? rxLevelDbm - input.rxSensitivityDbm : null,
+    fresnelRadiusM: fresnelRadiusM(input.distanceKm / 2, input.distanceKm / 2, input.frequencyMhz),
+  };
+}
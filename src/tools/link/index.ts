@@ -0,0 +1,194 @@
+/**
+ * Link Budget MCP Tools
+ *
+ * Tool definitions for line-of-sight links (VHF to microwave)
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+
+import { getDataInfo } from '../../data/index.js';
+import { distanceKm } from '../../geo/distance.js';
+import { resolveEndpoint, ResolvedEndpoint } from '../geo/endpoint.js';
+import { resolveStationFeed } from '../station/feed.js';
+import { StationFeed } from '../station/types.js';
+import { calculateLinkBudget } from './budget.js';
+
+/**
+ * Share of the first Fresnel zone that should be free of obstacles
+ */
+const FRESNEL_CLEARANCE = 0.6;
+
+const linkStationSchema = z.object({
+  antenna_type: z.string().optional().describe('Antennentyp aus der Antennendatenbank (z.B. "yagi-7el")'),
+  antenna_gain_dbi: z.number().min(-10).max(60).optional().describe('Antennengewinn in dBi, alternativ zu antenna_type'),
+  cable_type: z.string().optional().describe('Kabeltyp aus der Kabeldatenbank (z.B. "Ecoflex10")'),
+  cable_length_m: z.number().min(0).max(1000).optional().describe('Kabellänge in Metern, zusammen mit cable_type'),
+  cable_loss_db: z.number().min(0).max(50).optional().describe('Kabelverlust in dB, alternativ zu cable_type'),
+});
+
+function round(value: number, decimals = 2): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+function formatStation(station: StationFeed) {
+  return {
+    antenna: station.antennaDescription,
+    antenna_gain_dbi: station.antennaGainDbi,
+    cable: station.cableDescription,
+    cable_loss_db: round(station.cableLossDb),
+    cable_loss_range_db: { min: round(station.cableLossMinDb), max: round(station.cableLossMaxDb) },
+  };
+}
+
+function formatEndpoint(endpoint: ResolvedEndpoint) {
+  return {
+    input: endpoint.input,
+    locator: endpoint.locator,
+    lat: round(endpoint.position.lat, 5),
+    lon: round(endpoint.position.lon, 5),
+    description: endpoint.description,
+  };
+}
+
+/**
+ * Assessment of the fade margin
+ */
+function assessFadeMargin(marginDb: number): string {
+  if (marginDb >= 20) return 'Sehr sicher - auch bei Regen und Fading';
+  if (marginDb >= 10) return 'Ausreichend für eine stabile Verbindung';
+  if (marginDb >= 0) return 'Knapp - Fading oder Abschattung unterbricht die Verbindung';
+  return 'Keine Verbindung zu erwarten - Empfangspegel unter der Empfindlichkeit';
+}
+
+/**
+ * Register all link budget tools with the MCP server
+ */
+export function registerLinkTools(server: McpServer): void {
+  // --------------------------------------------------------------------------
+  // TOOL: Streckenbilanz (Link Budget)
+  // --------------------------------------------------------------------------
+  server.tool(
+    'link_budget',
+    'Berechnet die Streckenbilanz einer Sichtverbindung (z.B. 23cm/3cm zwischen Bergen): Freiraumdämpfung, Empfangspegel in dBm, Schwundreserve gegenüber der Empfängerempfindlichkeit und Radius der ersten Fresnelzone in Streckenmitte. Sendeleistung, Antennen (aus der Antennendatenbank oder eigene Werte) und Kabel (aus der Kabeldatenbank oder eigener Verlust) für beide Seiten; Entfernung direkt oder aus zwei Locatoren, Koordinaten oder Rufzeichen.',
+    {
+      frequency_mhz: z.number().min(1).max(300000).describe('Frequenz in MHz'),
+      tx_power_watts: z.number().min(0.000001).max(2000).describe('Sendeleistung in Watt'),
+      tx: linkStationSchema.default({}).describe('Sendeseite: Antenne und Kabel'),
+      rx: linkStationSchema.default({}).describe('Empfangsseite: Antenne und Kabel'),
+      distance_km: z.number().min(0.001).max(20000).optional().describe('Entfernung in km, alternativ zu from/to'),
+      from: z.string().optional().describe('Standort Sender: Locator, Koordinaten oder Rufzeichen'),
+      to: z.string().optional().describe('Standort Empfänger: Locator, Koordinaten oder Rufzeichen'),
+      other_losses_db: z.number().min(0).max(100).default(0).describe('Weitere Verluste in dB (Stecker, Radome, Abschattung)'),
+      rx_sensitivity_dbm: z.number().min(-180).max(0).optional().describe('Empfängerempfindlichkeit in dBm (z.B. -125 für SSB/CW), für die Schwundreserve'),
+    },
+    async ({ frequency_mhz, tx_power_watts, tx, rx, distance_km, from, to, other_losses_db, rx_sensitivity_dbm }) => {
+      let start: ResolvedEndpoint | undefined;
+      let end: ResolvedEndpoint | undefined;
+      let distance = distance_km;
+      if (distance === undefined) {
+        if (!from || !to) {
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify({ error: 'distance_km oder from und to angeben' }, null, 2),
+            }],
+          };
+        }
+        try {
+          start = await resolveEndpoint(from);
+          end = await resolveEndpoint(to);
+        } catch (error) {
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify({ error: (error as Error).message }, null, 2),
+            }],
+          };
+        }
+        distance = distanceKm(start.position, end.position);
+        if (distance < 0.001) {
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify({ error: 'Sender und Empfänger liegen am selben Ort' }, null, 2),
+            }],
+          };
+        }
+      }
+
+      const txResolved = resolveStationFeed('Sendeseite', tx, frequency_mhz);
+      if ('error' in txResolved) {
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({ error: txResolved.error }, null, 2),
+          }],
+        };
+      }
+      const rxResolved = resolveStationFeed('Empfangsseite', rx, frequency_mhz);
+      if ('error' in rxResolved) {
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({ error: rxResolved.error }, null, 2),
+          }],
+        };
+      }
+
+      const budget = calculateLinkBudget({
+        frequencyMhz: frequency_mhz,
+        distanceKm: distance,
+        txPowerWatts: tx_power_watts,
+        tx: txResolved,
+        rx: rxResolved,
+        otherLossesDb: other_losses_db,
+        rxSensitivityDbm: rx_sensitivity_dbm,
+      });
+
+      const warnings = [txResolved.cableWarning, rxResolved.cableWarning].filter((w): w is string => w !== null);
+      if (start?.approximate || end?.approximate) {
+        warnings.push('Standort nur angenähert (Locator-Feld oder Gemeindemittelpunkt) - Entfernung entsprechend ungenau');
+      }
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            input: {
+              frequency_mhz,
+              tx_power_watts,
+              distance_km: round(distance, 3),
+              other_losses_db,
+              rx_sensitivity_dbm,
+            },
+            path: start && end ? { from: formatEndpoint(start), to: formatEndpoint(end) } : undefined,
+            tx: formatStation(txResolved),
+            rx: formatStation(rxResolved),
+            budget: {
+              tx_power_dbm: round(budget.txPowerDbm),
+              eirp_dbm: round(budget.eirpDbm),
+              free_space_path_loss_db: round(budget.pathLossDb),
+              rx_level_dbm: round(budget.rxLevelDbm),
+              rx_level_range_dbm: { min: round(budget.rxLevelMinDbm), max: round(budget.rxLevelMaxDbm) },
+              fade_margin_db: budget.fadeMarginDb !== null ? round(budget.fadeMarginDb) : null,
+              assessment: budget.fadeMarginDb !== null ? assessFadeMargin(budget.fadeMarginDb) : 'Für die Schwundreserve rx_sensitivity_dbm angeben',
+            },
+            fresnel: {
+              first_zone_radius_m: round(budget.fresnelRadiusM),
+              clearance_60_percent_m: round(budget.fresnelRadiusM * FRESNEL_CLEARANCE),
+              explanation: 'Radius der ersten Fresnelzone in Streckenmitte; mindestens 60 % davon sollten frei von Hindernissen sein',
+            },
+            warnings,
+            hint: 'Freiraumausbreitung ohne Gelände, Bodenreflexion, Regen- oder Gasdämpfung.',
+            dataSource: {
+              cables: getDataInfo('cables'),
+              antennas: getDataInfo('antennas'),
+            },
+          }, null, 2),
+        }],
+      };
+    }
+  );
+}
@@ -0,0 +1,35 @@
+/**
+ * Link Budget Types
+ */
+
+import { StationFeed } from '../station/types.js';
+
+/**
+ * Input of the link budget calculation
+ */
+export interface LinkBudgetInput {
+  frequencyMhz: number;
+  distanceKm: number;
+  txPowerWatts: number;
+  tx: StationFeed;
+  rx: StationFeed;
+  /** Further losses (connectors, radome, obstruction) in dB */
+  otherLossesDb: number;
+  rxSensitivityDbm?: number;
+}
+
+/**
+ * Result of the link budget calculation
+ */
+export interface LinkBudget {
+  txPowerDbm: number;
+  eirpDbm: number;
+  pathLossDb: number;
+  rxLevelDbm: number;
+  /** Range of the received level from the uncertainty of the cable losses */
+  rxLevelMinDbm: number;
+  rxLevelMaxDbm: number;
+  /** Received level minus sensitivity; null without a sensitivity */
+  fadeMarginDb: number | null;
+  fresnelRadiusM: number;
+}
@@ -0,0 +1,151 @@
+/**
+ * Repeater MCP Tools
+ *
+ * Tool definitions for the Austrian repeater directory
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+
+import { getDataInfo } from '../../data/index.js';
+import { validateLocator, locatorToLatLon, normalizeLocator } from '../../geo/locator.js';
+import { getDistrictName } from '../callsign/validate.js';
+import { getRepeaters, filterRepeaters, findNearbyRepeaters, formatRepeater } from './search.js';
+
+const repeaterModeSchema = z.enum(['FM', 'DMR', 'D-STAR', 'C4FM', 'M17']).describe('Betriebsart des Relais');
+
+const repeaterFilterSchema = {
+  band: z.string().optional().describe("Band wie '2m', '70cm', '23cm', '10m'"),
+  mode: repeaterModeSchema.optional(),
+  include_inactive: z.boolean().default(false).describe('Auch außer Betrieb befindliche und geplante Relais anzeigen'),
+  limit: z.number().int().min(1).max(100).default(25).describe('Maximale Anzahl Ergebnisse'),
+};
+
+/**
+ * Register all repeater tools with the MCP server
+ */
+export function registerRepeaterTools(server: McpServer): void {
+  // --------------------------------------------------------------------------
+  // TOOL: Relais suchen
+  // --------------------------------------------------------------------------
+  server.tool(
+    'repeater_search',
+    'Sucht österreichische Amateurfunk-Relais nach Band, Betriebsart (FM/DMR/D-STAR/C4FM/M17), Bezirk und Freitext (Rufzeichen, Standort, Hinweise)',
+    {
+      ...repeaterFilterSchema,
+      district: z.number().int().min(1).max(9).optional().describe('Bezirk (1-9, z.B. 8 für OE8 Kärnten)'),
+      text: z.string().optional().describe('Freitext für Rufzeichen, Standort oder Hinweise (z.B. "Dobratsch")'),
+    },
+    async ({ band, mode, district, text, include_inactive, limit }) => {
+      const results = filterRepeaters(getRepeaters(), {
+        band,
+        mode,
+        district,
+        text,
+        includeInactive: include_inactive,
+      });
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            filter: {
+              band: band || null,
+              mode: mode || null,
+              district: district !== undefined ? `OE${district} (${getDistrictName(district)})` : null,
+              text: text || null,
+            },
+            total: results.length,
+            repeaters: results.slice(0, limit).map(formatRepeater),
+            dataSource: getDataInfo('repeaters'),
+          }, null, 2),
+        }],
+      };
+    }
+  );
+
+  // --------------------------------------------------------------------------
+  // TOOL: Relais in der Nähe
+  // --------------------------------------------------------------------------
+  server.tool(
+    'repeater_nearby',
+    'Findet österreichische Amateurfunk-Relais im Umkreis eines Standorts (Maidenhead-Locator oder Koordinaten), sortiert nach Entfernung',
+    {
+      locator: z.string().optional().describe('Maidenhead-Locator des Standorts (z.B. "JN76TO")'),
+      lat: z.number().min(-90).max(90).optional().describe('Breitengrad in Dezimalgrad'),
+      lon: z.number().min(-180).max(180).optional().describe('Längengrad in Dezimalgrad'),
+      radius_km: z.number().positive().max(500).default(50).describe('Suchradius in km'),
+      ...repeaterFilterSchema,
+    },
+    async ({ locator, lat, lon, radius_km, band, mode, include_inactive, limit }) => {
+      const locatorError = locator !== undefined ? validateLocator(locator) : null;
+      if (locatorError) {
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              error: locatorError,
+            }, null, 2),
+          }],
+        };
+      }
+      if (locator === undefined && (lat === undefined || lon === undefined)) {
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              error: 'Standort fehlt: entweder locator oder lat und lon angeben',
+            }, null, 2),
+          }],
+        };
+      }
+
+      const position = locator !== undefined ? locatorToLatLon(locator) : { lat: lat!, lon: lon! };
+      const results = findNearbyRepeaters(position, radius_km, {
+        band,
+        mode,
+        includeInactive: include_inactive,
+      });
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            position: {
+              locator: locator !== undefined ? normalizeLocator(locator) : null,
+              lat: Math.round(position.lat * 10000) / 10000,
+              lon: Math.round(position.lon * 10000) / 10000,
+            },
+            radius_km,
+            total: results.length,
+            repeaters: results.slice(0, limit).map(r => ({
+              ...formatRepeater(r.repeater),
+              distance_km: Math.round(r.distanceKm * 10) / 10,
+            })),
+            hint: 'Entfernung bezogen auf die Mitte des Locator-Feldes des Relais. Die tatsächliche Erreichbarkeit hängt von Gelände und Antenne ab.',
+            dataSource: getDataInfo('repeaters'),
+          }, null, 2),
+        }],
+      };
+    }
+  );
+
+  // --------------------------------------------------------------------------
+  // RESOURCE: Relais-Verzeichnis
+  // --------------------------------------------------------------------------
+  server.resource(
+    'repeaters://oe/all',
+    'Verzeichnis österreichischer Amateurfunk-Relais',
+    async () => ({
+      contents: [{
+        uri: 'repeaters://oe/all',
+        mimeType: 'application/json',
+        text: JSON.stringify({
+          description: 'Österreichische Amateurfunk-Relais (Frequenzen in MHz)',
+          repeaters: getRepeaters(),
+          dataSource: getDataInfo('repeaters'),
+        }, null, 2),
+      }],
+    })
+  );
+}
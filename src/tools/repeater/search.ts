@@ -0,0 +1,86 @@
+/**
+ * Repeater Search
+ *
+ * Filtering and distance search over the repeater dataset
+ */
+
+import { getDataset } from '../../data/index.js';
+import { LatLon } from '../../geo/types.js';
+import { locatorToLatLon } from '../../geo/locator.js';
+import { distanceKm } from '../../geo/distance.js';
+import { findBand, normalizeBandName } from '../bandplan/lookup.js';
+import { Repeater, RepeaterFilter, REPEATER_STATUS_NAMES } from './types.js';
+
+/**
+ * Get all repeaters of the currently loaded dataset
+ */
+export function getRepeaters(): Repeater[] {
+  return getDataset('repeaters').repeaters;
+}
+
+/**
+ * Band of a repeater, derived from its output frequency
+ */
+export function getRepeaterBand(repeater: Repeater): string | null {
+  return findBand(repeater.output * 1000)?.band || null;
+}
+
+/**
+ * Filter repeaters by band, mode, district and free text. Inactive and
+ * planned repeaters are excluded unless requested.
+ */
+export function filterRepeaters(repeaters: Repeater[], filter: RepeaterFilter): Repeater[] {
+  const band = filter.band ? normalizeBandName(filter.band) : undefined;
+  const text = filter.text?.trim().toLowerCase();
+
+  return repeaters.filter(r => {
+    if (!filter.includeInactive && r.status !== 'active') return false;
+    if (band && getRepeaterBand(r) !== band) return false;
+    if (filter.mode && r.mode !== filter.mode) return false;
+    if (filter.district !== undefined && r.district !== filter.district) return false;
+    if (text) {
+      const haystack = `${r.callsign} ${r.qth} ${r.locator} ${r.notes || ''}`.toLowerCase();
+      if (!haystack.includes(text)) return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * Find repeaters within a radius around a position, nearest first
+ */
+export function findNearbyRepeaters(
+  position: LatLon,
+  radiusKm: number,
+  filter: RepeaterFilter
+): { repeater: Repeater; distanceKm: number }[] {
+  return filterRepeaters(getRepeaters(), filter)
+    .map(repeater => ({
+      repeater,
+      distanceKm: distanceKm(position, locatorToLatLon(repeater.locator)),
+    }))
+    .filter(r => r.distanceKm <= radiusKm)
+    .sort((a, b) => a.distanceKm - b.distanceKm);
+}
+
+/**
+ * Format a repeater for tool responses
+ */
+export function formatRepeater(repeater: Repeater): Record<string, unknown> {
+  return {
+    callsign: repeater.callsign,
+    qth: repeater.qth,
+    district: `OE${repeater.district}`,
+    locator: repeater.locator,
+    band: getRepeaterBand(repeater),
+    mode: repeater.mode,
+    output: `${repeater.output} MHz`,
+    input: `${repeater.input} MHz`,
+    shift: `${repeater.shift > 0 ? '+' : ''}${repeater.shift} MHz`,
+    ctcss: repeater.ctcss !== null ? `${repeater.ctcss} Hz` : null,
+    dcs: repeater.dcs,
+    colorCode: repeater.colorCode,
+    status: REPEATER_STATUS_NAMES[repeater.status],
+    notes: repeater.notes || null,
+  };
+}
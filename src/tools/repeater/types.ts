@@ -0,0 +1,54 @@
+/**
+ * Repeater Types
+ *
+ * Types for the Austrian repeater directory
+ */
+
+/**
+ * Operating mode of a repeater
+ */
+export type RepeaterMode = 'FM' | 'DMR' | 'D-STAR' | 'C4FM' | 'M17';
+
+/**
+ * Operating status of a repeater
+ */
+export type RepeaterStatus = 'active' | 'inactive' | 'planned';
+
+/**
+ * Repeater entry, frequencies in MHz
+ */
+export interface Repeater {
+  callsign: string;
+  qth: string;
+  district: number;
+  locator: string;
+  mode: RepeaterMode;
+  output: number;
+  input: number;
+  shift: number;
+  ctcss: number | null;
+  dcs: string | null;
+  colorCode?: number;
+  status: RepeaterStatus;
+  notes?: string;
+}
+
+/**
+ * Filter criteria for repeater searches
+ */
+export interface RepeaterFilter {
+  band?: string;
+  mode?: RepeaterMode;
+  district?: number;
+  text?: string;
+  includeInactive?: boolean;
+}
+
+/**
+ * German labels for repeater status
+ */
+export const REPEATER_STATUS_NAMES: Record<RepeaterStatus, string> = {
+  active: 'in Betrieb',
+  inactive: 'außer Betrieb',
+  planned: 'in Planung',
+};
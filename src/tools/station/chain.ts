@@ -0,0 +1,89 @@
+/**
+ * Station Chain Calculation
+ *
+ * Follows the power from the transmitter through an optional amplifier,
+ * the cable sections and connectors to the antenna. The SWR at the antenna
+ * adds line loss on cables and connectors together; a tuner at the
+ * transmitter is assumed, so the reflected power is re-reflected towards
+ * the antenna instead of being lost.
+ */
+
+import { mismatchedLineLoss } from '../cable/swr.js';
+import { CONNECTOR_TYPES, ChainResult, ChainStage, StationChain } from './types.js';
+
+/**
+ * ERP is referenced to the half-wave dipole (2.15 dBi)
+ */
+const DIPOLE_GAIN_DBI = 2.15;
+
+function applyDb(powerWatts: number, gainDb: number): number {
+  return powerWatts * Math.pow(10, gainDb / 10);
+}
+
+/**
+ * Calculate power at each stage, losses and radiated power of a chain
+ */
+export function calculateChain(chain: StationChain): ChainResult {
+  const stages: ChainStage[] = [];
+  const warnings: string[] = [];
+  let power = chain.transmitterPowerWatts;
+  stages.push({ stage: 'Sender', gainDb: 0, powerWatts: power });
+
+  if (chain.amplifierGainDb !== undefined) {
+    power = applyDb(power, chain.amplifierGainDb);
+    if (chain.amplifierMaxOutputWatts !== undefined && power > chain.amplifierMaxOutputWatts) {
+      warnings.push(`Endstufe übersteuert: rechnerisch ${Math.round(power)} W, begrenzt auf ${chain.amplifierMaxOutputWatts} W - Ansteuerleistung reduzieren`);
+      power = chain.amplifierMaxOutputWatts;
+    }
+    stages.push({ stage: 'Endstufe', gainDb: 10 * Math.log10(power / stages[0].powerWatts), powerWatts: power });
+  }
+  const outputPower = power;
+
+  let cableDb = 0;
+  for (const [index, cable] of chain.cables.entries()) {
+    power = applyDb(power, -cable.lossDb);
+    cableDb += cable.lossDb;
+    stages.push({ stage: `Kabel ${index + 1}: ${cable.lengthM} m ${cable.cableType}`, gainDb: -cable.lossDb, powerWatts: power });
+  }
+
+  let connectorDb = 0;
+  for (const connector of chain.connectors) {
+    const lossDb = connector.lossDb * connector.count;
+    power = applyDb(power, -lossDb);
+    connectorDb += lossDb;
+    stages.push({ stage: `${connector.count}× ${CONNECTOR_TYPES[connector.type].description}`, gainDb: -lossDb, powerWatts: power });
+    if (chain.frequencyMhz > CONNECTOR_TYPES[connector.type].maxFrequencyMhz) {
+      warnings.push(`${CONNECTOR_TYPES[connector.type].description} ist nur bis ${CONNECTOR_TYPES[connector.type].maxFrequencyMhz} MHz geeignet`);
+    }
+  }
+
+  // Never null for an SWR measured at the antenna
+  const line = mismatchedLineLoss(cableDb + connectorDb, chain.swr, 'antenna')!;
+  const mismatchDb = line.additionalLossDb;
+  power = applyDb(power, -mismatchDb);
+  stages.push({ stage: `Mehrverlust durch SWR ${chain.swr}`, gainDb: -mismatchDb, powerWatts: power });
+  const antennaPower = power;
+
+  const eirp = applyDb(antennaPower, chain.antennaGainDbi);
+  stages.push({ stage: `Antenne: ${chain.antennaDescription}`, gainDb: chain.antennaGainDbi, powerWatts: eirp });
+
+  if (chain.swr > 3) {
+    warnings.push(`SWR ${chain.swr} an der Antenne - Antenne abgleichen oder Anpassgerät an der Antenne verwenden`);
+  }
+
+  return {
+    stages,
+    losses: {
+      cableDb,
+      connectorDb,
+      mismatchDb,
+      totalDb: cableDb + connectorDb + mismatchDb,
+    },
+    outputPowerWatts: outputPower,
+    antennaPowerWatts: antennaPower,
+    swrAtTransmitter: line.swrAtTransmitter,
+    eirpWatts: eirp,
+    erpWatts: applyDb(eirp, -DIPOLE_GAIN_DBI),
+    warnings,
+  };
+}
@@ -0,0 +1,122 @@
+/**
+ * Station Feed
+ *
+ * Resolves cable loss and antenna gain of a station from the reference
+ * data or from values given directly
+ */
+
+import { estimateCableLoss, getCables } from '../cable/loss.js';
+import { findAntenna, getAntennas } from '../antenna/gains.js';
+import { ResolvedCable, StationFeed } from './types.js';
+
+/**
+ * Cable and antenna as given in a tool call; database types take
+ * precedence over direct values
+ */
+export interface StationFeedInput {
+  cable_type?: string;
+  cable_length_m?: number;
+  cable_loss_db?: number;
+  antenna_type?: string;
+  antenna_gain_dbi?: number;
+}
+
+/**
+ * Resolve the loss of a cable run with its uncertainty range from the
+ * cable database; returns an error message prefixed with the label for
+ * unknown cable types
+ */
+export function resolveCable(
+  label: string,
+  cableType: string,
+  lengthM: number,
+  frequencyMhz: number
+): ResolvedCable | { error: string } {
+  const cable = getCables()[cableType];
+  if (!cable) {
+    return { error: `${label}: Unbekannter Kabeltyp "${cableType}". Verfügbar: ${Object.keys(getCables()).join(', ')}` };
+  }
+
+  const estimate = estimateCableLoss(cable.attenuation, frequencyMhz);
+  const lossDb = (estimate.dbPer100m * lengthM) / 100;
+  const minLossDb = (estimate.minDbPer100m * lengthM) / 100;
+  const maxLossDb = (estimate.maxDbPer100m * lengthM) / 100;
+  return {
+    lossDb,
+    minLossDb,
+    maxLossDb,
+    extrapolated: estimate.extrapolated,
+    description: estimate.extrapolated
+      ? `${lengthM} m ${cableType} (${lossDb.toFixed(2)} dB, extrapoliert ${minLossDb.toFixed(2)}-${maxLossDb.toFixed(2)} dB)`
+      : `${lengthM} m ${cableType} (${lossDb.toFixed(2)} dB)`,
+  };
+}
+
+/**
+ * Warning for a cable loss extrapolated beyond the datasheet values, or
+ * null if the loss is covered by the datasheet
+ */
+export function cableLossWarning(label: string, cable: ResolvedCable, frequencyMhz: number): string | null {
+  if (!cable.extrapolated) return null;
+  return `${label}: Kabeldämpfung bei ${frequencyMhz} MHz außerhalb der Datenblattwerte extrapoliert - `
+    + `${cable.lossDb.toFixed(2)} dB, möglich sind ${cable.minLossDb.toFixed(2)}-${cable.maxLossDb.toFixed(2)} dB`;
+}
+
+/**
+ * Resolve the antenna gain from the antenna database or the given value;
+ * a given gain overrides the database value
+ */
+export function resolveAntenna(
+  label: string,
+  antennaType: string | undefined,
+  antennaGainDbi: number | undefined
+): { gainDbi: number; description: string } | { error: string } {
+  if (antennaType !== undefined) {
+    const antenna = findAntenna(antennaType);
+    if (!antenna) {
+      return { error: `${label}: Unbekannter Antennentyp "${antennaType}". Verfügbar: ${Object.keys(getAntennas()).join(', ')}` };
+    }
+    const gainDbi = antennaGainDbi ?? antenna.gain_dbi;
+    return { gainDbi, description: `${antenna.description} (${gainDbi} dBi)` };
+  }
+  if (antennaGainDbi === undefined) {
+    return { error: `${label}: antenna_type oder antenna_gain_dbi angeben` };
+  }
+  return { gainDbi: antennaGainDbi, description: `${antennaGainDbi} dBi` };
+}
+
+/**
+ * Resolve cable loss and antenna gain at the given frequency; returns an
+ * error message prefixed with the label if they cannot be determined
+ */
+export function resolveStationFeed(label: string, input: StationFeedInput, frequencyMhz: number): StationFeed | { error: string } {
+  const givenLoss = input.cable_loss_db ?? 0;
+  let cable: ResolvedCable = {
+    lossDb: givenLoss,
+    minLossDb: givenLoss,
+    maxLossDb: givenLoss,
+    extrapolated: false,
+    description: input.cable_loss_db !== undefined ? `${input.cable_loss_db} dB` : 'ohne',
+  };
+  if (input.cable_type !== undefined) {
+    if (input.cable_length_m === undefined) {
+      return { error: `${label}: cable_length_m fehlt für cable_type "${input.cable_type}"` };
+    }
+    const resolved = resolveCable(label, input.cable_type, input.cable_length_m, frequencyMhz);
+    if ('error' in resolved) return resolved;
+    cable = resolved;
+  }
+
+  const antenna = resolveAntenna(label, input.antenna_type, input.antenna_gain_dbi);
+  if ('error' in antenna) return antenna;
+
+  return {
+    cableLossDb: cable.lossDb,
+    cableLossMinDb: cable.minLossDb,
+    cableLossMaxDb: cable.maxLossDb,
+    cableWarning: cableLossWarning(label, cable, frequencyMhz),
+    cableDescription: cable.description,
+    antennaGainDbi: antenna.gainDbi,
+    antennaDescription: antenna.description,
+  };
+}
@@ -0,0 +1,203 @@
+/**
+ * Station MCP Tools
+ *
+ * Tool definitions for the complete transmit chain of a station
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+
+import { getDataInfo } from '../../data/index.js';
+import { wattsToDbm, wattsToDbw } from '../../rf/power.js';
+import { findBand, toKhz } from '../bandplan/lookup.js';
+import { checkPrivilege, parsePowerLimit } from '../bandplan/privileges.js';
+import { LICENSE_CLASSES } from '../callsign/types.js';
+import { calculateChain } from './chain.js';
+import { cableLossWarning, resolveAntenna, resolveCable } from './feed.js';
+import { CONNECTOR_TYPES, ChainCable, ChainConnector, ChainResult, ConnectorType } from './types.js';
+
+const connectorTypes = Object.keys(CONNECTOR_TYPES) as [ConnectorType, ...ConnectorType[]];
+
+function roundWatts(watts: number): number {
+  return Math.round(watts * 100) / 100;
+}
+
+function roundDb(db: number): number {
+  return Math.round(db * 100) / 100;
+}
+
+function toDbm(watts: number): number {
+  return roundDb(wattsToDbm(watts));
+}
+
+/**
+ * Compare the chain against the power limit of the band (and license class)
+ */
+function checkBandLimit(frequencyMhz: number, result: ChainResult, licenseClass?: number) {
+  const match = findBand(toKhz(frequencyMhz, 'MHz'));
+  if (!match) {
+    return { band: null, message: 'Frequenz liegt außerhalb der Amateurfunkbänder (IARU Region 1)' };
+  }
+
+  let maxPower: string | null = match.plan.maxPower;
+  if (licenseClass !== undefined) {
+    const privilege = checkPrivilege(licenseClass, match.band, match.plan);
+    if (!privilege.allowed) {
+      return { band: match.band, licenseClass, allowed: false, message: privilege.reason };
+    }
+    maxPower = privilege.maxPower;
+  }
+
+  const limit = maxPower ? parsePowerLimit(maxPower) : null;
+  if (!limit) {
+    return { band: match.band, maxPower, message: 'Leistungsgrenze nicht auswertbar' };
+  }
+
+  const value = limit.reference === 'EIRP' ? result.eirpWatts
+    : limit.reference === 'ERP' ? result.erpWatts
+      : result.outputPowerWatts;
+  return {
+    band: match.band,
+    licenseClass,
+    maxPower,
+    comparedValue: limit.reference === 'output' ? 'Ausgangsleistung' : limit.reference,
+    valueWatts: roundWatts(value),
+    limitWatts: limit.watts,
+    withinLimit: value <= limit.watts,
+  };
+}
+
+/**
+ * Register all station tools with the MCP server
+ */
+export function registerStationTools(server: McpServer): void {
+  // --------------------------------------------------------------------------
+  // TOOL: Stationskette berechnen (Sender bis Antenne)
+  // --------------------------------------------------------------------------
+  server.tool(
+    'calculate_station_chain',
+    'Berechnet die komplette Sendekette Sender → (Endstufe) → Kabelabschnitte → Steckverbinder/Adapter → Antenne mit SWR an der Antenne: Leistung nach jeder Stufe, Verluste getrennt nach Kabel, Steckverbindern und Mehrverlust durch Fehlanpassung, SWR am Sender sowie ERP/EIRP. Vergleicht optional mit der Leistungsgrenze des Bands bzw. der Lizenzklasse.',
+    {
+      frequency_mhz: z.number().min(0.1).max(24250).describe('Frequenz in MHz'),
+      transmitter_power_watts: z.number().min(0.001).max(2000).describe('Ausgangsleistung des Senders in Watt'),
+      amplifier_gain_db: z.number().min(0).max(40).optional().describe('Verstärkung einer Endstufe in dB'),
+      amplifier_max_output_watts: z.number().positive().max(2000).optional().describe('Maximale Ausgangsleistung der Endstufe in Watt'),
+      cables: z.array(z.object({
+        cable_type: z.string().describe('Kabeltyp aus der Kabeldatenbank (z.B. "Ecoflex10")'),
+        length_m: z.number().min(0.1).max(1000).describe('Länge in Metern'),
+      })).max(10).default([]).describe('Kabelabschnitte vom Sender zur Antenne'),
+      connectors: z.array(z.object({
+        type: z.enum(connectorTypes).describe('Steckertyp (N, 7-16, SMA, TNC, BNC, PL259, adapter)'),
+        count: z.number().int().min(1).max(20).default(1).describe('Anzahl'),
+        loss_db: z.number().min(0).max(3).optional().describe('Eigener Verlust pro Stück in dB'),
+      })).max(10).default([]).describe('Steckverbinder und Adapter'),
+      swr: z.number().min(1).max(100).default(1).describe('SWR an der Antenne'),
+      antenna_type: z.string().optional().describe('Antennentyp aus der Antennendatenbank (z.B. "yagi-5el")'),
+      antenna_gain_dbi: z.number().min(-10).max(50).optional().describe('Antennengewinn in dBi, alternativ zu antenna_type'),
+      license_class: z.number().int().refine(c => c in LICENSE_CLASSES, 'Lizenzklasse muss 1, 3 oder 4 sein').optional().describe('Lizenzklasse (1, 3 oder 4) für den Vergleich mit der Leistungsgrenze'),
+      check_band_limit: z.boolean().default(true).describe('Mit der Leistungsgrenze des Bands vergleichen'),
+    },
+    async ({ frequency_mhz, transmitter_power_watts, amplifier_gain_db, amplifier_max_output_watts, cables, connectors, swr, antenna_type, antenna_gain_dbi, license_class, check_band_limit }) => {
+      const chainCables: ChainCable[] = [];
+      const cableWarnings: string[] = [];
+      let cableMinDb = 0;
+      let cableMaxDb = 0;
+      for (const [index, cable] of cables.entries()) {
+        const resolved = resolveCable(`Kabel ${index + 1}`, cable.cable_type, cable.length_m, frequency_mhz);
+        if ('error' in resolved) {
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify({ error: resolved.error }, null, 2),
+            }],
+          };
+        }
+        chainCables.push({ cableType: cable.cable_type, lengthM: cable.length_m, lossDb: resolved.lossDb });
+        cableMinDb += resolved.minLossDb;
+        cableMaxDb += resolved.maxLossDb;
+        const cableWarning = cableLossWarning(`Kabel ${index + 1}`, resolved, frequency_mhz);
+        if (cableWarning) cableWarnings.push(cableWarning);
+      }
+
+      const antenna = resolveAntenna('Antenne', antenna_type, antenna_gain_dbi);
+      if ('error' in antenna) {
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({ error: antenna.error }, null, 2),
+          }],
+        };
+      }
+
+      const chainConnectors: ChainConnector[] = connectors.map(c => ({
+        type: c.type,
+        count: c.count,
+        lossDb: c.loss_db ?? CONNECTOR_TYPES[c.type].lossDb,
+      }));
+
+      const result = calculateChain({
+        frequencyMhz: frequency_mhz,
+        transmitterPowerWatts: transmitter_power_watts,
+        amplifierGainDb: amplifier_gain_db,
+        amplifierMaxOutputWatts: amplifier_max_output_watts,
+        cables: chainCables,
+        connectors: chainConnectors,
+        swr,
+        antennaGainDbi: antenna.gainDbi,
+        antennaDescription: antenna.description,
+      });
+
+      const bandCheck = check_band_limit ? checkBandLimit(frequency_mhz, result, license_class) : undefined;
+      const warnings = [...cableWarnings, ...result.warnings];
+      if (bandCheck && 'withinLimit' in bandCheck && !bandCheck.withinLimit) {
+        warnings.push(`Leistungsgrenze ${bandCheck.maxPower} im Band ${bandCheck.band} überschritten`);
+      }
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            input: {
+              frequency_mhz,
+              transmitter_power_watts,
+              amplifier_gain_db,
+              swr,
+              antenna_gain_dbi: antenna.gainDbi,
+            },
+            stages: result.stages.map(s => ({
+              stage: s.stage,
+              gain_db: roundDb(s.gainDb),
+              power_watts: roundWatts(s.powerWatts),
+              power_dbm: toDbm(s.powerWatts),
+            })),
+            losses: {
+              cable_db: roundDb(result.losses.cableDb),
+              cable_range_db: { min: roundDb(cableMinDb), max: roundDb(cableMaxDb) },
+              connector_db: roundDb(result.losses.connectorDb),
+              mismatch_db: roundDb(result.losses.mismatchDb),
+              total_db: roundDb(result.losses.totalDb),
+              power_loss_percent: Math.round((1 - result.antennaPowerWatts / result.outputPowerWatts) * 1000) / 10,
+            },
+            result: {
+              output_power_watts: roundWatts(result.outputPowerWatts),
+              antenna_power_watts: roundWatts(result.antennaPowerWatts),
+              swr_at_transmitter: Math.round(result.swrAtTransmitter * 100) / 100,
+              eirp_watts: roundWatts(result.eirpWatts),
+              eirp_dbw: roundDb(wattsToDbw(result.eirpWatts)),
+              erp_watts: roundWatts(result.erpWatts),
+              erp_dbw: roundDb(wattsToDbw(result.erpWatts)),
+            },
+            bandCheck,
+            warnings,
+            hint: 'Der Mehrverlust durch Fehlanpassung entsteht in Kabeln und Steckern durch das SWR an der Antenne; die reflektierte Leistung wird über ein Anpassgerät am Sender wieder zur Antenne geschickt. Ohne Anpassgerät reduziert der Sender bei swr_at_transmitter zusätzlich seine Leistung. Für den Sicherheitsabstand calculate_safety_distance mit der EIRP verwenden.',
+            dataSource: {
+              cables: getDataInfo('cables'),
+              antennas: getDataInfo('antennas'),
+              bandplans: getDataInfo('bandplans'),
+            },
+          }, null, 2),
+        }],
+      };
+    }
+  );
+}
@@ -0,0 +1,124 @@
+/**
+ * Station Chain Types
+ *
+ * Types for the transmit chain transmitter → amplifier → cables →
+ * connectors → antenna
+ */
+
+/**
+ * Connector or adapter type with its typical insertion loss
+ */
+export type ConnectorType = 'N' | '7-16' | 'SMA' | 'TNC' | 'BNC' | 'PL259' | 'adapter';
+
+/**
+ * Typical insertion loss per connector pair, and the frequency up to which
+ * the connector is suitable
+ */
+export const CONNECTOR_TYPES: Record<ConnectorType, { lossDb: number; maxFrequencyMhz: number; description: string }> = {
+  'N': { lossDb: 0.05, maxFrequencyMhz: 11000, description: 'N-Steckverbinder' },
+  '7-16': { lossDb: 0.03, maxFrequencyMhz: 7500, description: '7/16-Steckverbinder' },
+  'SMA': { lossDb: 0.05, maxFrequencyMhz: 18000, description: 'SMA-Steckverbinder' },
+  'TNC': { lossDb: 0.05, maxFrequencyMhz: 11000, description: 'TNC-Steckverbinder' },
+  'BNC': { lossDb: 0.1, maxFrequencyMhz: 4000, description: 'BNC-Steckverbinder' },
+  'PL259': { lossDb: 0.1, maxFrequencyMhz: 300, description: 'UHF-Steckverbinder (PL-259/SO-239)' },
+  'adapter': { lossDb: 0.1, maxFrequencyMhz: 6000, description: 'Adapter' },
+};
+
+/**
+ * Cable section of the chain with resolved loss
+ */
+export interface ChainCable {
+  cableType: string;
+  lengthM: number;
+  lossDb: number;
+}
+
+/**
+ * Connectors of one type with resolved loss per piece
+ */
+export interface ChainConnector {
+  type: ConnectorType;
+  count: number;
+  lossDb: number;
+}
+
+/**
+ * Complete transmit chain with resolved losses and gains
+ */
+export interface StationChain {
+  frequencyMhz: number;
+  transmitterPowerWatts: number;
+  amplifierGainDb?: number;
+  amplifierMaxOutputWatts?: number;
+  cables: ChainCable[];
+  connectors: ChainConnector[];
+  swr: number;
+  antennaGainDbi: number;
+  antennaDescription: string;
+}
+
+/**
+ * Power after one stage of the chain
+ */
+export interface ChainStage {
+  stage: string;
+  /** Gain of the stage in dB, negative for losses */
+  gainDb: number;
+  powerWatts: number;
+}
+
+/**
+ * Losses of the chain split by cause, in dB
+ */
+export interface ChainLosses {
+  cableDb: number;
+  connectorDb: number;
+  /** Extra line loss caused by the SWR at the antenna */
+  mismatchDb: number;
+  totalDb: number;
+}
+
+/**
+ * Result of the chain calculation
+ */
+export interface ChainResult {
+  stages: ChainStage[];
+  losses: ChainLosses;
+  /** Power fed into the line (transmitter or amplifier output) */
+  outputPowerWatts: number;
+  /** Power accepted by the antenna */
+  antennaPowerWatts: number;
+  /** SWR seen at the transmitter end, lowered by the line loss */
+  swrAtTransmitter: number;
+  eirpWatts: number;
+  erpWatts: number;
+  warnings: string[];
+}
+
+/**
+ * Feed line and antenna of one station with resolved cable loss and
+ * antenna gain
+ */
+export interface StationFeed {
+  cableLossDb: number;
+  /** Range of the cable loss from the uncertainty of the cable model */
+  cableLossMinDb: number;
+  cableLossMaxDb: number;
+  /** Set if the cable loss was extrapolated beyond the datasheet values */
+  cableWarning: string | null;
+  cableDescription: string;
+  antennaGainDbi: number;
+  antennaDescription: string;
+}
+
+/**
+ * Cable run resolved from the cable database, with the loss range from
+ * the uncertainty of the cable model
+ */
+export interface ResolvedCable {
+  lossDb: number;
+  minLossDb: number;
+  maxLossDb: number;
+  extrapolated: boolean;
+  description: string;
+}
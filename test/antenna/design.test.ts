@@ -0,0 +1,64 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { designAntenna, shorteningFactor, validateConductorDiameter } from '../../src/tools/antenna/design.js';
+import { AntennaDesignInput } from '../../src/tools/antenna/types.js';
+
+const BASE: Omit<AntennaDesignInput, 'design' | 'frequencyMhz'> = {
+  conductorDiameterMm: 2,
+  insulated: false,
+  apexAngleDeg: 120,
+  transformerRatio: 49,
+  matchingVelocityFactor: 0.95,
+  quadElements: 2,
+};
+
+function assertClose(actual: number, expected: number, tolerance = 0.01): void {
+  assert.ok(Math.abs(actual - expected) <= tolerance, `${actual} != ${expected}`);
+}
+
+function partLength(design: ReturnType<typeof designAntenna>, prefix: string): number {
+  const part = design.parts.find(p => p.part.startsWith(prefix));
+  assert.ok(part, `part ${prefix} missing`);
+  return part.lengthM;
+}
+
+test('shorteningFactor of a thin wire on 20 m is about 0.973', () => {
+  assertClose(shorteningFactor(0.002, 21.1), 0.973, 0.001);
+  // Thicker conductors are shortened more
+  assert.ok(shorteningFactor(0.02, 21.1) < shorteningFactor(0.002, 21.1));
+});
+
+test('validateConductorDiameter rejects conductors thicker than λ/20', () => {
+  assert.equal(validateConductorDiameter(2, 14), null);
+  assert.match(validateConductorDiameter(50, 1296)!, /zu dick/);
+});
+
+test('dipole on 14.2 MHz is λ/2 shortened by the wire diameter', () => {
+  const dipole = designAntenna({ ...BASE, design: 'dipole', frequencyMhz: 14.2 });
+  assertClose(partLength(dipole, 'Gesamtlänge'), 10.27);
+  assertClose(partLength(dipole, 'Länge je Schenkel'), 5.13);
+  assert.equal(dipole.gainDbi, 2.15);
+});
+
+test('Moxon on 20 m matches the Cebik dimensions', () => {
+  const moxon = designAntenna({ ...BASE, design: 'moxon', frequencyMhz: 14.15 });
+  assertClose(partLength(moxon, 'A:'), 7.72);
+  assertClose(partLength(moxon, 'B:'), 1.18);
+  assertClose(partLength(moxon, 'C:'), 0.20);
+  assertClose(partLength(moxon, 'D:'), 1.44);
+  assert.equal(moxon.feedpoint.typicalOhm, 50);
+});
+
+test('HB9CV on 2 m has λ/8 element spacing', () => {
+  const hb9cv = designAntenna({ ...BASE, design: 'hb9cv', frequencyMhz: 145, conductorDiameterMm: 6 });
+  assertClose(partLength(hb9cv, 'Hinteres Element'), 0.996, 0.005);
+  assertClose(partLength(hb9cv, 'Vorderes Element'), 0.934, 0.005);
+  assertClose(partLength(hb9cv, 'Elementabstand'), 0.258, 0.001);
+});
+
+test('EFHW on 40 m lists its harmonic bands', () => {
+  const efhw = designAntenna({ ...BASE, design: 'efhw', frequencyMhz: 7.1 });
+  assertClose(partLength(efhw, 'Strahler'), 20.58);
+  assert.deepEqual(efhw.harmonics?.map(h => h.band), ['40m', '20m', '15m', '10m']);
+});
@@ -0,0 +1,19 @@
+import { before, test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { loadReferenceData } from '../../src/data/index.js';
+import { findAntenna, normalizeAntennaType } from '../../src/tools/antenna/gains.js';
+
+before(() => {
+  loadReferenceData();
+});
+
+test('normalizeAntennaType lowercases and joins words with hyphens', () => {
+  assert.equal(normalizeAntennaType('Yagi 5el'), 'yagi-5el');
+});
+
+test('findAntenna returns the typical gain of a known type', () => {
+  assert.deepEqual(findAntenna('Dipol'), { type: 'dipol', gain_dbi: 2.15, description: 'Halbwellendipol' });
+  assert.equal(findAntenna('Yagi 5el')?.gain_dbi, 10);
+  assert.equal(findAntenna('Unbekannt'), null);
+});
@@ -0,0 +1,35 @@
+import { before, test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { loadReferenceData } from '../../src/data/index.js';
+import { analyzeWire, findWireLengths, wireBands } from '../../src/tools/antenna/wire.js';
+
+function assertClose(actual: number, expected: number, tolerance = 0.01): void {
+  assert.ok(Math.abs(actual - expected) <= tolerance, `${actual} != ${expected}`);
+}
+
+before(() => {
+  loadReferenceData();
+});
+
+test('wireBands selects bands by name and reports unknown names', () => {
+  const selection = wireBands(['40m', '20M', 'xx']);
+  assert.deepEqual(selection.bands.map(b => b.band), ['40m', '20m']);
+  assert.deepEqual(selection.unknown, ['xx']);
+  assert.ok(!wireBands().bands.some(b => b.band === '2m'));
+});
+
+test('analyzeWire finds the half-wave resonances of a 40 m EFHW', () => {
+  const [band40, band20] = analyzeWire(20.1, 0.95, wireBands(['40m', '20m']).bands, 0.05);
+  assert.deepEqual(band40.resonances.map(r => [r.quarterWaves, r.impedance, r.inBand]), [[2, 'high', true]]);
+  assertClose(band40.resonances[0].frequencyMhz, 7.085);
+  assert.equal(band40.highImpedanceMargin, 0);
+  assert.deepEqual(band20.resonances.map(r => [r.quarterWaves, r.impedance]), [[4, 'high']]);
+});
+
+test('findWireLengths returns the random-wire windows between 8 and 22 m', () => {
+  const bands = wireBands(['80m', '40m', '30m', '20m', '17m', '15m', '12m', '10m']).bands;
+  const windows = findWireLengths(8, 22, 0.95, bands, 0.03);
+  assert.deepEqual(windows.map(w => Math.round(w.bestM * 100) / 100), [8.75, 10.8, 12.35, 16.45, 18.15, 21.55]);
+  assert.ok(windows.every(w => w.bestMargin >= 0.03 && w.fromM <= w.bestM && w.bestM <= w.toM));
+});
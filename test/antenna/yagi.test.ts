@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { boomLengthForElements, designYagi, elementsForBoom, stackYagis } from '../../src/tools/antenna/yagi.js';
+import { YagiInput } from '../../src/tools/antenna/types.js';
+
+const YAGI_2M: YagiInput = {
+  frequencyMhz: 144.3,
+  elements: 10,
+  elementDiameterMm: 4,
+  boomDiameterMm: 20,
+  mounting: 'isolated',
+};
+
+function assertClose(actual: number, expected: number, tolerance = 0.01): void {
+  assert.ok(Math.abs(actual - expected) <= tolerance, `${actual} != ${expected}`);
+}
+
+test('designYagi uses the DL6WU spacings of 0.2 λ and 0.075 λ', () => {
+  const yagi = designYagi(YAGI_2M);
+  assert.equal(yagi.elements.length, 10);
+  assertClose(yagi.elements[1].spacingM, 0.2 * yagi.wavelengthM, 1e-9);
+  assertClose(yagi.elements[2].spacingM, 0.075 * yagi.wavelengthM, 1e-9);
+});
+
+test('10-element 2 m yagi has a 4.46 m boom and 13.9 dBi', () => {
+  const yagi = designYagi(YAGI_2M);
+  assertClose(yagi.boomLengthM, 4.46);
+  assertClose(yagi.gainDbi, 13.9, 0.05);
+  assert.equal(yagi.boomCorrectionM, 0);
+});
+
+test('designYagi lengthens directors mounted through a metal boom', () => {
+  const yagi = designYagi({ ...YAGI_2M, mounting: 'through_boom' });
+  assert.ok(yagi.boomCorrectionM > 0);
+  const isolated = designYagi(YAGI_2M);
+  assertClose(yagi.elements[2].cutLengthM - isolated.elements[2].cutLengthM, yagi.boomCorrectionM, 1e-9);
+});
+
+test('boomLengthForElements and elementsForBoom are consistent', () => {
+  assertClose(boomLengthForElements(144.3, 10), 4.46);
+  assert.equal(elementsForBoom(144.3, 4.5, 30), 10);
+});
+
+test('stackYagis spaces two yagis by λ / (2·sin(B/2))', () => {
+  const stack = stackYagis({
+    frequencyMhz: 144.3,
+    count: 2,
+    gainDbi: 13.9,
+    beamwidthEDeg: 34.1,
+    beamwidthHDeg: 38.8,
+    polarization: 'horizontal',
+    arrangement: 'vertical',
+    harnessLossDb: 0.2,
+  });
+  assertClose(stack.spacings[0].spacingM, 3.13);
+  assertClose(stack.stackingGainDb, 2.61);
+  assertClose(stack.gainDbi, 16.51);
+});
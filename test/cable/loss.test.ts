@@ -0,0 +1,69 @@
+import { before, test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { loadReferenceData } from '../../src/data/index.js';
+import { cableLossDb, estimateCableLoss, fitCableModel, getCables, maxPowerWatts, mismatchLossDb } from '../../src/tools/cable/loss.js';
+
+// Datasheet points generated from α(f) = 2·√f + 0.01·f
+const TABLE = { '10': 2 * Math.sqrt(10) + 0.1, '100': 21, '1000': 2 * Math.sqrt(1000) + 10 };
+
+function assertClose(actual: number, expected: number, tolerance = 0.01): void {
+  assert.ok(Math.abs(actual - expected) <= tolerance, `${actual} != ${expected}`);
+}
+
+before(() => {
+  loadReferenceData();
+});
+
+test('fitCableModel recovers the coefficients of an exact table', () => {
+  const model = fitCableModel(TABLE);
+  assertClose(model.k1, 2, 1e-9);
+  assertClose(model.k2, 0.01, 1e-9);
+  assert.equal(model.minFrequencyMhz, 10);
+  assert.equal(model.maxFrequencyMhz, 1000);
+});
+
+test('estimateCableLoss keeps the datasheet tolerance within the table', () => {
+  const estimate = estimateCableLoss(TABLE, 400);
+  assertClose(estimate.dbPer100m, 44);
+  assert.equal(estimate.uncertainty, 0.05);
+  assert.equal(estimate.extrapolated, false);
+  assertClose(estimate.minDbPer100m, 41.8);
+  assertClose(estimate.maxDbPer100m, 46.2);
+});
+
+test('estimateCableLoss widens the range per octave outside the table', () => {
+  const above = estimateCableLoss(TABLE, 4000);
+  assert.equal(above.extrapolated, true);
+  assertClose(above.uncertainty, 0.35, 1e-9);
+  assertClose(above.dbPer100m, 166.49);
+
+  const below = estimateCableLoss(TABLE, 2.5);
+  assert.equal(below.extrapolated, true);
+  assertClose(below.uncertainty, 0.35, 1e-9);
+});
+
+test('cableLossDb scales with the length and rejects unknown cables', () => {
+  assertClose(cableLossDb('Ecoflex10', 20, 144)!, 1.67);
+  assert.equal(cableLossDb('Unbekannt', 20, 144), null);
+});
+
+test('maxPowerWatts interpolates the rating on a log-log scale', () => {
+  const cable = getCables().Ecoflex10;
+  assert.equal(maxPowerWatts(cable, 100), 1050);
+  assertClose(maxPowerWatts(cable, 144), 861.05);
+});
+
+test('maxPowerWatts scales the rating with the attenuation outside the datasheet', () => {
+  const cable = getCables().Ecoflex10;
+  const at5000 = maxPowerWatts(cable, 5000);
+  assertClose(at5000, 110);
+  assert.ok(maxPowerWatts(cable, 10368) < at5000);
+  assert.ok(maxPowerWatts(cable, 3.5) > 3400);
+});
+
+test('mismatchLossDb is the reflected share of the power', () => {
+  assertClose(mismatchLossDb(1), 0);
+  assertClose(mismatchLossDb(2), 0.512);
+  assertClose(mismatchLossDb(3), 1.249);
+});
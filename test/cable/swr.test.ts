@@ -0,0 +1,37 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { mismatchedLineLoss, reflectionCoefficient, swrFromReflection } from '../../src/tools/cable/swr.js';
+
+function assertClose(actual: number, expected: number, tolerance = 0.01): void {
+  assert.ok(Math.abs(actual - expected) <= tolerance, `${actual} != ${expected}`);
+}
+
+test('reflectionCoefficient and swrFromReflection are inverse', () => {
+  assertClose(reflectionCoefficient(3), 0.5, 1e-12);
+  assertClose(swrFromReflection(0.5), 3, 1e-12);
+  assert.equal(reflectionCoefficient(1), 0);
+});
+
+test('mismatchedLineLoss matches the ARRL chart for 3 dB line loss at SWR 3', () => {
+  const line = mismatchedLineLoss(3, 3, 'antenna')!;
+  assertClose(line.totalLossDb, 3.968);
+  assertClose(line.additionalLossDb, 0.968);
+  assertClose(line.swrAtTransmitter, 1.669);
+});
+
+test('mismatchedLineLoss adds nothing on a matched line', () => {
+  const line = mismatchedLineLoss(2, 1, 'antenna')!;
+  assertClose(line.additionalLossDb, 0, 1e-12);
+  assertClose(line.swrAtTransmitter, 1, 1e-12);
+});
+
+test('mismatchedLineLoss converts an SWR measured at the transmitter', () => {
+  const line = mismatchedLineLoss(3, 1.5, 'transmitter')!;
+  assertClose(line.swrAtAntenna, 2.328);
+  assertClose(line.additionalLossDb, 0.576);
+});
+
+test('mismatchedLineLoss rejects a transmitter SWR impossible for the line loss', () => {
+  assert.equal(mismatchedLineLoss(10, 2, 'transmitter'), null);
+});
@@ -0,0 +1,27 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { parseCtyDat } from '../../src/tools/dxcc/cty.js';
+import { lookupDxcc } from '../../src/tools/dxcc/lookup.js';
+
+test('parseCtyDat reads entity fields and the version tag', () => {
+  const db = parseCtyDat([
+    'Austria:                  15:  28:  EU:    47.33:    -13.33:    -1.0:  OE:',
+    '    OE,=4U1VIC,=VER20190630;',
+  ].join('\n'));
+
+  assert.equal(db.version, '20190630');
+  assert.equal(db.entities.length, 1);
+  assert.deepEqual(
+    { lat: db.entities[0].lat, lon: db.entities[0].lon, utcOffset: db.entities[0].utcOffset },
+    { lat: 47.33, lon: 13.33, utcOffset: 1 }
+  );
+});
+
+test('lookupDxcc resolves prefixes, exact calls and portable operation', () => {
+  assert.equal(lookupDxcc('OE8YML')?.entity.name, 'Austria');
+  assert.equal(lookupDxcc('4U1VIC')?.entity.name, 'Austria');
+  assert.equal(lookupDxcc('9A/OE8YML')?.entity.name, 'Croatia');
+  assert.equal(lookupDxcc('KH6ABC')?.entity.name, 'Hawaii');
+  assert.equal(lookupDxcc('OE8YML/MM'), null);
+});
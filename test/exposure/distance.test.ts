@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  combinedAttenuationDb,
+  downtiltDistance,
+  eirpWatts,
+  estimateBeamwidth,
+  groundLevelDistance,
+  nearFieldBoundary,
+  safeDistances,
+} from '../../src/tools/exposure/distance.js';
+
+function assertClose(actual: number, expected: number, tolerance = 0.01): void {
+  assert.ok(Math.abs(actual - expected) <= tolerance, `${actual} != ${expected}`);
+}
+
+test('eirpWatts applies cable loss and antenna gain', () => {
+  assertClose(eirpWatts(100, 3, 10), 501.19);
+  assertClose(eirpWatts(100, 0, 0), 100);
+});
+
+test('safeDistances for 100 W EIRP on 2 m', () => {
+  const distances = safeDistances(100, 144);
+  assertClose(distances.general_public, 1.995);
+  assertClose(distances.occupational, 0.892);
+});
+
+test('estimateBeamwidth is capped at the dipole', () => {
+  assert.equal(estimateBeamwidth(2.15), 78);
+  assertClose(estimateBeamwidth(20), 20.31);
+});
+
+test('downtiltDistance is 12 dB down at the beamwidth and floored at 20 dB', () => {
+  assertClose(downtiltDistance(10, 30, 30), 10 * Math.pow(10, -12 / 20));
+  assertClose(downtiltDistance(10, 90, 30), 1);
+});
+
+test('groundLevelDistance', () => {
+  // Antenna at head height: the main beam distance applies at ground level
+  assert.equal(groundLevelDistance(5, 2, 30), 5);
+  // High above the safety distance: no exposure at ground level
+  assert.equal(groundLevelDistance(5, 20, 30), 0);
+});
+
+test('nearFieldBoundary for a half-wave element on 2 m', () => {
+  assertClose(nearFieldBoundary(144), 1.041);
+  assertClose(nearFieldBoundary(144, 3), 8.646);
+});
+
+test('combinedAttenuationDb adds the horizontal pattern up to the side lobe floor', () => {
+  assert.equal(combinedAttenuationDb(0, 30, 90, null), 0);
+  assert.equal(combinedAttenuationDb(15, 30, 30, 60), 6);
+  assert.equal(combinedAttenuationDb(60, 30, 60, 60), 20);
+});
@@ -0,0 +1,34 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { getReferenceLevels } from '../../src/tools/exposure/limits.js';
+
+function assertClose(actual: number, expected: number, tolerance = 0.01): void {
+  assert.ok(Math.abs(actual - expected) <= tolerance, `${actual} != ${expected}`);
+}
+
+test('ICNIRP reference levels in the 10-400 MHz plateau', () => {
+  const levels = getReferenceLevels(144);
+  assert.deepEqual(levels.general_public, { eFieldVm: 28, powerDensityWm2: 2 });
+  assert.deepEqual(levels.occupational, { eFieldVm: 61, powerDensityWm2: 10 });
+});
+
+test('ICNIRP reference levels below 10 MHz follow the field strength', () => {
+  const levels = getReferenceLevels(3.6);
+  assertClose(levels.general_public.eFieldVm, 45.85);
+  assertClose(levels.general_public.powerDensityWm2, 5.576);
+  assertClose(levels.occupational.eFieldVm, 169.44);
+});
+
+test('ICNIRP reference levels rise with f between 400 and 2000 MHz', () => {
+  const levels = getReferenceLevels(432);
+  assertClose(levels.general_public.powerDensityWm2, 2.16);
+  assertClose(levels.general_public.eFieldVm, 28.58);
+  assertClose(levels.occupational.powerDensityWm2, 10.8);
+});
+
+test('ICNIRP reference levels are constant above 2 GHz', () => {
+  const levels = getReferenceLevels(10368);
+  assert.equal(levels.general_public.powerDensityWm2, 10);
+  assert.equal(levels.occupational.powerDensityWm2, 50);
+});
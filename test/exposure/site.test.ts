@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { assessSite } from '../../src/tools/exposure/site.js';
+import { SiteTransmitter } from '../../src/tools/exposure/types.js';
+
+function assertClose(actual: number, expected: number, tolerance = 1e-4): void {
+  assert.ok(Math.abs(actual - expected) <= tolerance, `${actual} != ${expected}`);
+}
+
+function transmitter(name: string, frequencyMhz: number): SiteTransmitter {
+  return {
+    name,
+    frequencyMhz,
+    powerWatts: 100,
+    mode: 'FM',
+    dutyFactor: 1,
+    cableLossDb: 0,
+    cableDescription: 'ohne',
+    antennaGainDbi: 0,
+    antennaDescription: '0 dBi',
+    x: 0,
+    y: 0,
+    heightM: 10,
+    azimuthDeg: null,
+    horizontalBeamwidthDeg: 360,
+    verticalBeamwidthDeg: 78,
+  };
+}
+
+const POINT = { name: 'Nachbar', x: 10, y: 0, heightM: 10 };
+
+test('assessSite computes the power density ratio in the main beam', () => {
+  const site = assessSite([transmitter('2 m', 144)], [POINT], { date: '2026-10-19' });
+  const [result] = site.points;
+
+  // S = 100 W / (4π · 10²) = 0.0796 W/m², general public limit 2 W/m²
+  assertClose(result.contributions[0].powerDensityWm2, 0.0796);
+  assertClose(result.thermalRatio.general_public, 0.0398);
+  assertClose(result.thermalRatio.occupational, 0.00796);
+  assert.equal(result.stimulationRatio, null);
+  assert.equal(result.pass.general_public, true);
+});
+
+test('assessSite sums the ratios of all transmitters', () => {
+  const single = assessSite([transmitter('2 m', 144)], [POINT], { date: '2026-10-19' });
+  const double = assessSite([transmitter('2 m', 144), transmitter('70 cm', 144)], [POINT], { date: '2026-10-19' });
+  assertClose(double.points[0].thermalRatio.general_public, 2 * single.points[0].thermalRatio.general_public);
+});
+
+test('assessSite sums field strengths below 10 MHz and flags the near field', () => {
+  const site = assessSite([transmitter('80 m', 3.6)], [{ ...POINT, x: 5 }], { date: '2026-10-19' });
+  const [result] = site.points;
+  assert.ok(result.stimulationRatio);
+  assert.equal(result.nearField, true);
+  assert.equal(site.warnings.length, 1);
+});
@@ -0,0 +1,61 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+
+// DEM_DIR is read when the module loads, so it is imported after the
+// synthetic tiles are in place
+let dem: typeof import('../../src/geo/dem.js');
+let demDir: string;
+
+/**
+ * SRTM tile with 11 × 11 samples; the height rises by 10 m per sample
+ * towards the east
+ */
+function writeTile(name: string, voidAt?: [number, number]): void {
+  const size = 11;
+  const data = Buffer.alloc(size * size * 2);
+  for (let row = 0; row < size; row++) {
+    for (let col = 0; col < size; col++) {
+      const value = voidAt && voidAt[0] === row && voidAt[1] === col ? -32768 : 1000 + col * 10;
+      data.writeInt16BE(value, (row * size + col) * 2);
+    }
+  }
+  writeFileSync(path.join(demDir, name), data);
+}
+
+before(async () => {
+  demDir = mkdtempSync(path.join(tmpdir(), 'dem-'));
+  writeTile('N47E015.hgt', [0, 0]);
+  process.env.DEM_DIR = demDir;
+  dem = await import('../../src/geo/dem.js');
+});
+
+after(() => {
+  rmSync(demDir, { recursive: true, force: true });
+});
+
+test('tileName uses the south-west corner of the tile', () => {
+  assert.equal(dem.tileName({ lat: 47.07, lon: 15.44 }), 'N47E015.hgt');
+  assert.equal(dem.tileName({ lat: -0.5, lon: -70.2 }), 'S01W071.hgt');
+});
+
+test('elevationAt interpolates between the samples', () => {
+  assert.equal(dem.elevationAt({ lat: 47.5, lon: 15.5 }), 1050);
+  assert.ok(Math.abs(dem.elevationAt({ lat: 47.5, lon: 15.55 })! - 1055) < 1e-9);
+});
+
+test('elevationAt skips void samples', () => {
+  // North-west corner is a void, its neighbours are 1000 and 1010 m
+  const elevation = dem.elevationAt({ lat: 47.99, lon: 15.01 })!;
+  assert.ok(elevation > 1000 && elevation < 1010);
+});
+
+test('a missing tile is found once it is added to DEM_DIR', () => {
+  assert.equal(dem.hasTile('N48E015.hgt'), false);
+  assert.equal(dem.elevationAt({ lat: 48.5, lon: 15.5 }), null);
+  writeTile('N48E015.hgt');
+  assert.equal(dem.hasTile('N48E015.hgt'), true);
+  assert.equal(dem.elevationAt({ lat: 48.5, lon: 15.5 }), 1050);
+});
@@ -0,0 +1,32 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { distanceKm, intermediatePoint, midpoint } from '../../src/geo/distance.js';
+
+test('one degree of longitude on the equator is 111.19 km', () => {
+  assert.ok(Math.abs(distanceKm({ lat: 0, lon: 0 }, { lat: 0, lon: 1 }) - 111.19) < 0.01);
+});
+
+test('Wien - Graz is about 145 km', () => {
+  const km = distanceKm({ lat: 48.2082, lon: 16.3738 }, { lat: 47.0707, lon: 15.4395 });
+  assert.ok(Math.abs(km - 144.9) < 0.5, `${km}`);
+});
+
+test('antipodes are half the circumference apart', () => {
+  assert.ok(Math.abs(distanceKm({ lat: 0, lon: 0 }, { lat: 0, lon: 180 }) - Math.PI * 6371) < 1e-6);
+});
+
+test('distance to itself is zero', () => {
+  assert.equal(distanceKm({ lat: 47.5, lon: 13.1 }, { lat: 47.5, lon: 13.1 }), 0);
+});
+
+test('intermediatePoint follows the great circle from start to end', () => {
+  const wien = { lat: 48.2082, lon: 16.3738 };
+  const graz = { lat: 47.0707, lon: 15.4395 };
+  const start = intermediatePoint(wien, graz, 0);
+  assert.ok(Math.abs(start.lat - wien.lat) < 1e-9 && Math.abs(start.lon - wien.lon) < 1e-9);
+  const half = intermediatePoint(wien, graz, 0.5);
+  const mid = midpoint(wien, graz);
+  assert.ok(Math.abs(half.lat - mid.lat) < 1e-9 && Math.abs(half.lon - mid.lon) < 1e-9);
+  assert.ok(Math.abs(distanceKm(wien, intermediatePoint(wien, graz, 0.25)) - distanceKm(wien, graz) / 4) < 1e-6);
+});
@@ -0,0 +1,32 @@
+import { before, test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { loadReferenceData } from '../../src/data/index.js';
+import { geocodePlz } from '../../src/geo/gazetteer.js';
+
+before(() => {
+  loadReferenceData();
+});
+
+test('geocodePlz resolves a known postal code exactly', () => {
+  const graz = geocodePlz('8010');
+  assert.ok(graz);
+  assert.equal(graz.gemeinde, 'Graz');
+  assert.equal(graz.bundesland, 'Steiermark');
+});
+
+test('geocodePlz does not locate codes missing from the gazetteer', () => {
+  assert.equal(geocodePlz('9999'), null);
+});
+
+test('geocodePlz rejects malformed codes', () => {
+  assert.equal(geocodePlz('0123'), null);
+  assert.equal(geocodePlz('12345'), null);
+  assert.equal(geocodePlz('Graz'), null);
+});
+
+test('geocodePlz locates Vienna codes at their district', () => {
+  const liesing = geocodePlz('1235');
+  assert.ok(liesing);
+  assert.equal(liesing.bezirk, 'Wien 23., Liesing');
+});
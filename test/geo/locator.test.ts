@@ -0,0 +1,66 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  isValidLocator,
+  latLonToLocator,
+  locatorToBounds,
+  locatorToLatLon,
+  normalizeLocator,
+  validateLocator,
+} from '../../src/geo/locator.js';
+
+test('normalizeLocator trims and upper-cases', () => {
+  assert.equal(normalizeLocator(' jn76to '), 'JN76TO');
+});
+
+test('isValidLocator accepts 4, 6, 8 and 10 characters', () => {
+  assert.ok(isValidLocator('JN88'));
+  assert.ok(isValidLocator('jn76to'));
+  assert.ok(isValidLocator('JN76TO42'));
+  assert.ok(isValidLocator('JN76TO42AB'));
+  assert.ok(!isValidLocator('JN8'));
+  assert.ok(!isValidLocator('SN76TO'));
+  assert.ok(!isValidLocator('JN76TY'));
+});
+
+test('validateLocator names the first invalid character', () => {
+  assert.equal(validateLocator('JN76TO'), null);
+  assert.match(validateLocator('JN7ATO')!, /Zeichen 4 \("A"\) ist ungültig - erlaubt sind 0-9/);
+  assert.match(validateLocator('JN76'.padEnd(5, 'T'))!, /hat 5 Zeichen/);
+});
+
+test('locatorToBounds returns the cell edges', () => {
+  assert.deepEqual(locatorToBounds('JN88'), { south: 48, west: 16, north: 49, east: 18 });
+});
+
+test('locatorToLatLon returns the centre of the cell', () => {
+  assert.deepEqual(locatorToLatLon('JN88'), { lat: 48.5, lon: 17 });
+
+  const graz = locatorToLatLon('JN76TO');
+  assert.ok(Math.abs(graz.lat - 46.6042) < 1e-4);
+  assert.ok(Math.abs(graz.lon - 15.625) < 1e-4);
+});
+
+test('locatorToLatLon rejects invalid locators', () => {
+  assert.throws(() => locatorToLatLon('XX00'), /Zeichen 1 \("X"\) ist ungültig/);
+});
+
+test('latLonToLocator encodes Graz at every precision', () => {
+  const graz = { lat: 47.0707, lon: 15.4395 };
+  assert.equal(latLonToLocator(graz, 4), 'JN77');
+  assert.equal(latLonToLocator(graz), 'JN77RB');
+  assert.equal(latLonToLocator(graz, 8), 'JN77RB26');
+});
+
+test('latLonToLocator round-trips cell centres', () => {
+  for (const locator of ['JN88', 'JN76TO', 'IO91WM42', 'RR99XX99XX', 'AA00AA00AA']) {
+    assert.equal(latLonToLocator(locatorToLatLon(locator), locator.length as 4 | 6 | 8 | 10), locator);
+  }
+});
+
+test('latLonToLocator keeps the poles and the date line inside the grid', () => {
+  assert.equal(latLonToLocator({ lat: 90, lon: 180 }, 4), 'RR99');
+  assert.equal(latLonToLocator({ lat: -90, lon: -180 }, 4), 'AA00');
+  assert.throws(() => latLonToLocator({ lat: 91, lon: 0 }), /außerhalb/);
+});
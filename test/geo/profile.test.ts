@@ -0,0 +1,58 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+
+// DEM_DIR is read when the module loads, so it is imported after the
+// synthetic tile is in place
+let profile: typeof import('../../src/geo/profile.js');
+let demDir: string;
+
+const A = { lat: 47.5, lon: 15.1 };
+const B = { lat: 47.5, lon: 15.9 };
+const OPTIONS = { heightAM: 100, heightBM: 100, frequencyMhz: 1296, kFactor: 4 / 3, samples: 10 };
+
+function assertClose(actual: number, expected: number, tolerance = 0.1): void {
+  assert.ok(Math.abs(actual - expected) <= tolerance, `${actual} != ${expected}`);
+}
+
+before(async () => {
+  demDir = mkdtempSync(path.join(tmpdir(), 'dem-'));
+  // Flat terrain at 500 m
+  const data = Buffer.alloc(11 * 11 * 2);
+  for (let i = 0; i < 11 * 11; i++) data.writeInt16BE(500, i * 2);
+  writeFileSync(path.join(demDir, 'N47E015.hgt'), data);
+  process.env.DEM_DIR = demDir;
+  profile = await import('../../src/geo/profile.js');
+});
+
+after(() => {
+  rmSync(demDir, { recursive: true, force: true });
+});
+
+test('terrainProfile adds the earth bulge for k = 4/3 at midpath', () => {
+  const result = profile.terrainProfile(A, B, OPTIONS);
+  assertClose(result.distanceKm, 60.1);
+  assert.equal(result.groundAM, 500);
+  assertClose(result.worst!.earthBulgeM, 53.1);
+  assertClose(result.worst!.fresnelRadiusM, 59.0);
+  assertClose(result.worst!.clearancePercent!, 79.5);
+  assert.deepEqual(result.obstructions, []);
+  assert.deepEqual(result.fresnelIntrusions, []);
+});
+
+test('terrainProfile reports the earth bulge blocking low antennas', () => {
+  const result = profile.terrainProfile(A, B, { ...OPTIONS, heightAM: 10, heightBM: 10 });
+  assert.equal(result.obstructions.length, 1);
+  assertClose(result.obstructions[0].startKm, 6.0);
+  assertClose(result.obstructions[0].endKm, 54.1);
+  assertClose(result.worst!.clearanceM!, -43.1);
+});
+
+test('terrainProfile names missing tiles', () => {
+  assert.throws(
+    () => profile.terrainProfile(A, { lat: 48.5, lon: 15.9 }, OPTIONS),
+    /^Error: Höhendaten fehlen: N48E015\.hgt/
+  );
+});
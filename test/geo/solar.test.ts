@@ -0,0 +1,49 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { greylineWindows, overlapWindow, solarTimes } from '../../src/geo/solar.js';
+
+const WIEN = { lat: 48.2082, lon: 16.3738 };
+
+/**
+ * Assert that a time is within a few minutes of an expected UTC time
+ */
+function assertNear(actual: Date | null, expected: string, minutes = 3): void {
+  assert.ok(actual, `expected ${expected}, got null`);
+  const diff = Math.abs(actual.getTime() - new Date(expected).getTime()) / 60000;
+  assert.ok(diff <= minutes, `${actual.toISOString()} is ${diff.toFixed(1)} min off ${expected}`);
+}
+
+test('solarTimes matches the published times for Wien at the summer solstice', () => {
+  const times = solarTimes(new Date('2024-06-21T12:00:00Z'), WIEN);
+  assertNear(times.sunrise, '2024-06-21T02:53:00Z');
+  assertNear(times.solarNoon, '2024-06-21T10:56:00Z');
+  assertNear(times.sunset, '2024-06-21T18:58:00Z');
+  assertNear(times.civilDawn, '2024-06-21T02:11:00Z');
+  assertNear(times.civilDusk, '2024-06-21T19:41:00Z');
+});
+
+test('solarTimes on the equator at the equinox gives a twelve-hour day', () => {
+  const times = solarTimes(new Date('2024-03-20'), { lat: 0, lon: 0 });
+  assertNear(times.solarNoon, '2024-03-20T12:07:30Z', 1);
+  const dayLength = (times.sunset!.getTime() - times.sunrise!.getTime()) / 3600000;
+  assert.ok(Math.abs(dayLength - 12.1) < 0.05, `${dayLength}`);
+});
+
+test('solarTimes returns null during the polar day', () => {
+  const times = solarTimes(new Date('2024-06-21'), { lat: 69.65, lon: 18.96 });
+  assert.equal(times.sunrise, null);
+  assert.equal(times.sunset, null);
+  assert.ok(times.solarNoon);
+});
+
+test('greylineWindows spans civil twilight and overlapWindow intersects', () => {
+  const windows = greylineWindows(solarTimes(new Date('2024-06-21'), WIEN));
+  assert.deepEqual(windows.map(w => w.type), ['morning', 'evening']);
+  assert.ok(windows.every(w => w.start < w.end));
+
+  const a = { start: new Date('2024-06-21T18:00:00Z'), end: new Date('2024-06-21T19:00:00Z') };
+  const b = { start: new Date('2024-06-21T18:30:00Z'), end: new Date('2024-06-21T20:00:00Z') };
+  assert.deepEqual(overlapWindow(a, b), { start: b.start, end: a.end });
+  assert.equal(overlapWindow(a, { start: a.end, end: b.end }), null);
+});
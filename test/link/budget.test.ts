@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { calculateLinkBudget } from '../../src/tools/link/budget.js';
+import { StationFeed } from '../../src/tools/station/types.js';
+
+function assertClose(actual: number, expected: number, tolerance = 0.01): void {
+  assert.ok(Math.abs(actual - expected) <= tolerance, `${actual} != ${expected}`);
+}
+
+function station(cableLossDb: number, spreadDb: number, antennaGainDbi: number): StationFeed {
+  return {
+    cableLossDb,
+    cableLossMinDb: cableLossDb - spreadDb,
+    cableLossMaxDb: cableLossDb + spreadDb,
+    cableWarning: null,
+    cableDescription: `${cableLossDb} dB`,
+    antennaGainDbi,
+    antennaDescription: `${antennaGainDbi} dBi`,
+  };
+}
+
+test('calculateLinkBudget sums gains and losses along the path', () => {
+  const budget = calculateLinkBudget({
+    frequencyMhz: 1000,
+    distanceKm: 1,
+    txPowerWatts: 10,
+    tx: station(2, 0, 10),
+    rx: station(1, 0, 10),
+    otherLossesDb: 0.5,
+    rxSensitivityDbm: -120,
+  });
+  assertClose(budget.txPowerDbm, 40);
+  assertClose(budget.eirpDbm, 48);
+  assertClose(budget.pathLossDb, 92.45);
+  assertClose(budget.rxLevelDbm, -35.95);
+  assertClose(budget.fadeMarginDb!, 84.05);
+});
+
+test('calculateLinkBudget widens the received level by the cable loss range', () => {
+  const budget = calculateLinkBudget({
+    frequencyMhz: 10368,
+    distanceKm: 50,
+    txPowerWatts: 1,
+    tx: station(3, 0.5, 30),
+    rx: station(2, 0.25, 30),
+    otherLossesDb: 0,
+  });
+  assertClose(budget.rxLevelMaxDbm - budget.rxLevelDbm, 0.75);
+  assertClose(budget.rxLevelDbm - budget.rxLevelMinDbm, 0.75);
+  assert.equal(budget.fadeMarginDb, null);
+});
@@ -0,0 +1,21 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { dbmToWatts, dbwToWatts, wattsToDbm, wattsToDbw } from '../../src/rf/power.js';
+
+function assertClose(actual: number, expected: number, tolerance = 0.01): void {
+  assert.ok(Math.abs(actual - expected) <= tolerance, `${actual} != ${expected}`);
+}
+
+test('wattsToDbm and wattsToDbw convert known levels', () => {
+  assertClose(wattsToDbm(100), 50);
+  assertClose(wattsToDbm(0.001), 0);
+  assertClose(wattsToDbw(100), 20);
+  assertClose(wattsToDbw(750), 28.75);
+});
+
+test('dbmToWatts and dbwToWatts invert the conversions', () => {
+  assertClose(dbmToWatts(30), 1, 1e-12);
+  assertClose(dbwToWatts(wattsToDbw(750)), 750, 1e-9);
+  assertClose(dbmToWatts(-100) * 1e13, 1, 1e-9);
+});
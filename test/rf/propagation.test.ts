@@ -0,0 +1,26 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { freeSpacePathLossDb, fresnelRadiusM, wavelengthM } from '../../src/rf/propagation.js';
+
+function assertClose(actual: number, expected: number, tolerance = 0.01): void {
+  assert.ok(Math.abs(actual - expected) <= tolerance, `${actual} != ${expected}`);
+}
+
+test('wavelengthM divides the speed of light by the frequency', () => {
+  assertClose(wavelengthM(144), 2.082, 0.001);
+  assertClose(wavelengthM(299.792458), 1, 1e-12);
+});
+
+test('freeSpacePathLossDb matches 32.45 + 20·log10(f) + 20·log10(d)', () => {
+  assertClose(freeSpacePathLossDb(1, 1000), 92.45);
+  assertClose(freeSpacePathLossDb(100, 10368), 152.76);
+  // 6 dB per doubling of the distance
+  assertClose(freeSpacePathLossDb(2, 1000) - freeSpacePathLossDb(1, 1000), 6.02);
+});
+
+test('fresnelRadiusM gives the first zone at midpath', () => {
+  assertClose(fresnelRadiusM(5, 5, 10000), 8.66);
+  assertClose(fresnelRadiusM(5, 5, 10000, 2), 8.66 * Math.SQRT2);
+  assert.ok(fresnelRadiusM(1, 9, 10000) < fresnelRadiusM(5, 5, 10000));
+});
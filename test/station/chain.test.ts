@@ -0,0 +1,42 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { calculateChain } from '../../src/tools/station/chain.js';
+import { StationChain } from '../../src/tools/station/types.js';
+
+function assertClose(actual: number, expected: number, tolerance = 0.01): void {
+  assert.ok(Math.abs(actual - expected) <= tolerance, `${actual} != ${expected}`);
+}
+
+const CHAIN: StationChain = {
+  frequencyMhz: 144.3,
+  transmitterPowerWatts: 100,
+  cables: [{ cableType: 'Ecoflex10', lengthM: 20, lossDb: 2 }],
+  connectors: [{ type: 'N', count: 2, lossDb: 0.05 }],
+  swr: 1,
+  antennaGainDbi: 10,
+  antennaDescription: '10 dBi',
+};
+
+test('calculateChain sums cable and connector losses', () => {
+  const result = calculateChain(CHAIN);
+  assertClose(result.losses.totalDb, 2.1);
+  assertClose(result.antennaPowerWatts, 61.66);
+  assertClose(result.eirpWatts, 616.6, 0.1);
+  assertClose(result.erpWatts, 375.8, 0.1);
+  assert.equal(result.losses.mismatchDb, 0);
+  assert.equal(result.swrAtTransmitter, 1);
+});
+
+test('calculateChain adds the extra line loss at SWR 2', () => {
+  const result = calculateChain({ ...CHAIN, swr: 2 });
+  assertClose(result.losses.mismatchDb, 0.324);
+  assertClose(result.losses.totalDb, 2.424);
+  assertClose(result.swrAtTransmitter, 1.517);
+});
+
+test('calculateChain limits an overdriven amplifier', () => {
+  const result = calculateChain({ ...CHAIN, amplifierGainDb: 13, amplifierMaxOutputWatts: 1000 });
+  assert.equal(result.outputPowerWatts, 1000);
+  assert.match(result.warnings[0], /Endstufe übersteuert/);
+});
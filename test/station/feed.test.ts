@@ -0,0 +1,43 @@
+import { before, test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { loadReferenceData } from '../../src/data/index.js';
+import { resolveStationFeed } from '../../src/tools/station/feed.js';
+
+before(() => {
+  loadReferenceData();
+});
+
+test('resolveStationFeed takes the cable loss from the cable database', () => {
+  const feed = resolveStationFeed('Sender', { cable_type: 'Ecoflex10', cable_length_m: 20, antenna_gain_dbi: 5 }, 144);
+  assert.ok(!('error' in feed));
+  assert.ok(Math.abs(feed.cableLossDb - 1.67) < 0.01);
+  assert.ok(feed.cableLossMinDb < feed.cableLossDb && feed.cableLossMaxDb > feed.cableLossDb);
+  assert.equal(feed.cableWarning, null);
+  assert.equal(feed.antennaGainDbi, 5);
+});
+
+test('resolveStationFeed warns about cable losses beyond the datasheet', () => {
+  const feed = resolveStationFeed('Sender', { cable_type: 'Ecoflex10', cable_length_m: 10, antenna_gain_dbi: 20 }, 10368);
+  assert.ok(!('error' in feed));
+  assert.ok(Math.abs(feed.cableLossDb - 10.27) < 0.01);
+  assert.ok(Math.abs(feed.cableLossMinDb - 8.45) < 0.01);
+  assert.ok(Math.abs(feed.cableLossMaxDb - 12.09) < 0.01);
+  assert.match(feed.cableWarning!, /^Sender: Kabeldämpfung bei 10368 MHz außerhalb der Datenblattwerte extrapoliert/);
+});
+
+test('resolveStationFeed uses a given cable loss without cable type', () => {
+  const feed = resolveStationFeed('Sender', { cable_loss_db: 1.5, antenna_gain_dbi: 0 }, 144);
+  assert.ok(!('error' in feed));
+  assert.equal(feed.cableLossDb, 1.5);
+  assert.equal(feed.cableDescription, '1.5 dB');
+});
+
+test('resolveStationFeed reports missing and unknown inputs with the label', () => {
+  assert.deepEqual(resolveStationFeed('Sender', {}, 144), { error: 'Sender: antenna_type oder antenna_gain_dbi angeben' });
+  const unknown = resolveStationFeed('Sender', { cable_type: 'XYZ', cable_length_m: 10, antenna_gain_dbi: 0 }, 144);
+  assert.ok('error' in unknown);
+  assert.match(unknown.error, /^Sender: Unbekannter Kabeltyp "XYZ"/);
+  const missingLength = resolveStationFeed('Sender', { cable_type: 'Ecoflex10', antenna_gain_dbi: 0 }, 144);
+  assert.deepEqual(missingLength, { error: 'Sender: cable_length_m fehlt für cable_type "Ecoflex10"' });
+});